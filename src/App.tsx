@@ -13,6 +13,8 @@ import ProfilePage from "./pages/ProfilePage";
 import LandingPage from "./pages/LandingPage";
 import PricingPage from "./pages/PricingPage";
 import FeaturesPage from "./pages/FeaturesPage";
+import SessionsPage from "./pages/SessionsPage";
+import UsagePage from "./pages/UsagePage";
 import DebugMenu from "./components/DebugMenu";
 // Using our simplified demo auth 
 // import { AuthProvider } from "@/hooks/auth/use-auth";
@@ -61,6 +63,8 @@ const App = () => {
               <Route path="/profile" element={<ProfilePage />} />
               <Route path="/pricing" element={<PricingPage />} />
               <Route path="/features" element={<FeaturesPage />} />
+              <Route path="/sessions" element={<SessionsPage />} />
+              <Route path="/usage" element={<UsagePage />} />
               <Route path="*" element={<NotFound />} />
             </Routes>
           </BrowserRouter>
@@ -7,6 +7,7 @@ import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import GradingApiDebug from './GradingApiDebug';
+import { getActiveProviderSettings, LLM_PROVIDERS } from '@/utils/llmProviders';
 
 interface DebugMenuProps {
   open: boolean;
@@ -239,12 +240,16 @@ const DebugMenu: React.FC<DebugMenuProps> = ({ open, onClose }) => {
               </Button>
               
               <div className="border rounded p-3">
-                <h3 className="font-medium mb-2">OpenAI API Settings</h3>
+                <h3 className="font-medium mb-2">AI Provider Settings</h3>
                 <ScrollArea className="h-[300px]">
                   <div className="space-y-2">
+                    <div>
+                      <Label className="text-sm">Provider:</Label>
+                      <p className="text-sm text-muted-foreground">{LLM_PROVIDERS[getActiveProviderSettings().provider].label}</p>
+                    </div>
                     <div>
                       <Label className="text-sm">Model:</Label>
-                      <p className="text-sm text-muted-foreground">gpt-4o-mini</p>
+                      <p className="text-sm text-muted-foreground">{getActiveProviderSettings().model}</p>
                     </div>
                     <div>
                       <Label className="text-sm">Temperature:</Label>
@@ -1,8 +1,8 @@
 
-import React, { useState } from "react";
+import React, { useMemo, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Check, AlertCircle, Info, FileText, Bug } from "lucide-react";
+import { Check, AlertCircle, Info, FileText, Bug, EyeOff, Eye } from "lucide-react";
 import { AssignmentFormData } from "./assignment/AssignmentFormTypes";
 import StudentGradeRow from "./grading/StudentGradeRow";
 import StudentPreviewDialog from "./grading/StudentPreviewDialog";
@@ -10,13 +10,26 @@ import GradingApiDebug from "./GradingApiDebug";
 import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
 import type { StudentGrade } from "@/hooks/use-grading-workflow";
+import type { CriterionScore } from "@/utils/rubricUtils";
+import {
+  createIdentityMask,
+  getBlindOrder,
+  getPseudonym,
+  getPseudonyms,
+  isBlindGradingActive,
+  type BlindGradingState
+} from "@/utils/blindGrading";
+import { isAwaitingSecondMark } from "@/utils/moderation";
+import { getCommentBankKey } from "@/utils/commentBank";
 
 interface GradingPreviewProps {
   files: File[];
   assignmentData: AssignmentFormData;
   grades: StudentGrade[];
-  onUpdateGrade: (index: number, grade: number, feedback: string) => void;
+  onUpdateGrade: (index: number, grade: number, feedback: string, criteriaScores?: CriterionScore[]) => void;
   onApproveAll: () => void;
+  blindGrading?: BlindGradingState | null;
+  onRevealIdentities?: () => void;
 }
 
 const GradingPreview: React.FC<GradingPreviewProps> = ({
@@ -25,6 +38,8 @@ const GradingPreview: React.FC<GradingPreviewProps> = ({
   grades,
   onUpdateGrade,
   onApproveAll,
+  blindGrading,
+  onRevealIdentities,
 }) => {
   const [selectedStudent, setSelectedStudent] = useState<number | null>(null);
   const [showDiagnostics, setShowDiagnostics] = useState(false);
@@ -39,6 +54,28 @@ const GradingPreview: React.FC<GradingPreviewProps> = ({
     setSelectedStudent(null);
   };
 
+  const isBlind = isBlindGradingActive(blindGrading);
+  
+  // While blind, rows are listed in the shuffled order under their pseudonyms
+  const { order, pseudonyms, rowMasks } = useMemo(() => {
+    if (!isBlind) {
+      return { order: grades.map((_, index) => index), pseudonyms: null, rowMasks: null };
+    }
+    return {
+      order: getBlindOrder(grades, blindGrading.seed),
+      pseudonyms: getPseudonyms(grades, blindGrading.seed),
+      rowMasks: grades.map(grade => createIdentityMask(grade))
+    };
+  }, [isBlind, grades, blindGrading?.seed]);
+  
+  // Classmates' names are hidden too in the open submission, which is read in full
+  const selectedMask = useMemo(
+    () => (isBlind && selectedStudent !== null && grades[selectedStudent]
+      ? createIdentityMask(grades[selectedStudent], grades)
+      : undefined),
+    [isBlind, selectedStudent, grades]
+  );
+
   const pendingReviews = grades.filter(grade => !grade.edited).length;
   const gradedCount = grades.filter(grade => grade.file && grade.grade > 0).length;
   const ungradedCount = grades.filter(grade => !grade.file || grade.grade === 0).length;
@@ -100,7 +137,36 @@ const GradingPreview: React.FC<GradingPreviewProps> = ({
           </Alert>
         )}
         
-        {hasInvalidStudentNames && (
+        {blindGrading && (
+          <Alert variant="default">
+            {isBlind ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+            <AlertTitle>{isBlind ? "Blind grading" : "Identities revealed"}</AlertTitle>
+            <AlertDescription>
+              {isBlind ? (
+                <>
+                  Students are shown as pseudonyms in a random order, and their names, emails and IDs are hidden in
+                  submissions and feedback where they can be detected. Names inside images and scanned documents can't be hidden.
+                  Identities are revealed once all grades are reviewed and finalized.
+                  <div className="mt-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={onRevealIdentities}
+                      disabled={pendingReviews > 0 || !onRevealIdentities}
+                    >
+                      <Eye className="h-4 w-4 mr-2" />
+                      Finalize Grades and Reveal Identities
+                    </Button>
+                  </div>
+                </>
+              ) : (
+                "All grades were finalized under pseudonyms. Later changes are made with student names shown."
+              )}
+            </AlertDescription>
+          </Alert>
+        )}
+        
+        {hasInvalidStudentNames && !isBlind && (
           <Alert variant="default">
             <Info className="h-4 w-4" />
             <AlertTitle>
@@ -122,7 +188,7 @@ const GradingPreview: React.FC<GradingPreviewProps> = ({
           </Alert>
         )}
         
-        {showNameDetails && (
+        {showNameDetails && !isBlind && (
           <div className="rounded-md bg-muted p-4 text-sm space-y-2">
             <h4 className="font-medium flex items-center gap-1">
               <FileText className="h-4 w-4" />
@@ -153,7 +219,7 @@ const GradingPreview: React.FC<GradingPreviewProps> = ({
           </div>
         )}
         
-        {showDiagnostics && (
+        {showDiagnostics && !isBlind && (
           <div className="rounded-md bg-muted p-4 text-sm space-y-2">
             <h4 className="font-medium">File Diagnostics:</h4>
             <div className="max-h-40 overflow-y-auto">
@@ -192,13 +258,16 @@ const GradingPreview: React.FC<GradingPreviewProps> = ({
           </div>
           
           <div className="divide-y max-h-[400px] overflow-y-auto">
-            {grades.map((student, index) => (
+            {order.map(index => (
               <StudentGradeRow 
                 key={index}
-                student={student}
+                student={grades[index]}
                 index={index}
                 maxPoints={assignmentData.gradingScale}
                 onReview={openStudentPreview}
+                pseudonym={pseudonyms ? getPseudonym(pseudonyms, grades[index]) : undefined}
+                mask={rowMasks?.[index]}
+                hideMark={isAwaitingSecondMark(grades[index])}
               />
             ))}
           </div>
@@ -211,6 +280,9 @@ const GradingPreview: React.FC<GradingPreviewProps> = ({
           studentIndex={selectedStudent}
           maxPoints={assignmentData.gradingScale}
           onUpdateGrade={onUpdateGrade}
+          pseudonym={pseudonyms && selectedStudent !== null ? getPseudonym(pseudonyms, grades[selectedStudent]) : undefined}
+          mask={selectedMask}
+          commentBankKey={getCommentBankKey(assignmentData)}
         />
         
         {/* API Debug Modal */}
@@ -3,7 +3,7 @@ import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import DemoAccountInfo from "./auth/DemoAccountInfo";
 import { Link } from "react-router-dom";
-import { HelpCircle, MessageSquare, ChevronLeft } from "lucide-react";
+import { HelpCircle, MessageSquare, ChevronLeft, History } from "lucide-react";
 import LogoComponent from "./LogoComponent";
 
 const Header: React.FC = () => {
@@ -30,6 +30,18 @@ const Header: React.FC = () => {
           </div>
           
           <div className="flex items-center space-x-4">
+            <Button 
+              variant="ghost" 
+              size="sm" 
+              className="hidden sm:flex items-center text-muted-foreground hover:text-foreground gap-1.5"
+              asChild
+            >
+              <Link to="/sessions">
+                <History className="h-4 w-4" />
+                <span>History</span>
+              </Link>
+            </Button>
+            
             <Button 
               variant="ghost" 
               size="sm" 
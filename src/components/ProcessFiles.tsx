@@ -1,10 +1,17 @@
 
-import React from "react";
+import React, { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
-import { Check, Download, File, FileText, FilesIcon } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Check, Download, File, FileArchive, FileText, FilesIcon } from "lucide-react";
 import { AssignmentFormData } from "./assignment/AssignmentFormTypes";
+import { findIdNumberColumn } from "@/utils/csv/columnDetection";
+import { loadXmlExportSettings, type MoodleXmlExportOptions } from "@/utils/moodleXmlExport";
+import { GRADEBOOK_FORMAT_LABELS, isSpreadsheetFormat, type GradebookFileFormat } from "@/utils/csv";
 
 interface ProcessFilesProps {
   files: File[];
@@ -12,7 +19,11 @@ interface ProcessFilesProps {
   moodleFormatHeaders?: string[];
   assignmentColumn?: string;
   feedbackColumn?: string;
+  gradebookFileFormat?: GradebookFileFormat;
+  lmsName?: string;
   onDownload: () => void;
+  onDownloadXml?: (options: MoodleXmlExportOptions) => void;
+  onDownloadFeedbackZip?: () => void;
   onReset: () => void;
 }
 
@@ -22,9 +33,37 @@ const ProcessFiles: React.FC<ProcessFilesProps> = ({
   moodleFormatHeaders,
   assignmentColumn,
   feedbackColumn,
+  gradebookFileFormat = 'csv',
+  lmsName = 'Moodle',
   onDownload,
+  onDownloadXml,
+  onDownloadFeedbackZip,
   onReset
 }) => {
+  const [exportFormat, setExportFormat] = useState<'csv' | 'xml'>('csv');
+  const [xmlOptions, setXmlOptions] = useState<MoodleXmlExportOptions>(() => {
+    const saved = loadXmlExportSettings(assignmentData.assignmentName);
+    const headers = moodleFormatHeaders || [];
+    const detectedColumn = headers[findIdNumberColumn(headers)];
+    return {
+      assignmentIdNumber: saved.assignmentIdNumber || '',
+      studentIdColumn: saved.studentIdColumn && headers.includes(saved.studentIdColumn)
+        ? saved.studentIdColumn
+        : detectedColumn || ''
+    };
+  });
+
+  const gradebookLabel = GRADEBOOK_FORMAT_LABELS[gradebookFileFormat];
+  const canDownloadXml = !!xmlOptions.assignmentIdNumber.trim() && !!xmlOptions.studentIdColumn;
+
+  const handleDownload = () => {
+    if (exportFormat === 'xml' && onDownloadXml) {
+      onDownloadXml(xmlOptions);
+    } else {
+      onDownload();
+    }
+  };
+
   const getFileIcon = (file: File) => {
     const fileExt = file.name.split('.').pop()?.toLowerCase();
     
@@ -121,22 +160,87 @@ const ProcessFiles: React.FC<ProcessFilesProps> = ({
           </div>
         </div>
 
+        {onDownloadXml && (
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Grade File Format</Label>
+            <Tabs value={exportFormat} onValueChange={(value) => setExportFormat(value as 'csv' | 'xml')} className="w-full">
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="csv" className="text-sm">Gradebook {gradebookLabel}</TabsTrigger>
+                <TabsTrigger value="xml" className="text-sm">Moodle XML</TabsTrigger>
+              </TabsList>
+              <TabsContent value="csv" className="mt-2 text-sm text-muted-foreground">
+                <p>
+                  The uploaded gradebook with the grade and feedback columns filled in.{' '}
+                  {isSpreadsheetFormat(gradebookFileFormat)
+                    ? `Moodle's gradebook import doesn't read ${gradebookLabel} files directly: copy the rows into "Paste from spreadsheet", or save the file as CSV.`
+                    : `Import it with "CSV file" in Moodle's gradebook import.`}
+                </p>
+              </TabsContent>
+              <TabsContent value="xml" className="mt-2 space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  Results keyed by ID numbers, imported with "XML file" in Moodle's gradebook import. There are no columns to map
+                  and multi-line feedback is kept as written. Students without a grade or an ID number are left out.
+                </p>
+                <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="assignmentIdNumber">Assignment ID number</Label>
+                    <Input
+                      id="assignmentIdNumber"
+                      value={xmlOptions.assignmentIdNumber}
+                      onChange={(e) => setXmlOptions(options => ({ ...options, assignmentIdNumber: e.target.value }))}
+                      placeholder="e.g. essay-1"
+                    />
+                    <p className="text-xs text-muted-foreground">Set under "Common module settings" in the assignment's settings.</p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Student ID number column</Label>
+                    <Select
+                      value={xmlOptions.studentIdColumn}
+                      onValueChange={(value) => setXmlOptions(options => ({ ...options, studentIdColumn: value }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a column" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(moodleFormatHeaders || []).filter(Boolean).map(header => (
+                          <SelectItem key={header} value={header}>{header}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">The users' "ID number" field, included in the gradebook export.</p>
+                  </div>
+                </div>
+              </TabsContent>
+            </Tabs>
+          </div>
+        )}
+
         <div className="rounded-md bg-muted/50 p-4">
           <h3 className="mb-2 flex items-center font-medium">
             <Check className="mr-2 h-4 w-4 text-green-500" />
-            Ready for Moodle
+            Ready for {lmsName}
           </h3>
           <p className="text-sm text-muted-foreground">
-            All student submissions have been graded and the feedback has been prepared in a Moodle-compatible format.
+            All student submissions have been graded and the feedback has been prepared in a {lmsName}-compatible format.
             {moodleFormatHeaders && (
               <>
                 <br/>
                 <span className="font-medium mt-2 block">Format Preservation</span>
-                The CSV file will use the exact same column structure as your uploaded gradebook.
+                The {gradebookLabel} file will use the exact same column structure as your uploaded gradebook.
                 <br/>
                 {assignmentColumn && <span>• Grades will be in the "{assignmentColumn}" column</span>}
                 <br/>
-                {feedbackColumn && <span>• Feedback will be in the "{feedbackColumn}" column</span>}
+                {feedbackColumn
+                  ? <span>• Feedback will be in the "{feedbackColumn}" column</span>
+                  : <span>• {lmsName} doesn't import feedback from grade files, so copy it from the review step</span>}
+              </>
+            )}
+            {onDownloadFeedbackZip && (
+              <>
+                <br/>
+                <span className="font-medium mt-2 block">Feedback Files</span>
+                The feedback ZIP contains one folder per student with a formatted feedback document. Upload it in Moodle
+                with "Upload multiple feedback files in a zip" on the assignment's grading page.
               </>
             )}
           </p>
@@ -144,13 +248,25 @@ const ProcessFiles: React.FC<ProcessFilesProps> = ({
 
         <div className="flex flex-col gap-3 sm:flex-row">
           <Button 
-            onClick={onDownload}
+            onClick={handleDownload}
+            disabled={exportFormat === 'xml' && !canDownloadXml}
             className="flex-1 space-x-2 transition-all duration-300 hover:shadow-md"
           >
             <Download className="h-4 w-4" />
-            <span>Download Moodle-Compatible CSV</span>
+            <span>{exportFormat === 'xml' ? 'Download Moodle XML' : `Download ${lmsName}-Compatible ${gradebookLabel}`}</span>
           </Button>
           
+          {onDownloadFeedbackZip && (
+            <Button 
+              variant="secondary"
+              onClick={onDownloadFeedbackZip}
+              className="flex-1 space-x-2 transition-all duration-300 hover:shadow-md"
+            >
+              <FileArchive className="h-4 w-4" />
+              <span>Download Feedback Files ZIP</span>
+            </Button>
+          )}
+          
           <Button 
             variant="outline" 
             onClick={onReset}
@@ -7,13 +7,18 @@ import { Label } from "@/components/ui/label";
 import type { AssignmentFormData } from "./AssignmentFormTypes";
 import BasicInfoFields from "./BasicInfoFields";
 import FileUploadField from "./FileUploadField";
+import MoodleRubricImport from "./MoodleRubricImport";
 import SliderField from "./SliderField";
 import GradingModeSelector from "./GradingModeSelector";
 import AcademicLevelSelector from "./AcademicLevelSelector";
 import GradingScaleField from "./GradingScaleField";
 import InstructorToneField from "./InstructorToneField";
 import AdditionalInstructionsField from "./AdditionalInstructionsField";
-import AssignmentProfileSelector from "../auth/AssignmentProfileSelector";
+import ModelProviderSelector from "./ModelProviderSelector";
+import RunBudgetField from "./RunBudgetField";
+import AssignmentProfileSelector, { type ProfileSource } from "../auth/AssignmentProfileSelector";
+import { diffAssignmentDetails } from "@/utils/profileVersions";
+import { isTrustedBaseUrl, trustBaseUrl } from "@/utils/llmProviders";
 import { Separator } from "@/components/ui/separator";
 
 interface AssignmentFormProps {
@@ -51,7 +56,10 @@ const AssignmentForm: React.FC<AssignmentFormProps> = ({ onSubmit }) => {
     feedbackFormality: 5,
     instructorTone: "",
     additionalInstructions: "",
-    skipEmptySubmissions: true // Default to skipping empty submissions
+    skipEmptySubmissions: true, // Default to skipping empty submissions
+    llmProvider: "openai",
+    llmModel: "gpt-4o-mini",
+    llmBaseUrl: ""
   });
   
   // Log form state on render
@@ -62,7 +70,21 @@ const AssignmentForm: React.FC<AssignmentFormProps> = ({ onSubmit }) => {
     assignmentNamePreview: formData.assignmentName?.substring(0, 20)
   });
 
-  const handleChange = (field: keyof AssignmentFormData, value: string | number) => {
+  // Details of the profile version last loaded, to tell whether the form was edited since
+  const [loadedProfileDetails, setLoadedProfileDetails] = useState<AssignmentFormData | null>(null);
+
+  const handleSelectProfile = (profileData: AssignmentFormData, source: ProfileSource) => {
+    setLoadedProfileDetails(profileData);
+    setFormData({
+      ...profileData,
+      assignmentProfileId: source.profileId,
+      assignmentProfileVersion: source.version,
+      assignmentProfileModified: false,
+      organizationId: source.organizationId
+    });
+  };
+
+  const handleChange = (field: keyof AssignmentFormData, value: string | number | boolean) => {
     setFormData(prev => ({ ...prev, [field]: value }));
   };
 
@@ -74,7 +96,17 @@ const AssignmentForm: React.FC<AssignmentFormProps> = ({ onSubmit }) => {
       // Don't submit if clicking inside profile selector
       return;
     }
-    onSubmit(formData);
+
+    // Server URLs can come from shared or imported profiles, so confirm each one once per device
+    const baseUrl = formData.llmProvider === "openai-compatible" ? formData.llmBaseUrl?.trim() : "";
+    if (baseUrl && !isTrustedBaseUrl(baseUrl)) {
+      if (!window.confirm(`Submissions will be sent from this browser to ${baseUrl}. Only continue if you trust this server.`)) return;
+      trustBaseUrl(baseUrl);
+    }
+
+    onSubmit(loadedProfileDetails
+      ? { ...formData, assignmentProfileModified: diffAssignmentDetails(loadedProfileDetails, formData).length > 0 }
+      : formData);
   };
 
   return (
@@ -86,7 +118,7 @@ const AssignmentForm: React.FC<AssignmentFormProps> = ({ onSubmit }) => {
         {/* Profile selector outside the form to prevent form submission issues */}
         <div className="mb-6">
           <AssignmentProfileSelector
-            onSelectProfile={(profileData) => setFormData(profileData)}
+            onSelectProfile={handleSelectProfile}
             currentAssignmentData={formData}
           />
           <Separator className="my-4" />
@@ -111,10 +143,16 @@ const AssignmentForm: React.FC<AssignmentFormProps> = ({ onSubmit }) => {
           <FileUploadField 
             id="rubric"
             label="Grading Rubric (Optional)"
-            tooltip="Paste your grading rubric or criteria, or upload a rubric file."
+            tooltip="Paste your grading rubric or criteria, upload a rubric file, or import a rubric or marking guide from Moodle."
             value={formData.rubric}
             onChange={(value) => handleChange("rubric", value)}
             placeholder="Enter or paste your grading rubric here..."
+            actions={
+              <MoodleRubricImport
+                hasRubric={!!formData.rubric?.trim()}
+                onImport={(rubric) => handleChange("rubric", rubric)}
+              />
+            }
           />
 
           <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
@@ -168,6 +206,18 @@ const AssignmentForm: React.FC<AssignmentFormProps> = ({ onSubmit }) => {
             />
           </div>
 
+          <ModelProviderSelector
+            provider={formData.llmProvider}
+            model={formData.llmModel}
+            baseUrl={formData.llmBaseUrl}
+            onChange={handleChange}
+          />
+
+          <RunBudgetField
+            value={formData.runBudget}
+            onChange={(value) => handleChange("runBudget", value)}
+          />
+
           <InstructorToneField 
             value={formData.instructorTone}
             onChange={(value) => handleChange("instructorTone", value)}
@@ -192,6 +242,36 @@ const AssignmentForm: React.FC<AssignmentFormProps> = ({ onSubmit }) => {
             When enabled, students with no submission will not receive a grade or feedback
           </div>
 
+          <div className="flex items-center space-x-2 pt-2">
+            <Switch 
+              id="blindGrading" 
+              checked={!!formData.blindGrading} 
+              onCheckedChange={(checked) => handleChange("blindGrading", checked)}
+            />
+            <Label htmlFor="blindGrading" className="text-sm font-medium cursor-pointer">
+              Blind grading
+            </Label>
+          </div>
+          <div className="text-xs text-muted-foreground ml-8 -mt-2">
+            Review students as pseudonyms in random order, with names hidden in submissions where they can be detected.
+            Identities are revealed once all grades are finalized.
+          </div>
+
+          <div className="flex items-center space-x-2 pt-2">
+            <Switch 
+              id="useCommentBank" 
+              checked={!!formData.useCommentBank} 
+              onCheckedChange={(checked) => handleChange("useCommentBank", checked)}
+            />
+            <Label htmlFor="useCommentBank" className="text-sm font-medium cursor-pointer">
+              Draw AI feedback from the comment bank
+            </Label>
+          </div>
+          <div className="text-xs text-muted-foreground ml-8 -mt-2">
+            The most used comments saved while reviewing this profile's feedback are added to the grading prompt,
+            so the AI reuses your standard phrasing.
+          </div>
+
           <Button 
             type="submit" 
             className="w-full transition-all duration-300 hover:shadow-md"
@@ -13,4 +13,14 @@ export interface AssignmentFormData {
   instructorTone: string;
   additionalInstructions: string;
   skipEmptySubmissions: boolean; // New field for skipping students with no submissions
+  blindGrading?: boolean; // Review students as pseudonyms in random order until grades are finalized
+  useCommentBank?: boolean; // Ask the AI to reuse the profile's comment bank phrasing in feedback
+  llmProvider?: string; // AI provider id (see LLM_PROVIDERS), defaults to OpenAI
+  llmModel?: string;    // Model or deployment name for the provider
+  llmBaseUrl?: string;  // Server URL for local OpenAI-compatible providers
+  runBudget?: number | null; // Optional spending cap per grading run in USD; grading stops once reached
+  assignmentProfileId?: string; // Saved profile these details were loaded from, recorded in the usage ledger
+  organizationId?: string; // Team the profile is shared with
+  assignmentProfileVersion?: number; // Profile version the details were loaded from
+  assignmentProfileModified?: boolean; // Details were edited after loading that version
 }
@@ -15,6 +15,7 @@ interface FileUploadFieldProps {
   onChange: (value: string) => void;
   placeholder: string;
   required?: boolean;
+  actions?: React.ReactNode; // Extra controls shown next to the upload button
 }
 
 const FileUploadField: React.FC<FileUploadFieldProps> = ({
@@ -24,7 +25,8 @@ const FileUploadField: React.FC<FileUploadFieldProps> = ({
   value,
   onChange,
   placeholder,
-  required = false
+  required = false,
+  actions
 }) => {
   const [file, setFile] = useState<File | null>(null);
   const [isLoading, setIsLoading] = useState(false);
@@ -85,7 +87,8 @@ const FileUploadField: React.FC<FileUploadFieldProps> = ({
           </TooltipProvider>
         </div>
         
-        <div className="flex items-center">
+        <div className="flex items-center gap-2">
+          {actions}
           <input
             type="file"
             id={`${id}File`}
@@ -0,0 +1,82 @@
+
+import React from "react";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LLM_PROVIDERS, DEFAULT_PROVIDER_SETTINGS, type LLMProviderId } from "@/utils/llmProviders";
+
+interface ModelProviderSelectorProps {
+  provider?: string;
+  model?: string;
+  baseUrl?: string;
+  onChange: (field: "llmProvider" | "llmModel" | "llmBaseUrl", value: string) => void;
+}
+
+const ModelProviderSelector: React.FC<ModelProviderSelectorProps> = ({ provider, model, baseUrl, onChange }) => {
+  const selectedProvider = (provider && LLM_PROVIDERS[provider as LLMProviderId] ? provider : DEFAULT_PROVIDER_SETTINGS.provider) as LLMProviderId;
+  const providerInfo = LLM_PROVIDERS[selectedProvider];
+
+  const handleProviderChange = (value: string) => {
+    onChange("llmProvider", value);
+    // Reset the model so the new provider's default is used
+    onChange("llmModel", LLM_PROVIDERS[value as LLMProviderId].defaultModel);
+  };
+
+  return (
+    <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+      <div className="space-y-2">
+        <Label htmlFor="llmProvider" className="text-sm font-medium">
+          AI Provider
+        </Label>
+        <Select value={selectedProvider} onValueChange={handleProviderChange}>
+          <SelectTrigger id="llmProvider" className="w-full">
+            <SelectValue placeholder="Select provider" />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(LLM_PROVIDERS).map(([id, info]) => (
+              <SelectItem key={id} value={id}>{info.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">{providerInfo.description}</p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="llmModel" className="text-sm font-medium">
+          Model
+        </Label>
+        <Input
+          id="llmModel"
+          list="llmModelSuggestions"
+          value={model || ""}
+          placeholder={providerInfo.defaultModel}
+          onChange={(e) => onChange("llmModel", e.target.value)}
+        />
+        <datalist id="llmModelSuggestions">
+          {providerInfo.suggestedModels.map(suggestion => (
+            <option key={suggestion} value={suggestion} />
+          ))}
+        </datalist>
+      </div>
+
+      {selectedProvider === "openai-compatible" && (
+        <div className="space-y-2 md:col-span-2">
+          <Label htmlFor="llmBaseUrl" className="text-sm font-medium">
+            Server URL
+          </Label>
+          <Input
+            id="llmBaseUrl"
+            value={baseUrl || ""}
+            placeholder="http://localhost:11434/v1"
+            onChange={(e) => onChange("llmBaseUrl", e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground">
+            Requests go directly from your browser to this server. Leave blank to use the server configured for your institution.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ModelProviderSelector;
@@ -0,0 +1,174 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { FileCode } from "lucide-react";
+import { getRubricTotal } from "@/utils/rubricUtils";
+import {
+  formatMoodleDefinitionAsRubric,
+  MoodleRubricImportError,
+  parseMoodleGradingXml,
+  type MoodleGradingDefinition
+} from "@/utils/moodleRubricImport";
+
+interface MoodleRubricImportProps {
+  hasRubric: boolean; // Whether importing replaces text already in the field
+  onImport: (rubric: string) => void;
+}
+
+const METHOD_LABELS: Record<MoodleGradingDefinition['method'], string> = {
+  rubric: 'Rubric',
+  guide: 'Marking guide'
+};
+
+/**
+ * Imports a rubric or marking guide from Moodle's advanced grading into the rubric field
+ */
+const MoodleRubricImport: React.FC<MoodleRubricImportProps> = ({ hasRubric, onImport }) => {
+  const [open, setOpen] = useState(false);
+  const [definitions, setDefinitions] = useState<MoodleGradingDefinition[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = definitions[selectedIndex];
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) {
+      setDefinitions([]);
+      setSelectedIndex(0);
+      setError(null);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setDefinitions(parseMoodleGradingXml(await file.text()));
+      setSelectedIndex(0);
+      setError(null);
+    } catch (error) {
+      console.error("Error reading Moodle grading definition:", error);
+      setDefinitions([]);
+      setError(error instanceof MoodleRubricImportError ? error.message : 'The file could not be read');
+    }
+  };
+
+  const handleImport = () => {
+    if (!selected) return;
+    onImport(formatMoodleDefinitionAsRubric(selected));
+    toast.success(`Imported ${selected.criteria.length} criteria from "${selected.name}"`);
+    handleOpenChange(false);
+  };
+
+  return (
+    <>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => setOpen(true)}
+        className="h-auto px-3 py-1 text-xs text-muted-foreground"
+      >
+        <FileCode className="h-3 w-3 mr-1" />
+        Import from Moodle
+      </Button>
+
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Import Moodle Rubric</DialogTitle>
+            <DialogDescription>
+              Upload the grading.xml of an assignment from a Moodle backup (in activities/assign_*/ of the
+              extracted .mbz file) or an exported rubric template. Rubrics and marking guides are supported.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="moodleRubricFile">Moodle grading definition (.xml)</Label>
+              <Input id="moodleRubricFile" type="file" accept=".xml,text/xml,application/xml" onChange={handleFileChange} />
+            </div>
+
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            {definitions.length > 1 && (
+              <div className="space-y-2">
+                <Label>Definition</Label>
+                <Select value={String(selectedIndex)} onValueChange={(value) => setSelectedIndex(Number(value))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {definitions.map((definition, index) => (
+                      <SelectItem key={index} value={String(index)}>
+                        {definition.name} ({METHOD_LABELS[definition.method]})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {selected && (
+              <div className="border rounded-md max-h-[300px] overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Criterion</TableHead>
+                      <TableHead className="text-right">Levels</TableHead>
+                      <TableHead className="text-right">Points</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {selected.criteria.map((criterion, index) => (
+                      <TableRow key={index}>
+                        <TableCell>{criterion.name}</TableCell>
+                        <TableCell className="text-right">{criterion.levels.length || '-'}</TableCell>
+                        <TableCell className="text-right">{criterion.maxPoints}</TableCell>
+                      </TableRow>
+                    ))}
+                    <TableRow>
+                      <TableCell className="font-medium">
+                        Total <Badge variant="secondary" className="ml-2">{METHOD_LABELS[selected.method]}</Badge>
+                      </TableCell>
+                      <TableCell />
+                      <TableCell className="text-right font-medium">{getRubricTotal(selected.criteria)}</TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            {selected && hasRubric && (
+              <p className="text-sm text-muted-foreground">This replaces the rubric currently in the form.</p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="button" onClick={handleImport} disabled={!selected}>
+              Use this rubric
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default MoodleRubricImport;
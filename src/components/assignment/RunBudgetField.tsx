@@ -0,0 +1,39 @@
+import React from "react";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+
+interface RunBudgetFieldProps {
+  value?: number | null;
+  onChange: (value: number | null) => void;
+}
+
+const RunBudgetField: React.FC<RunBudgetFieldProps> = ({ value, onChange }) => {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="runBudget" className="text-sm font-medium">
+        Budget per Grading Run (optional)
+      </Label>
+      <div className="flex items-center space-x-2">
+        <span className="text-sm text-muted-foreground">$</span>
+        <Input
+          id="runBudget"
+          type="number"
+          min={0}
+          step={0.01}
+          value={value ?? ""}
+          placeholder="No limit"
+          onChange={(e) => {
+            const parsed = parseFloat(e.target.value);
+            onChange(isNaN(parsed) || parsed <= 0 ? null : parsed);
+          }}
+          className="w-32 transition-all duration-200"
+        />
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Grading stops once the estimated cost of the run reaches this amount. Models without a known price (e.g. local servers) count as free.
+      </p>
+    </div>
+  );
+};
+
+export default RunBudgetField;
@@ -2,7 +2,10 @@ import React, { useState, useEffect } from 'react';
 import { 
   Select, 
   SelectContent, 
+  SelectGroup,
   SelectItem, 
+  SelectLabel,
+  SelectSeparator,
   SelectTrigger, 
   SelectValue 
 } from '@/components/ui/select';
@@ -12,6 +15,19 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { toast } from 'sonner';
 import { useDemoAuth } from '@/hooks/auth/use-demo-auth';
+import { useAssignmentProfiles } from '@/hooks/auth/use-assignment-profiles';
+import { useOrganizations } from '@/hooks/auth/use-organizations';
+import { PROFILE_EDITOR_ROLES } from '@/types/auth';
+import {
+  getLocalProfileVersions,
+  recordLocalProfileVersion,
+  deleteLocalProfileVersions,
+  stripProfileSource,
+  type ProfileVersion
+} from '@/utils/profileVersions';
+import type { ProfileImportItem, ProfileImportResult } from '@/utils/profileTransfer';
+import ProfileHistoryDialog from './ProfileHistoryDialog';
+import ProfileTransferDialog from './ProfileTransferDialog';
 
 // Simple localStorage-based profile management for demo mode
 function useLocalProfiles() {
@@ -51,8 +67,10 @@ function useLocalProfiles() {
         created_at: now,
         updated_at: now,
         assignment_details: data,
-        last_used: now
+        last_used: now,
+        current_version: 1
       };
+      recordLocalProfileVersion(newProfile.id, data);
       
       // Get existing profiles
       const existing = [...profiles];
@@ -82,6 +100,7 @@ function useLocalProfiles() {
     try {
       const filtered = profiles.filter(p => p.id !== id);
       localStorage.setItem('demo_profiles', JSON.stringify(filtered));
+      deleteLocalProfileVersions(id);
       setProfiles(filtered);
       return true;
     } catch (e) {
@@ -98,10 +117,15 @@ function useLocalProfiles() {
       const index = profiles.findIndex(p => p.id === id);
       if (index === -1) return false;
       
+      // Changed details become a new version; the previous details seed the history of older profiles
       const updated = [...profiles];
+      const version = updates.assignment_details
+        ? recordLocalProfileVersion(id, updates.assignment_details, updated[index].assignment_details).version
+        : updated[index].current_version;
       updated[index] = {
         ...updated[index],
         ...updates,
+        current_version: version,
         updated_at: new Date().toISOString()
       };
       
@@ -114,6 +138,56 @@ function useLocalProfiles() {
     }
   };
   
+  // Apply an import plan (see planProfileImport)
+  const importProfiles = async (items: ProfileImportItem[]): Promise<ProfileImportResult> => {
+    const result: ProfileImportResult = { created: 0, updated: 0, skipped: 0 };
+    if (!isLoggedIn) return result;
+    
+    try {
+      const now = new Date().toISOString();
+      const updated = [...profiles];
+      
+      items.forEach((item, index) => {
+        if (item.action === 'create') {
+          const id = `profile-${Date.now()}-${index}`;
+          updated.push({
+            id,
+            user_id: 'demo-user',
+            name: item.name,
+            created_at: now,
+            updated_at: now,
+            assignment_details: item.assignment_details,
+            last_used: null,
+            current_version: recordLocalProfileVersion(id, item.assignment_details).version
+          });
+          result.created++;
+        } else if (item.action === 'update') {
+          const profileIndex = updated.findIndex(p => p.id === item.existingId);
+          if (profileIndex === -1) {
+            result.skipped++;
+            return;
+          }
+          updated[profileIndex] = {
+            ...updated[profileIndex],
+            assignment_details: item.assignment_details,
+            current_version: recordLocalProfileVersion(item.existingId, item.assignment_details, updated[profileIndex].assignment_details).version,
+            updated_at: now
+          };
+          result.updated++;
+        } else {
+          result.skipped++;
+        }
+      });
+      
+      localStorage.setItem('demo_profiles', JSON.stringify(updated));
+      setProfiles(updated);
+    } catch (e) {
+      console.error("Error importing profiles:", e);
+      toast.error('Failed to import profiles');
+    }
+    return result;
+  };
+  
   // Update last used timestamp
   const updateLastUsed = async (id: string) => {
     if (!isLoggedIn) return;
@@ -141,12 +215,22 @@ function useLocalProfiles() {
     saveProfile,
     deleteProfile,
     updateProfile,
+    importProfiles,
     updateLastUsed
   };
 }
 
+/**
+ * Which saved profile (and version) the assignment details were loaded from
+ */
+export interface ProfileSource {
+  profileId: string;
+  version?: number;
+  organizationId?: string; // Set for profiles shared with a team
+}
+
 interface AssignmentProfileSelectorProps {
-  onSelectProfile: (profileData: any) => void;
+  onSelectProfile: (profileData: any, source: ProfileSource) => void;
   currentAssignmentData: any;
 }
 
@@ -155,19 +239,68 @@ const AssignmentProfileSelector: React.FC<AssignmentProfileSelectorProps> = ({
   currentAssignmentData,
 }) => {
   const { isLoggedIn } = useDemoAuth();
-  const { profiles, isLoading, saveProfile, updateProfile, updateLastUsed } = useLocalProfiles();
+  const { profiles, isLoading, saveProfile, updateProfile, importProfiles, updateLastUsed } = useLocalProfiles();
+  // Profiles shared with the user's teams live in Supabase
+  const {
+    sharedProfiles,
+    saveProfile: saveSharedProfile,
+    updateProfile: updateSharedProfile,
+    fetchProfileVersions,
+    restoreProfileVersion
+  } = useAssignmentProfiles();
+  const { organizations } = useOrganizations();
   const [saveDialogOpen, setSaveDialogOpen] = useState(false);
   const [profileName, setProfileName] = useState('');
+  const [saveTarget, setSaveTarget] = useState<string>('personal');
   const [selectedProfileId, setSelectedProfileId] = useState<string>('');
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [transferOpen, setTransferOpen] = useState(false);
+  const [versions, setVersions] = useState<ProfileVersion[]>([]);
+
+  const editableOrganizations = organizations.filter(organization => PROFILE_EDITOR_ROLES.includes(organization.role));
+  const sharedGroups = organizations
+    .map(organization => ({
+      organization,
+      profiles: sharedProfiles.filter(profile => profile.organization_id === organization.id)
+    }))
+    .filter(group => group.profiles.length > 0);
+  const selectedSharedProfile = sharedProfiles.find(p => p.id === selectedProfileId);
+  const canUpdateSelected = !!selectedProfileId && (!selectedSharedProfile
+    || editableOrganizations.some(organization => organization.id === selectedSharedProfile.organization_id));
+  const hasProfiles = profiles.length > 0 || sharedProfiles.length > 0;
+  const selectedProfileName = (profiles.find(p => p.id === selectedProfileId) || selectedSharedProfile)?.name || '';
+
+  const loadVersions = async (profileId: string): Promise<ProfileVersion[]> => {
+    const loaded = sharedProfiles.some(p => p.id === profileId)
+      ? await fetchProfileVersions(profileId)
+      : getLocalProfileVersions(profileId);
+    setVersions(loaded);
+    return loaded;
+  };
+
+  // Point the form at the version just saved, so a grading run records it
+  const selectSavedVersion = async (details: Record<string, unknown>, profileId: string, organizationId?: string) => {
+    const latest = (await loadVersions(profileId))[0];
+    onSelectProfile(details, { profileId, version: latest?.version, organizationId });
+  };
 
   const handleProfileSelect = (profileId: string) => {
     setSelectedProfileId(profileId);
     const profile = profiles.find(p => p.id === profileId);
+    const sharedProfile = sharedProfiles.find(p => p.id === profileId);
     
     if (profile) {
-      onSelectProfile(profile.assignment_details);
+      onSelectProfile(profile.assignment_details, { profileId: profile.id, version: profile.current_version || 1 });
       updateLastUsed(profileId);
       toast.success(`Loaded profile: ${profile.name}`);
+    } else if (sharedProfile) {
+      // Grading with a shared profile draws from the team's pooled quota
+      onSelectProfile(sharedProfile.assignment_details, {
+        profileId: sharedProfile.id,
+        version: sharedProfile.current_version,
+        organizationId: sharedProfile.organization_id
+      });
+      toast.success(`Loaded shared profile: ${sharedProfile.name}`);
     }
   };
 
@@ -182,14 +315,24 @@ const AssignmentProfileSelector: React.FC<AssignmentProfileSelectorProps> = ({
 
     // Make a safe copy of the assignment data without any functions or circular references
     try {
-      const safeAssignmentData = JSON.parse(JSON.stringify(currentAssignmentData));
+      const safeAssignmentData = stripProfileSource(JSON.parse(JSON.stringify(currentAssignmentData)));
+      const save = saveTarget === 'personal'
+        ? saveProfile(profileName, safeAssignmentData)
+        : saveSharedProfile(profileName, safeAssignmentData, saveTarget);
       
-      saveProfile(profileName, safeAssignmentData)
+      save
         .then(result => {
           if (result.success) {
             setSaveDialogOpen(false);
             setProfileName('');
             setSelectedProfileId(result.id || '');
+            if (result.id) {
+              onSelectProfile(safeAssignmentData, {
+                profileId: result.id,
+                version: 1,
+                organizationId: saveTarget === 'personal' ? undefined : saveTarget
+              });
+            }
           }
         });
     } catch (error) {
@@ -205,13 +348,24 @@ const AssignmentProfileSelector: React.FC<AssignmentProfileSelectorProps> = ({
     }
 
     try {
-      const safeData = JSON.parse(JSON.stringify(currentAssignmentData));
+      const safeData = stripProfileSource(JSON.parse(JSON.stringify(currentAssignmentData)));
+      
+      // The shared profile hook shows its own success message
+      if (selectedSharedProfile) {
+        updateSharedProfile(selectedProfileId, { assignment_details: safeData }).then(success => {
+          if (success) {
+            selectSavedVersion(safeData, selectedProfileId, selectedSharedProfile.organization_id);
+          }
+        });
+        return;
+      }
       
       updateProfile(selectedProfileId, { 
         assignment_details: safeData 
       }).then(success => {
         if (success) {
           toast.success('Profile updated successfully');
+          selectSavedVersion(safeData, selectedProfileId);
         }
       });
     } catch (error) {
@@ -220,6 +374,28 @@ const AssignmentProfileSelector: React.FC<AssignmentProfileSelectorProps> = ({
     }
   };
 
+  const handleOpenHistory = async () => {
+    if (!selectedProfileId) return;
+    await loadVersions(selectedProfileId);
+    setHistoryOpen(true);
+  };
+
+  const handleRestoreVersion = async (version: ProfileVersion) => {
+    if (!window.confirm(`Restore version ${version.version}? It will be saved as a new version and loaded into the form.`)) return;
+
+    const details = version.assignment_details;
+    const restored = selectedSharedProfile
+      ? await restoreProfileVersion(selectedProfileId, version)
+      : await updateProfile(selectedProfileId, { assignment_details: details });
+
+    if (restored) {
+      if (!selectedSharedProfile) {
+        toast.success(`Restored version ${version.version}`);
+      }
+      await selectSavedVersion(details, selectedProfileId, selectedSharedProfile?.organization_id);
+    }
+  };
+
   // If not logged in, show login prompt
   if (!isLoggedIn) {
     return (
@@ -250,34 +426,93 @@ const AssignmentProfileSelector: React.FC<AssignmentProfileSelectorProps> = ({
             variant="outline" 
             size="sm" 
             onClick={handleUpdateProfile}
-            disabled={!selectedProfileId}
+            disabled={!canUpdateSelected}
           >
             Update Current
           </Button>
+          <Button 
+            variant="outline" 
+            size="sm" 
+            onClick={handleOpenHistory}
+            disabled={!selectedProfileId}
+          >
+            History
+          </Button>
+          <Button 
+            variant="outline" 
+            size="sm" 
+            onClick={() => setTransferOpen(true)}
+          >
+            Import / Export
+          </Button>
         </div>
       </div>
       
       <Select 
         value={selectedProfileId} 
         onValueChange={handleProfileSelect}
-        disabled={isLoading || profiles.length === 0}
+        disabled={isLoading || !hasProfiles}
       >
         <SelectTrigger>
           <SelectValue placeholder={
             isLoading ? "Loading profiles..." : 
-            profiles.length === 0 ? "No saved profiles" : 
+            !hasProfiles ? "No saved profiles" : 
             "Select a profile"
           } />
         </SelectTrigger>
         <SelectContent>
-          {profiles.map(profile => (
-            <SelectItem key={profile.id} value={profile.id}>
-              {profile.name}
-            </SelectItem>
+          {profiles.length > 0 && (
+            <SelectGroup>
+              <SelectLabel>My profiles</SelectLabel>
+              {profiles.map(profile => (
+                <SelectItem key={profile.id} value={profile.id}>
+                  {profile.name}
+                </SelectItem>
+              ))}
+            </SelectGroup>
+          )}
+          {sharedGroups.map(({ organization, profiles: orgProfiles }, index) => (
+            <React.Fragment key={organization.id}>
+              {(profiles.length > 0 || index > 0) && <SelectSeparator />}
+              <SelectGroup>
+                <SelectLabel>Shared with {organization.name}</SelectLabel>
+                {orgProfiles.map(profile => (
+                  <SelectItem key={profile.id} value={profile.id}>
+                    {profile.name}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            </React.Fragment>
           ))}
         </SelectContent>
       </Select>
       
+      <ProfileHistoryDialog
+        open={historyOpen}
+        onOpenChange={setHistoryOpen}
+        profileName={selectedProfileName}
+        versions={versions}
+        canRestore={canUpdateSelected}
+        onRestore={handleRestoreVersion}
+      />
+      
+      <ProfileTransferDialog
+        open={transferOpen}
+        onOpenChange={setTransferOpen}
+        exportableProfiles={[
+          ...profiles,
+          ...sharedGroups.flatMap(({ organization, profiles: orgProfiles }) =>
+            orgProfiles.map(profile => ({
+              ...profile,
+              assignment_details: profile.assignment_details as Record<string, unknown>,
+              group: organization.name
+            }))
+          )
+        ]}
+        existingProfiles={profiles}
+        onImport={importProfiles}
+      />
+      
       {/* Save Profile Dialog */}
       <Dialog open={saveDialogOpen} onOpenChange={setSaveDialogOpen}>
         <DialogContent>
@@ -296,6 +531,24 @@ const AssignmentProfileSelector: React.FC<AssignmentProfileSelectorProps> = ({
               placeholder="Enter a descriptive name"
               className="mt-2"
             />
+            {editableOrganizations.length > 0 && (
+              <div className="mt-4">
+                <Label htmlFor="profileSaveTarget">Save to</Label>
+                <Select value={saveTarget} onValueChange={setSaveTarget}>
+                  <SelectTrigger id="profileSaveTarget" className="mt-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="personal">My profiles</SelectItem>
+                    {editableOrganizations.map(organization => (
+                      <SelectItem key={organization.id} value={organization.id}>
+                        Shared with {organization.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
           </div>
           <DialogFooter>
             <Button 
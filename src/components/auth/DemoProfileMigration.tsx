@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { toast } from 'sonner';
+import { useAuth } from '@/hooks/auth/use-auth';
+import { useAssignmentProfiles } from '@/hooks/auth/use-assignment-profiles';
+import { hasMigratedDemoProfiles, loadDemoProfiles, markDemoProfilesMigrated } from '@/utils/profileTransfer';
+
+/**
+ * Offers to copy profiles saved in demo mode on this device into a newly signed-up account
+ */
+const DemoProfileMigration: React.FC = () => {
+  const { authState } = useAuth();
+  const { migrateDemoProfiles } = useAssignmentProfiles();
+  const [isMigrating, setIsMigrating] = useState(false);
+  const [dismissed, setDismissed] = useState(false);
+
+  const userId = authState.user?.id;
+  const demoProfiles = React.useMemo(() => loadDemoProfiles(), []);
+
+  if (!userId || userId === 'demo-user-id' || dismissed || demoProfiles.length === 0 || hasMigratedDemoProfiles(userId)) {
+    return null;
+  }
+
+  const handleMigrate = async () => {
+    setIsMigrating(true);
+    try {
+      const result = await migrateDemoProfiles('rename');
+      if (result) {
+        toast.success(`Copied ${result.created + result.updated} demo ${result.created + result.updated === 1 ? 'profile' : 'profiles'} to your account`);
+        setDismissed(true);
+      }
+    } finally {
+      setIsMigrating(false);
+    }
+  };
+
+  const handleDismiss = () => {
+    markDemoProfilesMigrated(userId);
+    setDismissed(true);
+  };
+
+  return (
+    <Card className="border-primary/50">
+      <CardHeader>
+        <CardTitle>Bring Your Demo Profiles</CardTitle>
+        <CardDescription>
+          {demoProfiles.length} assignment {demoProfiles.length === 1 ? 'profile was' : 'profiles were'} saved in demo mode on this device.
+          Copy them to your account to use them anywhere. Profiles with a name you already use are added as copies.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ul className="text-sm text-muted-foreground list-disc pl-5">
+          {demoProfiles.slice(0, 5).map((profile, index) => (
+            <li key={index}>{profile.name}</li>
+          ))}
+          {demoProfiles.length > 5 && <li>and {demoProfiles.length - 5} more</li>}
+        </ul>
+      </CardContent>
+      <CardFooter className="gap-2">
+        <Button onClick={handleMigrate} disabled={isMigrating}>
+          {isMigrating ? 'Copying...' : 'Copy to my account'}
+        </Button>
+        <Button variant="ghost" onClick={handleDismiss} disabled={isMigrating}>
+          Dismiss
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+};
+
+export default DemoProfileMigration;
@@ -0,0 +1,220 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Users, UserMinus } from 'lucide-react';
+import { useAuth } from '@/hooks/auth/use-auth';
+import { useOrganizations } from '@/hooks/auth/use-organizations';
+import { ORGANIZATION_ROLE_LABELS, type OrganizationMember, type OrganizationMembership, type OrganizationRole } from '@/types/auth';
+
+const ROLE_OPTIONS = Object.entries(ORGANIZATION_ROLE_LABELS) as [OrganizationRole, string][];
+
+const OrganizationManager: React.FC = () => {
+  const { authState } = useAuth();
+  const { organizations, isLoading, createOrganization, getMembers, addMember, updateMemberRole, removeMember } = useOrganizations();
+  const [newTeamName, setNewTeamName] = useState('');
+  const [openTeamId, setOpenTeamId] = useState<string | null>(null);
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [newMemberEmail, setNewMemberEmail] = useState('');
+  const [newMemberRole, setNewMemberRole] = useState<OrganizationRole>('instructor');
+
+  const loadMembers = async (organizationId: string) => {
+    setMembers(await getMembers(organizationId));
+  };
+
+  const handleToggleTeam = (organization: OrganizationMembership) => {
+    if (openTeamId === organization.id) {
+      setOpenTeamId(null);
+      return;
+    }
+    setOpenTeamId(organization.id);
+    setMembers([]);
+    loadMembers(organization.id);
+  };
+
+  const handleCreateTeam = async () => {
+    if (!newTeamName.trim()) return;
+    const result = await createOrganization(newTeamName.trim());
+    if (result.success) {
+      setNewTeamName('');
+    }
+  };
+
+  const handleAddMember = async (organizationId: string) => {
+    if (!newMemberEmail.trim()) return;
+    if (await addMember(organizationId, newMemberEmail.trim(), newMemberRole)) {
+      setNewMemberEmail('');
+      loadMembers(organizationId);
+    }
+  };
+
+  const handleRoleChange = async (organizationId: string, userId: string, role: OrganizationRole) => {
+    if (await updateMemberRole(organizationId, userId, role)) {
+      loadMembers(organizationId);
+    }
+  };
+
+  const handleRemove = async (organizationId: string, member: OrganizationMember) => {
+    const isSelf = member.user_id === authState.user?.id;
+    if (!window.confirm(isSelf ? 'Leave this team?' : `Remove ${member.email} from the team?`)) return;
+
+    if (await removeMember(organizationId, member.user_id)) {
+      if (isSelf) {
+        setOpenTeamId(null);
+      } else {
+        loadMembers(organizationId);
+      }
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Teams</CardTitle>
+        <CardDescription>
+          Share assignment profiles with co-teachers and TAs. Grading with a shared profile uses the team's pooled grades.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading teams...</p>
+        ) : organizations.length === 0 ? (
+          <p className="text-sm text-muted-foreground">You're not in any teams yet.</p>
+        ) : (
+          organizations.map(organization => {
+            const isOwner = organization.role === 'owner';
+            const usagePercentage = organization.grades_limit > 0
+              ? Math.min(100, Math.round((organization.grades_used / organization.grades_limit) * 100))
+              : 0;
+
+            return (
+              <div key={organization.id} className="rounded-md border p-4 space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <Users className="h-4 w-4 text-muted-foreground" />
+                    <span className="font-medium">{organization.name}</span>
+                    <Badge variant="secondary">{ORGANIZATION_ROLE_LABELS[organization.role]}</Badge>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => handleToggleTeam(organization)}>
+                    {openTeamId === organization.id ? 'Hide members' : 'Members'}
+                  </Button>
+                </div>
+
+                <div className="space-y-1">
+                  <div className="flex justify-between text-xs text-muted-foreground">
+                    <span className="capitalize">
+                      Pooled grades ({organization.account_tier === 'none' ? 'no plan yet' : `${organization.account_tier} plan`})
+                    </span>
+                    <span>{organization.grades_used} of {organization.grades_limit} used</span>
+                  </div>
+                  <Progress value={usagePercentage} className="h-2" />
+                </div>
+
+                {openTeamId === organization.id && (
+                  <div className="space-y-3">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Member</TableHead>
+                          <TableHead>Role</TableHead>
+                          <TableHead className="w-[60px]" />
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {members.map(member => (
+                          <TableRow key={member.user_id}>
+                            <TableCell>{member.email}</TableCell>
+                            <TableCell>
+                              {isOwner ? (
+                                <Select
+                                  value={member.role}
+                                  onValueChange={(role) => handleRoleChange(organization.id, member.user_id, role as OrganizationRole)}
+                                >
+                                  <SelectTrigger className="h-8 w-[180px]">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {ROLE_OPTIONS.map(([role, label]) => (
+                                      <SelectItem key={role} value={role}>{label}</SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              ) : (
+                                ORGANIZATION_ROLE_LABELS[member.role]
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              {(isOwner || member.user_id === authState.user?.id) && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  title={member.user_id === authState.user?.id ? 'Leave team' : 'Remove member'}
+                                  onClick={() => handleRemove(organization.id, member)}
+                                >
+                                  <UserMinus className="h-4 w-4" />
+                                </Button>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+
+                    {isOwner && (
+                      <div className="flex flex-wrap items-end gap-2">
+                        <div className="flex-1 min-w-[200px] space-y-1">
+                          <Label htmlFor={`member-email-${organization.id}`} className="text-xs">Add a member by email</Label>
+                          <Input
+                            id={`member-email-${organization.id}`}
+                            type="email"
+                            value={newMemberEmail}
+                            onChange={e => setNewMemberEmail(e.target.value)}
+                            placeholder="colleague@university.edu"
+                          />
+                        </div>
+                        <Select value={newMemberRole} onValueChange={(role) => setNewMemberRole(role as OrganizationRole)}>
+                          <SelectTrigger className="w-[180px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {ROLE_OPTIONS.map(([role, label]) => (
+                              <SelectItem key={role} value={role}>{label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button onClick={() => handleAddMember(organization.id)} disabled={!newMemberEmail.trim()}>
+                          Add
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+
+        <div className="flex gap-2">
+          <Input
+            value={newTeamName}
+            onChange={e => setNewTeamName(e.target.value)}
+            placeholder="New team name, e.g. Biology Department"
+          />
+          <Button variant="outline" onClick={handleCreateTeam} disabled={!newTeamName.trim()}>
+            Create team
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Owners manage members, instructors can create and edit shared profiles, and teaching assistants can grade with them.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OrganizationManager;
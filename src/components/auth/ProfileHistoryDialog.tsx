@@ -0,0 +1,165 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { History, RotateCcw } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { diffAssignmentDetails, type ProfileVersion } from '@/utils/profileVersions';
+
+interface ProfileHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  profileName: string;
+  versions: ProfileVersion[]; // Newest first
+  canRestore: boolean;
+  onRestore: (version: ProfileVersion) => void;
+}
+
+const ProfileHistoryDialog: React.FC<ProfileHistoryDialogProps> = ({
+  open,
+  onOpenChange,
+  profileName,
+  versions,
+  canRestore,
+  onRestore
+}) => {
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [compareVersion, setCompareVersion] = useState<number | null>(null);
+
+  const latestVersion = versions[0]?.version ?? null;
+
+  // Start on the latest version compared with the one before it
+  useEffect(() => {
+    if (open) {
+      setSelectedVersion(versions[0]?.version ?? null);
+      setCompareVersion(versions[1]?.version ?? null);
+    }
+  }, [open, versions]);
+
+  const selected = versions.find(v => v.version === selectedVersion);
+  const compared = versions.find(v => v.version === compareVersion);
+
+  const changes = useMemo(
+    () => selected ? diffAssignmentDetails(compared?.assignment_details, selected.assignment_details) : [],
+    [selected, compared]
+  );
+
+  const handleSelect = (version: ProfileVersion) => {
+    setSelectedVersion(version.version);
+    setCompareVersion(versions.find(v => v.version < version.version)?.version ?? null);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Version History
+          </DialogTitle>
+          <DialogDescription>
+            Every save of "{profileName}" is kept. Restoring an old version saves it as a new version.
+          </DialogDescription>
+        </DialogHeader>
+
+        {versions.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">No saved versions yet.</p>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-[200px_1fr]">
+            <div className="space-y-1 max-h-[60vh] overflow-y-auto">
+              {versions.map(version => (
+                <button
+                  key={version.id}
+                  type="button"
+                  onClick={() => handleSelect(version)}
+                  className={cn(
+                    "w-full rounded-md border px-3 py-2 text-left text-sm transition-colors hover:bg-muted",
+                    version.version === selectedVersion && "border-primary bg-muted"
+                  )}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">Version {version.version}</span>
+                    {version.version === latestVersion && <Badge variant="secondary">Current</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">{new Date(version.created_at).toLocaleString()}</p>
+                </button>
+              ))}
+            </div>
+
+            {selected && (
+              <div className="space-y-4 min-w-0">
+                <div className="flex flex-wrap items-end justify-between gap-2">
+                  <div className="space-y-1">
+                    <Label className="text-xs">Compare version {selected.version} with</Label>
+                    <Select
+                      value={compareVersion !== null ? String(compareVersion) : 'none'}
+                      onValueChange={(value) => setCompareVersion(value === 'none' ? null : Number(value))}
+                    >
+                      <SelectTrigger className="w-[200px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Nothing (show all settings)</SelectItem>
+                        {versions.filter(v => v.version !== selected.version).map(v => (
+                          <SelectItem key={v.id} value={String(v.version)}>Version {v.version}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onRestore(selected)}
+                    disabled={!canRestore || selected.version === latestVersion}
+                    className="gap-1.5"
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                    Restore version {selected.version}
+                  </Button>
+                </div>
+
+                <div className="space-y-3 max-h-[50vh] overflow-y-auto pr-1">
+                  {changes.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No differences between these versions.</p>
+                  ) : (
+                    changes.map(change => (
+                      <div key={change.field} className="rounded-md border p-3 space-y-2">
+                        <p className="text-sm font-medium">{change.label}</p>
+                        {change.lines ? (
+                          <pre className="text-xs whitespace-pre-wrap break-words font-mono">
+                            {change.lines.map((line, index) => (
+                              <div
+                                key={index}
+                                className={cn(
+                                  "px-2",
+                                  line.type === 'added' && "bg-green-50 text-green-800 dark:bg-green-950 dark:text-green-300",
+                                  line.type === 'removed' && "bg-red-50 text-red-800 dark:bg-red-950 dark:text-red-300",
+                                  line.type === 'unchanged' && "text-muted-foreground"
+                                )}
+                              >
+                                {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text}
+                              </div>
+                            ))}
+                          </pre>
+                        ) : (
+                          <p className="text-sm">
+                            {change.before && <span className="text-red-700 line-through mr-2">{change.before}</span>}
+                            <span className="text-green-700">{change.after || '(empty)'}</span>
+                          </p>
+                        )}
+                      </div>
+                    ))
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ProfileHistoryDialog;
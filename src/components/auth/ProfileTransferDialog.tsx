@@ -0,0 +1,217 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from 'sonner';
+import { Download, Upload } from 'lucide-react';
+import {
+  downloadProfileExport,
+  parseProfileFile,
+  planProfileImport,
+  ProfileImportError,
+  type ConflictStrategy,
+  type ExistingProfile,
+  type ProfileImportItem,
+  type ProfileImportResult,
+  type TransferableProfile
+} from '@/utils/profileTransfer';
+
+type ExportableProfile = TransferableProfile & { id: string; group?: string };
+
+interface ProfileTransferDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  exportableProfiles: ExportableProfile[];
+  existingProfiles: ExistingProfile[]; // Profiles an import may conflict with
+  onImport: (items: ProfileImportItem[]) => Promise<ProfileImportResult>;
+}
+
+const ACTION_LABELS: Record<ProfileImportItem['action'], string> = {
+  create: 'New',
+  update: 'Overwrite',
+  skip: 'Skip (name taken)',
+  unchanged: 'Already exists'
+};
+
+const ProfileTransferDialog: React.FC<ProfileTransferDialogProps> = ({
+  open,
+  onOpenChange,
+  exportableProfiles,
+  existingProfiles,
+  onImport
+}) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [importedProfiles, setImportedProfiles] = useState<TransferableProfile[]>([]);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [strategy, setStrategy] = useState<ConflictStrategy>('rename');
+  const [isImporting, setIsImporting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setSelectedIds(exportableProfiles.map(profile => profile.id));
+      setImportedProfiles([]);
+      setImportError(null);
+    }
+    // Only reset when the dialog opens
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  const plan = useMemo(
+    () => planProfileImport(importedProfiles, existingProfiles, strategy),
+    [importedProfiles, existingProfiles, strategy]
+  );
+  const applicableCount = plan.filter(item => item.action === 'create' || item.action === 'update').length;
+
+  const handleExport = () => {
+    const profiles = exportableProfiles.filter(profile => selectedIds.includes(profile.id));
+    if (profiles.length === 0) {
+      toast.error('Select at least one profile to export');
+      return;
+    }
+    downloadProfileExport(profiles);
+    toast.success(`Exported ${profiles.length} ${profiles.length === 1 ? 'profile' : 'profiles'}`);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setImportedProfiles(parseProfileFile(await file.text()));
+      setImportError(null);
+    } catch (error) {
+      console.error("Error reading profile file:", error);
+      setImportedProfiles([]);
+      setImportError(error instanceof ProfileImportError ? error.message : 'The file could not be read');
+    }
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      const result = await onImport(plan);
+      toast.success(`Imported profiles: ${result.created} new, ${result.updated} overwritten, ${result.skipped} skipped`);
+      onOpenChange(false);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import / Export Profiles</DialogTitle>
+          <DialogDescription>
+            Move assignment profiles between accounts or keep them in version control as JSON files.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="export">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="export">Export</TabsTrigger>
+            <TabsTrigger value="import">Import</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="export" className="space-y-4">
+            {exportableProfiles.length === 0 ? (
+              <p className="py-4 text-sm text-muted-foreground">No saved profiles to export.</p>
+            ) : (
+              <div className="border rounded-md max-h-[300px] overflow-y-auto divide-y">
+                {exportableProfiles.map(profile => (
+                  <label key={profile.id} className="flex items-center gap-3 px-3 py-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={selectedIds.includes(profile.id)}
+                      onCheckedChange={(checked) => setSelectedIds(ids =>
+                        checked === true ? [...ids, profile.id] : ids.filter(id => id !== profile.id)
+                      )}
+                    />
+                    <span className="flex-1">{profile.name}</span>
+                    {profile.group && <span className="text-xs text-muted-foreground">{profile.group}</span>}
+                  </label>
+                ))}
+              </div>
+            )}
+            <Button onClick={handleExport} disabled={selectedIds.length === 0} className="gap-1.5">
+              <Download className="h-4 w-4" />
+              Download {selectedIds.length} {selectedIds.length === 1 ? 'profile' : 'profiles'}
+            </Button>
+          </TabsContent>
+
+          <TabsContent value="import" className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="profileImportFile">Profile file (.json)</Label>
+              <Input id="profileImportFile" type="file" accept=".json,application/json" onChange={handleFileChange} />
+            </div>
+
+            {importError && (
+              <Alert variant="destructive">
+                <AlertDescription>{importError}</AlertDescription>
+              </Alert>
+            )}
+
+            {plan.length > 0 && (
+              <>
+                <div className="space-y-2">
+                  <Label>When a profile with the same name exists</Label>
+                  <Select value={strategy} onValueChange={(value) => setStrategy(value as ConflictStrategy)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="rename">Import as a copy with a new name</SelectItem>
+                      <SelectItem value="overwrite">Overwrite the existing profile (keeps its history)</SelectItem>
+                      <SelectItem value="skip">Skip it</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="border rounded-md max-h-[240px] overflow-y-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Profile</TableHead>
+                        <TableHead className="text-right">Result</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {plan.map((item, index) => (
+                        <TableRow key={index}>
+                          <TableCell>
+                            {item.name}
+                            {item.name !== item.originalName && (
+                              <span className="text-xs text-muted-foreground"> (was "{item.originalName}")</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Badge variant={item.action === 'create' || item.action === 'update' ? 'default' : 'secondary'}>
+                              {ACTION_LABELS[item.action]}
+                            </Badge>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+
+                <Button onClick={handleImport} disabled={applicableCount === 0 || isImporting} className="gap-1.5">
+                  <Upload className="h-4 w-4" />
+                  {isImporting ? 'Importing...' : `Import ${applicableCount} ${applicableCount === 1 ? 'profile' : 'profiles'}`}
+                </Button>
+              </>
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ProfileTransferDialog;
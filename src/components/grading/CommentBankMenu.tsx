@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { MessageSquareQuote, Trash2 } from "lucide-react";
+import {
+  loadCommentBank,
+  recordSnippetUse,
+  removeCommentSnippet,
+  type CommentSnippet
+} from "@/utils/commentBank";
+
+interface CommentBankMenuProps {
+  bankKey: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onInsert: (text: string) => void;
+  refreshKey?: number; // Changes when a snippet is added elsewhere
+}
+
+/**
+ * Searchable menu of saved feedback comments, inserted at the cursor
+ */
+const CommentBankMenu: React.FC<CommentBankMenuProps> = ({ bankKey, open, onOpenChange, onInsert, refreshKey }) => {
+  const [snippets, setSnippets] = useState<CommentSnippet[]>(() => loadCommentBank(bankKey));
+
+  useEffect(() => {
+    setSnippets(loadCommentBank(bankKey));
+  }, [bankKey, refreshKey, open]);
+
+  const handleSelect = (snippet: CommentSnippet) => {
+    setSnippets(recordSnippetUse(bankKey, snippet.id));
+    onInsert(snippet.text);
+  };
+
+  const handleRemove = (event: React.MouseEvent, snippet: CommentSnippet) => {
+    event.preventDefault();
+    event.stopPropagation();
+    setSnippets(removeCommentSnippet(bankKey, snippet.id));
+  };
+
+  return (
+    <Popover open={open} onOpenChange={onOpenChange}>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" size="sm" className="h-7 gap-1 text-xs">
+          <MessageSquareQuote className="h-3.5 w-3.5" />
+          Comment bank ({snippets.length})
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[420px] p-0" align="end" onCloseAutoFocus={event => event.preventDefault()}>
+        <Command>
+          <CommandInput placeholder="Search comments..." />
+          <CommandList>
+            <CommandEmpty>
+              {snippets.length === 0
+                ? "No comments saved yet. Select text in the feedback and save it to the bank."
+                : "No comment found."}
+            </CommandEmpty>
+            <CommandGroup>
+              {snippets.map(snippet => (
+                <CommandItem
+                  key={snippet.id}
+                  value={`${snippet.text} ${snippet.id}`}
+                  onSelect={() => handleSelect(snippet)}
+                  className="items-start gap-2"
+                >
+                  <p className="flex-1 line-clamp-3 text-sm">{snippet.text}</p>
+                  <span className="shrink-0 text-xs text-muted-foreground" title="Times used">
+                    {snippet.usageCount}×
+                  </span>
+                  <button
+                    type="button"
+                    onClick={event => handleRemove(event, snippet)}
+                    className="shrink-0 text-muted-foreground hover:text-destructive"
+                    aria-label="Remove comment"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </button>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default CommentBankMenu;
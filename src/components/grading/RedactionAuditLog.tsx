@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from 'sonner';
+import { Download, ShieldCheck, Trash2 } from 'lucide-react';
+import { getRedactionAuditLog, clearRedactionAuditLog, type RedactionAuditEntry } from '@/utils/piiRedaction';
+
+const RECENT_ENTRIES = 10;
+
+const totalRedactions = (entry: RedactionAuditEntry) =>
+  entry.redactions.reduce((sum, redaction) => sum + redaction.count, 0);
+
+/**
+ * Audit log of the identifiers replaced in submissions before grading requests
+ */
+const RedactionAuditLog: React.FC = () => {
+  const [entries, setEntries] = useState<RedactionAuditEntry[]>(getRedactionAuditLog);
+
+  const handleDownload = () => {
+    const blob = new Blob([JSON.stringify(entries, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+
+    link.href = url;
+    link.setAttribute('download', `redaction_audit_${new Date().toISOString().slice(0, 10)}.json`);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleClear = () => {
+    clearRedactionAuditLog();
+    setEntries([]);
+    toast.success('Redaction audit log cleared');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5 text-primary" />
+          Privacy
+        </CardTitle>
+        <CardDescription>
+          Student names, emails, IDs and classmates' names from the gradebook are replaced with placeholders
+          before a submission is sent for grading, and put back in the feedback. Image content is sent as it is.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No submissions have been graded on this device yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Student</TableHead>
+                <TableHead>Redacted</TableHead>
+                <TableHead className="text-right">Count</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.slice(-RECENT_ENTRIES).reverse().map((entry, index) => (
+                <TableRow key={`${entry.timestamp}-${index}`}>
+                  <TableCell className="whitespace-nowrap text-xs">{new Date(entry.timestamp).toLocaleString()}</TableCell>
+                  <TableCell className="text-xs">{entry.student}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground">
+                    {entry.redactions.length > 0
+                      ? entry.redactions.map(redaction => redaction.placeholder).join(', ')
+                      : 'Nothing found'}
+                    {entry.imageSubmission && ' (image)'}
+                  </TableCell>
+                  <TableCell className="text-right text-xs">{totalRedactions(entry)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+      {entries.length > 0 && (
+        <CardFooter className="gap-2">
+          <Button variant="outline" onClick={handleDownload}>
+            <Download className="mr-2 h-4 w-4" />
+            Download audit log ({entries.length})
+          </Button>
+          <Button variant="ghost" onClick={handleClear}>
+            <Trash2 className="mr-2 h-4 w-4" />
+            Clear
+          </Button>
+        </CardFooter>
+      )}
+    </Card>
+  );
+};
+
+export default RedactionAuditLog;
@@ -3,20 +3,29 @@ import React from "react";
 import { Button } from "@/components/ui/button";
 import { Check, Eye } from "lucide-react";
 import type { StudentGrade } from "@/hooks/use-grading-workflow";
+import type { IdentityMask } from "@/utils/blindGrading";
 
 interface StudentGradeRowProps {
   student: StudentGrade;
   index: number;
   maxPoints: number;
   onReview: (index: number) => void;
+  pseudonym?: string;   // Shown instead of the name and email while grading is blind
+  mask?: IdentityMask;  // Hides the student's identifiers in the feedback preview
+  hideMark?: boolean;   // Sampled for second marking, so the first mark stays hidden
 }
 
 const StudentGradeRow: React.FC<StudentGradeRowProps> = ({ 
   student, 
   index, 
   maxPoints,
-  onReview 
+  onReview,
+  pseudonym,
+  mask,
+  hideMark
 }) => {
+  const feedback = mask ? mask.hide(student.feedback) : student.feedback;
+
   return (
     <div 
       className={`grid grid-cols-12 gap-4 px-4 py-3 text-sm hover:bg-muted/50 ${
@@ -24,26 +33,40 @@ const StudentGradeRow: React.FC<StudentGradeRowProps> = ({
       }`}
     >
       <div className="col-span-3 flex flex-col">
-        <span className="font-medium">{student.fullName}</span>
-        <span className="text-xs text-muted-foreground">{student.email}</span>
+        {pseudonym ? (
+          <span className="font-medium">{pseudonym}</span>
+        ) : (
+          <>
+            <span className="font-medium">{student.fullName}</span>
+            <span className="text-xs text-muted-foreground">{student.email}</span>
+          </>
+        )}
       </div>
       <div className="col-span-2 font-medium">
-        {student.status === "No Submission" || student.grade === null ? (
+        {hideMark ? (
+          <span className="text-muted-foreground">Second marking</span>
+        ) : student.suggestions && student.grade === null ? (
+          <span className="text-amber-600 dark:text-amber-400">
+            Suggested {student.suggestions.suggestedGradeRange.min}–{student.suggestions.suggestedGradeRange.max}
+          </span>
+        ) : student.status === "No Submission" || student.grade === null ? (
           <span className="text-slate-400">No Grade</span>
         ) : (
           <span>{student.grade}/{maxPoints}</span>
         )}
       </div>
       <div className="col-span-5">
-        {student.status === "No Submission" ? (
+        {hideMark ? (
+          <p className="text-muted-foreground italic">Hidden until the second mark is recorded</p>
+        ) : student.status === "No Submission" ? (
           <p className="text-slate-400 italic">No submission</p>
         ) : student.status === "Empty Submission" ? (
           <p className="text-amber-600 dark:text-amber-400 font-medium">
-            Empty submission: {student.feedback}
+            Empty submission: {feedback}
           </p>
         ) : (
           <p className="line-clamp-2 text-muted-foreground">
-            {student.feedback}
+            {feedback}
           </p>
         )}
       </div>
@@ -53,6 +76,7 @@ const StudentGradeRow: React.FC<StudentGradeRowProps> = ({
             variant="ghost" 
             size="sm" 
             onClick={() => onReview(index)}
+            disabled={hideMark}
             className="text-green-600 dark:text-green-500"
           >
             <Check className="h-4 w-4 mr-1" />
@@ -1,17 +1,22 @@
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo, useRef } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent } from "@/components/ui/card";
-import { FileText } from "lucide-react";
+import { BookmarkPlus, EyeOff, FileText, Lightbulb } from "lucide-react";
+import { toast } from "sonner";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { extractTextFromFile, extractTextFromHTML } from "@/utils/fileUtils";
 import { extractHTMLFromDOCX } from "@/utils/docxUtils";
 import { isImageFile } from "@/utils/imageUtils";
 import type { StudentGrade } from "@/hooks/use-grading-workflow";
+import { calculateCriteriaTotal, type CriterionScore } from "@/utils/rubricUtils";
+import type { IdentityMask } from "@/utils/blindGrading";
+import { addCommentSnippet } from "@/utils/commentBank";
+import CommentBankMenu from "./CommentBankMenu";
 
 interface StudentPreviewDialogProps {
   open: boolean;
@@ -19,7 +24,12 @@ interface StudentPreviewDialogProps {
   student: StudentGrade | null;
   studentIndex: number | null;
   maxPoints: number;
-  onUpdateGrade: (index: number, grade: number, feedback: string) => void;
+  onUpdateGrade: (index: number, grade: number, feedback: string, criteriaScores?: CriterionScore[]) => void;
+  pseudonym?: string;   // Blind grading: shown instead of the student's name
+  mask?: IdentityMask;  // Blind grading: hides identifiers in the submission and feedback
+  submitLabel?: string;
+  requireGrade?: boolean; // A grade must be entered before submitting
+  commentBankKey?: string; // Comment bank offered while editing the feedback
 }
 
 const StudentPreviewDialog: React.FC<StudentPreviewDialogProps> = ({
@@ -28,16 +38,27 @@ const StudentPreviewDialog: React.FC<StudentPreviewDialogProps> = ({
   student,
   studentIndex,
   maxPoints,
-  onUpdateGrade
+  onUpdateGrade,
+  pseudonym,
+  mask,
+  submitLabel = "Approve",
+  requireGrade = false,
+  commentBankKey
 }) => {
-  const [grade, setGrade] = useState<number>(0);
+  const [grade, setGrade] = useState<number | null>(0);
   const [feedback, setFeedback] = useState<string>("");
+  const [criteriaScores, setCriteriaScores] = useState<CriterionScore[]>([]);
   const [submissionContent, setSubmissionContent] = useState<string>("");
   const [isLoadingContent, setIsLoadingContent] = useState(false);
   const [isLoadingImageText, setIsLoadingImageText] = useState(false);
   const [activeTab, setActiveTab] = useState("feedback");
   const [isHtmlContent, setIsHtmlContent] = useState(false);
   const [imageObjectUrl, setImageObjectUrl] = useState<string | null>(null);
+  const feedbackRef = useRef<HTMLTextAreaElement>(null);
+  const [commentBankOpen, setCommentBankOpen] = useState(false);
+  const [commentBankVersion, setCommentBankVersion] = useState(0);
+  const [slashPosition, setSlashPosition] = useState<number | null>(null); // Where "/" opened the comment bank
+  const [hasFeedbackSelection, setHasFeedbackSelection] = useState(false);
 
   // Track if text extraction has been started for this student
   const [extractionStarted, setExtractionStarted] = useState(false);
@@ -45,9 +66,13 @@ const StudentPreviewDialog: React.FC<StudentPreviewDialogProps> = ({
   useEffect(() => {
     // Reset extraction state when student changes
     setExtractionStarted(false);
+    setHasFeedbackSelection(false);
     
     if (student) {
       setGrade(student.grade);
+      setCriteriaScores(student.criteriaScores
+        ? student.criteriaScores.map(c => ({ ...c, justification: mask ? mask.hide(c.justification) : c.justification }))
+        : []);
       
       // Clean up previous image URL if it exists
       if (imageObjectUrl) {
@@ -56,7 +81,8 @@ const StudentPreviewDialog: React.FC<StudentPreviewDialogProps> = ({
       }
       
       // Remove any "/30" prefix from feedback (issue #3)
-      setFeedback(student.feedback.replace(/^\/\d+\s*/, ''));
+      const cleanFeedback = student.feedback.replace(/^\/\d+\s*/, '');
+      setFeedback(mask ? mask.hide(cleanFeedback) : cleanFeedback);
       
       if (student.status === "No Submission") {
         // Handle special case for students marked as having no submission
@@ -186,10 +212,104 @@ const StudentPreviewDialog: React.FC<StudentPreviewDialogProps> = ({
     }
   };
 
+  /**
+   * Update a single criterion and recompute the overall grade from the breakdown
+   */
+  const handleCriterionChange = (index: number, changes: Partial<CriterionScore>) => {
+    const updated = criteriaScores.map((criterion, i) => {
+      if (i !== index) return criterion;
+      const next = { ...criterion, ...changes };
+      next.score = Math.min(Math.max(0, Number(next.score) || 0), next.maxPoints);
+      return next;
+    });
+    
+    setCriteriaScores(updated);
+    setGrade(calculateCriteriaTotal(updated, maxPoints));
+  };
+
+  // Content and file names shown in the dialog, with identifiers hidden while grading is blind
+  const shownContent = useMemo(
+    () => (mask ? mask.hide(submissionContent) : submissionContent),
+    [mask, submissionContent]
+  );
+  const fileLabel = student?.file
+    ? (mask ? `Submission file (.${student.file.name.split('.').pop()})` : student.file.name)
+    : '';
+  const studentLabel = pseudonym || student?.fullName;
+  const hideIds = (text: string) => (mask ? mask.hide(text) : text);
+
+  /**
+   * Insert text into the feedback at the cursor, or where "/" was typed
+   */
+  const insertIntoFeedback = (text: string) => {
+    const textarea = feedbackRef.current;
+    const start = slashPosition ?? textarea?.selectionStart ?? feedback.length;
+    const end = slashPosition ?? textarea?.selectionEnd ?? feedback.length;
+    setFeedback(feedback.slice(0, start) + text + feedback.slice(end));
+    
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + text.length, start + text.length);
+    });
+  };
+
+  const handleInsertComment = (text: string) => {
+    insertIntoFeedback(text);
+    setSlashPosition(null);
+    setCommentBankOpen(false);
+  };
+
+  const handleCommentBankOpenChange = (open: boolean) => {
+    // Closed without picking a comment after typing "/", so keep the slash
+    if (!open && slashPosition !== null) {
+      insertIntoFeedback("/");
+      setSlashPosition(null);
+    }
+    setCommentBankOpen(open);
+  };
+
+  // "/" at the start of a word opens the comment bank
+  const handleFeedbackKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!commentBankKey || e.key !== "/" || e.ctrlKey || e.metaKey || e.altKey) return;
+    
+    const position = e.currentTarget.selectionStart;
+    if (position === e.currentTarget.selectionEnd && (position === 0 || /\s/.test(feedback[position - 1]))) {
+      e.preventDefault();
+      setSlashPosition(position);
+      setCommentBankOpen(true);
+    }
+  };
+
+  const handleSaveSelection = () => {
+    const textarea = feedbackRef.current;
+    if (!textarea || !commentBankKey) return;
+    
+    const selection = feedback.slice(textarea.selectionStart, textarea.selectionEnd).trim();
+    if (!selection) return;
+    
+    addCommentSnippet(commentBankKey, selection);
+    setCommentBankVersion(version => version + 1);
+    toast.success("Saved to the comment bank");
+  };
+
   const handleSubmit = () => {
+    if ((student?.suggestions || student?.status === "Suggestions Ready" || requireGrade) && grade === null) {
+      toast.error("Please enter a grade before approving");
+      return;
+    }
+    
     if (studentIndex !== null) {
       // Make sure we preserve any "/30" prefix removal (issue #3)
-      onUpdateGrade(studentIndex, grade, feedback);
+      // Put back anything hidden while grading blind
+      const restoredCriteria = mask
+        ? criteriaScores.map(c => ({ ...c, justification: mask.restore(c.justification) }))
+        : criteriaScores;
+      onUpdateGrade(
+        studentIndex,
+        grade,
+        mask ? mask.restore(feedback) : feedback,
+        restoredCriteria.length > 0 ? restoredCriteria : undefined
+      );
       onClose();
     }
   };
@@ -200,7 +320,7 @@ const StudentPreviewDialog: React.FC<StudentPreviewDialogProps> = ({
     <Dialog open={open} onOpenChange={open => !open && onClose()}>
       <DialogContent className="max-w-3xl max-h-[90vh] overflow-auto">
         <DialogHeader>
-          <DialogTitle className="text-2xl">{student.fullName}</DialogTitle>
+          <DialogTitle className="text-2xl">{studentLabel}</DialogTitle>
         </DialogHeader>
         
         <Tabs 
@@ -216,28 +336,143 @@ const StudentPreviewDialog: React.FC<StudentPreviewDialogProps> = ({
           
           <TabsContent value="feedback" className="space-y-4 py-4">
             <div className="space-y-4">
+              {student.suggestions && (
+                <Card className="bg-muted/40">
+                  <CardContent className="p-4 space-y-3 text-sm">
+                    <div className="flex items-center justify-between">
+                      <h3 className="font-medium flex items-center">
+                        <Lightbulb className="h-4 w-4 mr-2 text-amber-500" />
+                        AI Suggestions
+                      </h3>
+                      <span className="text-muted-foreground">
+                        Suggested range: {student.suggestions.suggestedGradeRange.min}–{student.suggestions.suggestedGradeRange.max} / {maxPoints}
+                      </span>
+                    </div>
+                    
+                    {student.suggestions.strengths.length > 0 && (
+                      <div>
+                        <p className="font-medium text-green-700 dark:text-green-400">Strengths</p>
+                        <ul className="list-disc pl-5 text-muted-foreground">
+                          {student.suggestions.strengths.map((item, i) => <li key={i}>{hideIds(item)}</li>)}
+                        </ul>
+                      </div>
+                    )}
+                    
+                    {student.suggestions.weaknesses.length > 0 && (
+                      <div>
+                        <p className="font-medium text-amber-700 dark:text-amber-400">Weaknesses</p>
+                        <ul className="list-disc pl-5 text-muted-foreground">
+                          {student.suggestions.weaknesses.map((item, i) => <li key={i}>{hideIds(item)}</li>)}
+                        </ul>
+                      </div>
+                    )}
+                    
+                    {student.suggestions.rubricObservations.length > 0 && (
+                      <div>
+                        <p className="font-medium">Rubric Observations</p>
+                        <ul className="space-y-1 text-muted-foreground">
+                          {student.suggestions.rubricObservations.map((item, i) => (
+                            <li key={i}><span className="font-medium text-foreground">{item.area}:</span> {hideIds(item.observation)}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+              
               <div>
                 <Label htmlFor="grade">Grade (out of {maxPoints})</Label>
                 <Input
                   id="grade"
                   type="number"
-                  value={grade}
-                  onChange={e => setGrade(Number(e.target.value))}
+                  value={grade ?? ""}
+                  placeholder={student.suggestions || student.status === "Suggestions Ready" ? "Enter grade manually" : undefined}
+                  onChange={e => setGrade(e.target.value === "" ? null : Number(e.target.value))}
                   min={0}
                   max={maxPoints}
                   className="mt-1"
+                  readOnly={criteriaScores.length > 0}
                 />
+                {criteriaScores.length > 0 && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Calculated from the rubric criteria below
+                  </p>
+                )}
               </div>
               
+              {criteriaScores.length > 0 && (
+                <div className="space-y-3">
+                  <Label>Rubric Criteria</Label>
+                  {criteriaScores.map((criterion, index) => (
+                    <div key={criterion.name} className="border rounded-md p-3 space-y-2">
+                      <div className="flex items-center justify-between gap-4">
+                        <span className="text-sm font-medium">{criterion.name}</span>
+                        <div className="flex items-center gap-1 text-sm text-muted-foreground">
+                          <Input
+                            type="number"
+                            value={criterion.score}
+                            onChange={e => handleCriterionChange(index, { score: Number(e.target.value) })}
+                            min={0}
+                            max={criterion.maxPoints}
+                            className="w-20 h-8"
+                          />
+                          <span>/ {criterion.maxPoints}</span>
+                        </div>
+                      </div>
+                      <Textarea
+                        value={criterion.justification}
+                        onChange={e => handleCriterionChange(index, { justification: e.target.value })}
+                        rows={2}
+                        className="text-sm"
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+              
               <div>
-                <Label htmlFor="feedback">Feedback</Label>
+                <div className="flex items-center justify-between gap-2">
+                  <Label htmlFor="feedback">Feedback</Label>
+                  {commentBankKey && (
+                    <div className="flex items-center gap-2">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 gap-1 text-xs"
+                        onClick={handleSaveSelection}
+                        disabled={!hasFeedbackSelection}
+                        title="Save the selected feedback as a reusable comment"
+                      >
+                        <BookmarkPlus className="h-3.5 w-3.5" />
+                        Save selection
+                      </Button>
+                      <CommentBankMenu
+                        bankKey={commentBankKey}
+                        open={commentBankOpen}
+                        onOpenChange={handleCommentBankOpenChange}
+                        onInsert={handleInsertComment}
+                        refreshKey={commentBankVersion}
+                      />
+                    </div>
+                  )}
+                </div>
                 <Textarea
                   id="feedback"
+                  ref={feedbackRef}
                   value={feedback}
                   onChange={e => setFeedback(e.target.value)}
+                  onKeyDown={handleFeedbackKeyDown}
+                  onSelect={e => setHasFeedbackSelection(e.currentTarget.selectionStart !== e.currentTarget.selectionEnd)}
                   rows={12}
                   className="mt-1"
                 />
+                {commentBankKey && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Type / at the start of a word to insert a saved comment.
+                  </p>
+                )}
               </div>
             </div>
           </TabsContent>
@@ -252,7 +487,7 @@ const StudentPreviewDialog: React.FC<StudentPreviewDialogProps> = ({
                   </h3>
                   {student.file && (
                     <div className="text-sm text-muted-foreground">
-                      {student.file.name}
+                      {fileLabel}
                     </div>
                   )}
                 </div>
@@ -273,7 +508,7 @@ const StudentPreviewDialog: React.FC<StudentPreviewDialogProps> = ({
                               <div className="relative w-full">
                                 <img 
                                   src={imageObjectUrl || (student.file ? URL.createObjectURL(student.file) : '')} 
-                                  alt={`${student.fullName}'s submission`}
+                                  alt={`${studentLabel}'s submission`}
                                   className="max-w-full max-h-[500px] object-contain rounded border border-gray-200 shadow-sm mx-auto"
                                   onLoad={() => {
                                     // If we're using the fallback URL, store it to prevent regeneration
@@ -299,28 +534,43 @@ const StudentPreviewDialog: React.FC<StudentPreviewDialogProps> = ({
                                   )}
                                 </div>
                                 <pre className="whitespace-pre-wrap text-sm font-mono bg-gray-50 dark:bg-gray-800 p-3 rounded-md overflow-auto max-h-[250px]">
-                                  {submissionContent || "No content extracted from image"}
+                                  {shownContent || "No content extracted from image"}
                                 </pre>
                               </div>
+                              {mask && (
+                                <p className="w-full text-xs text-muted-foreground flex items-center gap-1">
+                                  <EyeOff className="h-3 w-3" />
+                                  Names written in the image itself can't be hidden.
+                                </p>
+                              )}
                             </div>
                           ) : (student.file.type === 'application/pdf' || student.file.name.toLowerCase().endsWith('.pdf')) ? (
                             // PDF files
                             <div className="flex flex-col space-y-2">
                               <div className="text-sm text-muted-foreground mb-1">
-                                PDF Document: {student.file.name} ({Math.round(student.file.size/1024)} KB)
-                              </div>
-                              <iframe 
-                                src={URL.createObjectURL(student.file)} 
-                                title={`${student.fullName}'s PDF submission`}
-                                className="w-full h-[550px] rounded border border-gray-200"
-                              />
-                              <div className="text-xs text-muted-foreground">
-                                <span className="font-medium">Note:</span> If the PDF doesn't load correctly, you can still view the extracted text below.
+                                PDF Document: {fileLabel} ({Math.round(student.file.size/1024)} KB)
                               </div>
+                              {mask ? (
+                                <div className="text-xs text-muted-foreground flex items-center gap-1">
+                                  <EyeOff className="h-3 w-3" />
+                                  The original PDF is hidden during blind grading. Its extracted text is shown with names hidden.
+                                </div>
+                              ) : (
+                                <>
+                                  <iframe 
+                                    src={URL.createObjectURL(student.file)} 
+                                    title={`${student.fullName}'s PDF submission`}
+                                    className="w-full h-[550px] rounded border border-gray-200"
+                                  />
+                                  <div className="text-xs text-muted-foreground">
+                                    <span className="font-medium">Note:</span> If the PDF doesn't load correctly, you can still view the extracted text below.
+                                  </div>
+                                </>
+                              )}
                               <div className="mt-2">
                                 <h4 className="text-sm font-medium mb-1">Extracted Text:</h4>
                                 <pre className="whitespace-pre-wrap text-sm font-mono bg-gray-50 dark:bg-gray-800 p-3 rounded-md overflow-auto max-h-[200px]">
-                                  {submissionContent ? submissionContent.replace(/<br\s*\/?>/g, '\n').replace(/&nbsp;/g, ' ') : "No text extracted from PDF"}
+                                  {shownContent ? shownContent.replace(/<br\s*\/?>/g, '\n').replace(/&nbsp;/g, ' ') : "No text extracted from PDF"}
                                 </pre>
                               </div>
                             </div>
@@ -328,14 +578,14 @@ const StudentPreviewDialog: React.FC<StudentPreviewDialogProps> = ({
                             // DOCX files
                             <div className="flex flex-col space-y-2">
                               <div className="text-sm text-muted-foreground mb-1">
-                                Document: {student.file.name} ({Math.round(student.file.size/1024)} KB)
+                                Document: {fileLabel} ({Math.round(student.file.size/1024)} KB)
                               </div>
                               <div 
                                 className="w-full h-[550px] rounded border border-gray-200 bg-white"
                               >
                                 <iframe
-                                  srcDoc={`<!DOCTYPE html><html><head><meta charset="UTF-8"><style>body{font-family:Arial,sans-serif;margin:20px;line-height:1.5}</style></head><body>${(student.file as any).docxHtml || submissionContent}</body></html>`}
-                                  title={`${student.fullName}'s DOCX submission`}
+                                  srcDoc={`<!DOCTYPE html><html><head><meta charset="UTF-8"><style>body{font-family:Arial,sans-serif;margin:20px;line-height:1.5}</style></head><body>${mask ? shownContent : ((student.file as any).docxHtml || submissionContent)}</body></html>`}
+                                  title={`${studentLabel}'s DOCX submission`}
                                   className="w-full h-full rounded"
                                   sandbox="allow-same-origin"
                                 ></iframe>
@@ -345,21 +595,21 @@ const StudentPreviewDialog: React.FC<StudentPreviewDialogProps> = ({
                             // HTML content
                             <>
                               <div className="text-sm text-muted-foreground mb-2">
-                                HTML Document: {student.file.name} ({Math.round(student.file.size/1024)} KB)
+                                HTML Document: {fileLabel} ({Math.round(student.file.size/1024)} KB)
                               </div>
                               <div 
                                 className="prose dark:prose-invert max-w-none border border-gray-200 rounded p-4 bg-white dark:bg-gray-800"
-                                dangerouslySetInnerHTML={{ __html: submissionContent }}
+                                dangerouslySetInnerHTML={{ __html: shownContent }}
                               />
                             </>
                           ) : (
                             // All other files
                             <>
                               <div className="text-sm text-muted-foreground mb-2">
-                                {student.file.name} ({Math.round(student.file.size/1024)} KB)
+                                {fileLabel} ({Math.round(student.file.size/1024)} KB)
                               </div>
                               <pre className="whitespace-pre-wrap text-sm font-mono overflow-auto border border-gray-200 rounded p-4 bg-gray-50 dark:bg-gray-900">
-                                {submissionContent || "No content available"}
+                                {shownContent || "No content available"}
                               </pre>
                             </>
                           )}
@@ -367,7 +617,7 @@ const StudentPreviewDialog: React.FC<StudentPreviewDialogProps> = ({
                       ) : (
                         // No file case
                         <pre className="whitespace-pre-wrap text-sm font-mono overflow-auto bg-gray-50 dark:bg-gray-900 p-4 rounded border border-gray-200">
-                          {submissionContent || "No submission file found for this student."}
+                          {shownContent || "No submission file found for this student."}
                         </pre>
                       )}
                     </div>
@@ -383,7 +633,7 @@ const StudentPreviewDialog: React.FC<StudentPreviewDialogProps> = ({
             Cancel
           </Button>
           <Button onClick={handleSubmit}>
-            Approve
+            {submitLabel}
           </Button>
         </DialogFooter>
       </DialogContent>
@@ -0,0 +1,336 @@
+import React, { useMemo, useState } from "react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { BarChart3, Target, Wand2 } from "lucide-react";
+import type { StudentGrade } from "@/hooks/use-grading-workflow";
+import type { AssignmentFormData } from "@/components/assignment/AssignmentFormTypes";
+import { getPseudonym } from "@/utils/blindGrading";
+import {
+  IDENTITY_CURVE,
+  applyCurveToGrade,
+  buildHistogram,
+  calculateStatistics,
+  findOutliers,
+  getCriterionAverages,
+  getCurveForTarget,
+  getGradeValues,
+  loadTargetDistribution,
+  previewCurve,
+  saveTargetDistribution,
+  type GradeCurve,
+  type GradeStatistics,
+  type TargetDistribution
+} from "@/utils/gradeStatistics";
+
+interface GradeDistributionProps {
+  grades: StudentGrade[];
+  assignmentData: AssignmentFormData;
+  pseudonyms?: Record<string, string>; // Blind grading is active
+  onApplyCurve: (curve: GradeCurve) => void;
+}
+
+const histogramConfig: ChartConfig = {
+  count: { label: 'Students', color: 'hsl(var(--primary))' },
+  target: { label: 'Target', color: 'hsl(var(--muted-foreground))' }
+};
+
+const formatPoints = (value: number) => (Math.round(value * 10) / 10).toString();
+
+const StatisticTiles: React.FC<{ statistics: GradeStatistics | null; maxPoints: number; compact?: boolean }> = ({
+  statistics,
+  maxPoints,
+  compact
+}) => {
+  if (!statistics) return <p className="text-sm text-muted-foreground">No graded submissions yet.</p>;
+
+  const percent = (value: number) => `${Math.round((value / maxPoints) * 100)}%`;
+  const tiles = [
+    { label: 'Graded', value: statistics.count.toString() },
+    { label: 'Mean', value: `${formatPoints(statistics.mean)} (${percent(statistics.mean)})` },
+    { label: 'Median', value: `${formatPoints(statistics.median)} (${percent(statistics.median)})` },
+    { label: 'Std. deviation', value: formatPoints(statistics.standardDeviation) },
+    { label: 'Range', value: `${formatPoints(statistics.min)}–${formatPoints(statistics.max)}` }
+  ];
+
+  return (
+    <div className={`grid grid-cols-2 gap-3 ${compact ? 'md:grid-cols-3' : 'md:grid-cols-5'}`}>
+      {tiles.map(tile => (
+        <div key={tile.label} className="rounded-md border p-3">
+          <p className="text-xs text-muted-foreground">{tile.label}</p>
+          <p className="text-lg font-semibold">{tile.value}</p>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+/**
+ * Statistics of the run's grades, compared to a target distribution, with a curve tool
+ */
+const GradeDistribution: React.FC<GradeDistributionProps> = ({ grades, assignmentData, pseudonyms, onApplyCurve }) => {
+  const maxPoints = assignmentData.gradingScale;
+  const [target, setTarget] = useState<TargetDistribution>(loadTargetDistribution);
+  const [curve, setCurve] = useState<GradeCurve>(IDENTITY_CURVE);
+
+  const values = useMemo(() => getGradeValues(grades), [grades]);
+  const statistics = useMemo(() => calculateStatistics(values), [values]);
+  const histogram = useMemo(() => buildHistogram(values, maxPoints, target), [values, maxPoints, target]);
+  const criterionAverages = useMemo(() => getCriterionAverages(grades), [grades]);
+  const outliers = useMemo(() => findOutliers(grades), [grades]);
+
+  const changes = useMemo(() => previewCurve(grades, curve, maxPoints), [grades, curve, maxPoints]);
+  const curvedStatistics = useMemo(
+    () => calculateStatistics(values.map(value => applyCurveToGrade(value, curve, maxPoints))),
+    [values, curve, maxPoints]
+  );
+
+  const studentLabel = (grade: StudentGrade) => (pseudonyms ? getPseudonym(pseudonyms, grade) : grade.fullName);
+
+  const updateTarget = (field: keyof TargetDistribution, value: string) => {
+    const next = { ...target, [field]: Math.min(100, Math.max(0, Number(value) || 0)) };
+    setTarget(next);
+    saveTargetDistribution(next);
+  };
+
+  const updateCurve = (field: keyof GradeCurve, value: string) => {
+    if (value.trim() !== '' && isNaN(Number(value))) return;
+    setCurve(prev => ({
+      ...prev,
+      [field]: field === 'floor' || field === 'cap'
+        ? (value.trim() === '' ? null : Number(value))
+        : (value.trim() === '' ? IDENTITY_CURVE[field] : Number(value))
+    }));
+  };
+
+  const handleApply = () => {
+    onApplyCurve(curve);
+    setCurve(IDENTITY_CURVE);
+  };
+
+  if (values.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <BarChart3 className="h-5 w-5" />
+          Grade Distribution
+        </CardTitle>
+        <CardDescription>
+          Statistics of the graded submissions. Students without a submission or whose grading failed are left out.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="distribution">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="distribution">Distribution</TabsTrigger>
+            <TabsTrigger value="curve">Curve</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="distribution" className="space-y-6 pt-4">
+            <StatisticTiles statistics={statistics} maxPoints={maxPoints} />
+
+            <div className="space-y-2">
+              <div className="flex flex-wrap items-end justify-between gap-4">
+                <h4 className="text-sm font-medium">Histogram</h4>
+                <div className="flex items-end gap-3">
+                  <Target className="h-4 w-4 mb-2 text-muted-foreground" />
+                  <div className="space-y-1">
+                    <Label htmlFor="targetMean" className="text-xs">Target mean (%)</Label>
+                    <Input
+                      id="targetMean"
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={target.mean}
+                      onChange={e => updateTarget('mean', e.target.value)}
+                      className="h-8 w-24"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="targetSd" className="text-xs">Target std. dev. (%)</Label>
+                    <Input
+                      id="targetSd"
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={target.standardDeviation}
+                      onChange={e => updateTarget('standardDeviation', e.target.value)}
+                      className="h-8 w-24"
+                    />
+                  </div>
+                </div>
+              </div>
+              <ChartContainer config={histogramConfig} className="h-[240px] w-full">
+                <BarChart data={histogram}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} fontSize={11} />
+                  <YAxis tickLine={false} axisLine={false} width={32} allowDecimals={false} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                  <Bar dataKey="target" fill="var(--color-target)" fillOpacity={0.4} radius={4} />
+                </BarChart>
+              </ChartContainer>
+            </div>
+
+            {criterionAverages.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Rubric Criteria Averages</h4>
+                <div className="space-y-2">
+                  {criterionAverages.map(criterion => (
+                    <div key={criterion.name} className="grid grid-cols-12 items-center gap-3 text-sm">
+                      <span className="col-span-5 truncate" title={criterion.name}>{criterion.name}</span>
+                      <Progress value={criterion.percent} className="col-span-5 h-2" />
+                      <span className="col-span-2 text-right text-muted-foreground">
+                        {formatPoints(criterion.average)}/{criterion.maxPoints}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Outliers</h4>
+              {outliers.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No grades fall more than 1.5 interquartile ranges outside the middle half of the class.
+                </p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {outliers.map(outlier => (
+                    <Badge key={outlier.index} variant={outlier.direction === 'low' ? 'destructive' : 'secondary'}>
+                      {studentLabel(grades[outlier.index])}: {formatPoints(outlier.grade)}/{maxPoints} ({outlier.direction})
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="curve" className="space-y-6 pt-4">
+            <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+              <div className="space-y-2">
+                <Label htmlFor="curveScale">Scale by</Label>
+                <Input
+                  id="curveScale"
+                  type="number"
+                  step="0.05"
+                  min={0}
+                  value={curve.scale}
+                  onChange={e => updateCurve('scale', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="curveOffset">Then add (points)</Label>
+                <Input
+                  id="curveOffset"
+                  type="number"
+                  step="0.5"
+                  value={curve.offset}
+                  onChange={e => updateCurve('offset', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="curveFloor">Floor</Label>
+                <Input
+                  id="curveFloor"
+                  type="number"
+                  min={0}
+                  max={maxPoints}
+                  value={curve.floor ?? ""}
+                  placeholder="None"
+                  onChange={e => updateCurve('floor', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="curveCap">Cap</Label>
+                <Input
+                  id="curveCap"
+                  type="number"
+                  min={0}
+                  max={maxPoints}
+                  value={curve.cap ?? ""}
+                  placeholder="None"
+                  onChange={e => updateCurve('cap', e.target.value)}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Grades are scaled, then the points are added, then they are held between the floor and the cap and
+              rounded to one decimal. Rubric criterion scores and moderation marks are scaled to match; feedback isn't changed.
+              Scripts still waiting for a second mark are left out of the statistics and the curve.
+            </p>
+
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Current</h4>
+                <StatisticTiles statistics={statistics} maxPoints={maxPoints} compact />
+              </div>
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">After curve</h4>
+                <StatisticTiles statistics={curvedStatistics} maxPoints={maxPoints} compact />
+              </div>
+            </div>
+
+            {changes.length > 0 && (
+              <div className="border rounded-md max-h-[240px] overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Student</TableHead>
+                      <TableHead className="text-right">Current</TableHead>
+                      <TableHead className="text-right">After curve</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {changes.map(change => (
+                      <TableRow key={change.index}>
+                        <TableCell>{studentLabel(grades[change.index])}</TableCell>
+                        <TableCell className="text-right">{formatPoints(change.before)}</TableCell>
+                        <TableCell className="text-right font-medium">{formatPoints(change.after)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <span className="text-sm text-muted-foreground">
+                {changes.length} of {values.length} grades would change
+              </span>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => statistics && setCurve(getCurveForTarget(statistics, target, maxPoints))}
+                >
+                  <Target className="h-4 w-4 mr-2" />
+                  Fit to Target
+                </Button>
+                <Button variant="ghost" onClick={() => setCurve(IDENTITY_CURVE)}>
+                  Reset
+                </Button>
+                <Button onClick={handleApply} disabled={changes.length === 0}>
+                  <Wand2 className="h-4 w-4 mr-2" />
+                  Apply Curve
+                </Button>
+              </div>
+            </div>
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default GradeDistribution;
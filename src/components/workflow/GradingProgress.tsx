@@ -0,0 +1,101 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { CheckCircle, Clock, Loader2, Pause, Play, Square, XCircle } from "lucide-react";
+import type { GradingJobProgress, StudentJobStatus } from "@/utils/gradingJob";
+import { summarizeUsage, formatCost } from "@/utils/usageTracking";
+
+interface GradingProgressProps {
+  progress: GradingJobProgress;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+}
+
+const STATUS_ORDER: StudentJobStatus[] = ['in-progress', 'failed', 'queued', 'done'];
+
+const STATUS_DISPLAY: Record<StudentJobStatus, { label: string; icon: React.ReactNode }> = {
+  'in-progress': { label: 'Grading', icon: <Loader2 className="h-3.5 w-3.5 animate-spin text-primary" /> },
+  'queued': { label: 'Queued', icon: <Clock className="h-3.5 w-3.5 text-muted-foreground" /> },
+  'done': { label: 'Done', icon: <CheckCircle className="h-3.5 w-3.5 text-green-600" /> },
+  'failed': { label: 'Failed', icon: <XCircle className="h-3.5 w-3.5 text-destructive" /> }
+};
+
+const GradingProgress: React.FC<GradingProgressProps> = ({ progress, onPause, onResume, onCancel }) => {
+  const entries = Object.entries(progress.students);
+  const counts = entries.reduce((acc, [, status]) => {
+    acc[status] = (acc[status] || 0) + 1;
+    return acc;
+  }, {} as Record<StudentJobStatus, number>);
+
+  const finished = (counts['done'] || 0) + (counts['failed'] || 0);
+  const percentage = entries.length > 0 ? Math.round((finished / entries.length) * 100) : 0;
+  const isPaused = progress.status === 'paused';
+  const runCost = summarizeUsage(Object.values(progress.completedGrades)).cost;
+
+  const sortedEntries = [...entries].sort(([nameA, a], [nameB, b]) =>
+    STATUS_ORDER.indexOf(a) - STATUS_ORDER.indexOf(b) || nameA.localeCompare(nameB)
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-xl">{isPaused ? 'Grading Paused' : 'Grading Submissions'}</CardTitle>
+            <CardDescription>
+              {finished} of {entries.length} students finished
+              {progress.concurrency ? ` · ${progress.concurrency} at a time` : ''}
+              {runCost > 0 ? ` · ${formatCost(runCost)} spent` : ''}. Progress is saved, so a reload continues where it stopped.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            {isPaused ? (
+              <Button size="sm" onClick={onResume} className="gap-1.5">
+                <Play className="h-4 w-4" />
+                Resume
+              </Button>
+            ) : (
+              <Button size="sm" variant="outline" onClick={onPause} className="gap-1.5">
+                <Pause className="h-4 w-4" />
+                Pause
+              </Button>
+            )}
+            <Button size="sm" variant="outline" onClick={onCancel} className="gap-1.5 text-destructive">
+              <Square className="h-4 w-4" />
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Progress value={percentage} />
+
+        <div className="flex flex-wrap gap-2">
+          {STATUS_ORDER.map(status => (
+            <Badge key={status} variant="outline" className="gap-1">
+              {STATUS_DISPLAY[status].icon}
+              {STATUS_DISPLAY[status].label}: {counts[status] || 0}
+            </Badge>
+          ))}
+        </div>
+
+        <div className="border rounded-md divide-y max-h-[360px] overflow-y-auto">
+          {sortedEntries.map(([name, status]) => (
+            <div key={name} className="flex items-center justify-between px-4 py-2 text-sm">
+              <span className="truncate">{name}</span>
+              <span className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                {STATUS_DISPLAY[status].icon}
+                {STATUS_DISPLAY[status].label}
+              </span>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default GradingProgress;
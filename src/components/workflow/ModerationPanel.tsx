@@ -0,0 +1,352 @@
+import React, { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { Scale, Shuffle, Trash2 } from "lucide-react";
+import StudentPreviewDialog from "@/components/grading/StudentPreviewDialog";
+import type { StudentGrade } from "@/hooks/use-grading-workflow";
+import type { AssignmentFormData } from "@/components/assignment/AssignmentFormTypes";
+import { createIdentityMask, getPseudonym } from "@/utils/blindGrading";
+import { getCommentBankKey } from "@/utils/commentBank";
+import {
+  getSampleSize,
+  isEligibleForModeration,
+  loadModerationSettings,
+  summarizeModeration,
+  type ModerationSettings,
+  type ModerationStatus
+} from "@/utils/moderation";
+
+interface ModerationPanelProps {
+  grades: StudentGrade[];
+  assignmentData: AssignmentFormData;
+  pseudonyms?: Record<string, string>; // Blind grading is active
+  onStartModeration: (settings: ModerationSettings) => void;
+  onSecondMark: (index: number, mark: number, feedback: string) => void;
+  onReconcile: (index: number, finalGrade: number, note: string) => void;
+  onClearModeration: () => void;
+}
+
+const STATUS_LABELS: Record<ModerationStatus, string> = {
+  'awaiting-second-mark': 'To mark',
+  agreed: 'Agreed',
+  disagreement: 'Disagreement',
+  reconciled: 'Reconciled'
+};
+
+const STATUS_VARIANTS: Record<ModerationStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  'awaiting-second-mark': 'outline',
+  agreed: 'secondary',
+  disagreement: 'destructive',
+  reconciled: 'default'
+};
+
+/**
+ * Second-marker moderation of a sample of scripts on the review step
+ */
+const ModerationPanel: React.FC<ModerationPanelProps> = ({
+  grades,
+  assignmentData,
+  pseudonyms,
+  onStartModeration,
+  onSecondMark,
+  onReconcile,
+  onClearModeration
+}) => {
+  const maxPoints = assignmentData.gradingScale;
+  const [settings, setSettings] = useState<ModerationSettings>(() => loadModerationSettings(maxPoints));
+  const [markingIndex, setMarkingIndex] = useState<number | null>(null);
+  const [reconcilingIndex, setReconcilingIndex] = useState<number | null>(null);
+  const [finalGrade, setFinalGrade] = useState<string>("");
+  const [resolutionNote, setResolutionNote] = useState("");
+
+  const summary = useMemo(() => summarizeModeration(grades), [grades]);
+  const eligibleCount = grades.filter(isEligibleForModeration).length;
+  const pendingReviews = grades.filter(grade => !grade.edited).length;
+  const sampleSize = getSampleSize(eligibleCount, settings);
+
+  const sampled = useMemo(
+    () => grades
+      .map((grade, index) => ({ grade, index }))
+      .filter(({ grade }) => grade.moderation)
+      .sort((a, b) => a.grade.moderation.scriptNumber - b.grade.moderation.scriptNumber),
+    [grades]
+  );
+
+  const studentLabel = (grade: StudentGrade) => (pseudonyms ? getPseudonym(pseudonyms, grade) : grade.fullName);
+
+  // The second marker sees the submission without the first mark, feedback or rubric scores
+  const markingStudent = useMemo<StudentGrade | null>(() => {
+    if (markingIndex === null || !grades[markingIndex]) return null;
+    const { criteriaScores, suggestions, ...grade } = grades[markingIndex];
+    return {
+      ...grade,
+      grade: null,
+      feedback: "",
+      criteriaScores: criteriaScores?.map(criterion => ({ ...criterion, score: 0, justification: "" }))
+    };
+  }, [markingIndex, grades]);
+
+  const markingMask = useMemo(
+    () => (pseudonyms && markingStudent ? createIdentityMask(grades[markingIndex], grades) : undefined),
+    [pseudonyms, markingStudent, markingIndex, grades]
+  );
+
+  const reconciling = reconcilingIndex !== null ? grades[reconcilingIndex] : null;
+  const reconcilingMask = pseudonyms && reconciling ? createIdentityMask(reconciling, grades) : undefined;
+  const hideIds = (text: string) => (reconcilingMask ? reconcilingMask.hide(text) : text);
+
+  const updateSetting = (field: keyof ModerationSettings, value: string) => {
+    setSettings(prev => ({ ...prev, [field]: field === 'method' ? value : Math.max(0, Number(value) || 0) }));
+  };
+
+  const handleSecondMark = (index: number, grade: number | null, feedback: string) => {
+    if (grade === null) return;
+    onSecondMark(index, grade, feedback);
+  };
+
+  const openReconcile = (index: number) => {
+    const record = grades[index].moderation;
+    const suggested = record.finalGrade ?? (record.firstMark + (record.secondMark ?? record.firstMark)) / 2;
+    setReconcilingIndex(index);
+    setFinalGrade(String(Math.round(suggested * 10) / 10));
+    setResolutionNote(record.resolutionNote || "");
+  };
+
+  const handleReconcile = () => {
+    const value = Number(finalGrade);
+    if (finalGrade.trim() === "" || isNaN(value) || value < 0 || value > maxPoints) {
+      toast.error(`Enter a final grade between 0 and ${maxPoints}`);
+      return;
+    }
+    if (!resolutionNote.trim()) {
+      toast.error("Add a note explaining how the marks were reconciled");
+      return;
+    }
+    onReconcile(reconcilingIndex, value, resolutionNote);
+    setReconcilingIndex(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Scale className="h-5 w-5" />
+          Second Marking
+        </CardTitle>
+        <CardDescription>
+          A sample of scripts is marked again without the first mark being shown. Marks that differ by more than
+          the threshold are reconciled into a final grade with a note.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {summary.sampled === 0 ? (
+          <>
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-4">
+              <div className="space-y-2">
+                <Label>Sampling</Label>
+                <Select value={settings.method} onValueChange={value => updateSetting('method', value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="stratified">Stratified by mark</SelectItem>
+                    <SelectItem value="random">Random</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="samplePercent">Sample (%)</Label>
+                <Input
+                  id="samplePercent"
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={settings.samplePercent}
+                  onChange={e => updateSetting('samplePercent', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="minimumSample">At least</Label>
+                <Input
+                  id="minimumSample"
+                  type="number"
+                  min={0}
+                  value={settings.minimumSample}
+                  onChange={e => updateSetting('minimumSample', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="moderationThreshold">Threshold (points)</Label>
+                <Input
+                  id="moderationThreshold"
+                  type="number"
+                  min={0}
+                  max={maxPoints}
+                  step="0.5"
+                  value={settings.threshold}
+                  onChange={e => updateSetting('threshold', e.target.value)}
+                />
+              </div>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {settings.method === 'stratified'
+                ? "Scripts are ordered by first mark and split into equal bands, with one script taken from each band."
+                : "Scripts are picked at random."}{' '}
+              {sampleSize} of {eligibleCount} reviewed {eligibleCount === 1 ? 'script' : 'scripts'} will be sampled.
+              {pendingReviews > 0 && ` Review the remaining ${pendingReviews} grades first.`}
+            </p>
+          </>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant="outline">{summary.sampled} sampled</Badge>
+              <Badge variant="outline">{summary.awaiting} to mark</Badge>
+              <Badge variant="secondary">{summary.agreed} agreed</Badge>
+              <Badge variant={summary.disagreements > 0 ? "destructive" : "outline"}>{summary.disagreements} disagreements</Badge>
+              <Badge variant="outline">{summary.reconciled} reconciled</Badge>
+            </div>
+            <div className="border rounded-md max-h-[360px] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Script</TableHead>
+                    <TableHead>Student</TableHead>
+                    <TableHead className="text-right">First</TableHead>
+                    <TableHead className="text-right">Second</TableHead>
+                    <TableHead className="text-right">Final</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sampled.map(({ grade, index }) => {
+                    const record = grade.moderation;
+                    const awaiting = record.status === 'awaiting-second-mark';
+                    return (
+                      <TableRow key={index}>
+                        <TableCell className="font-medium">Script {record.scriptNumber}</TableCell>
+                        <TableCell>{studentLabel(grade)}</TableCell>
+                        <TableCell className="text-right">{awaiting ? '—' : record.firstMark}</TableCell>
+                        <TableCell className="text-right">{record.secondMark ?? '—'}</TableCell>
+                        <TableCell className="text-right">{record.finalGrade ?? '—'}</TableCell>
+                        <TableCell>
+                          <Badge variant={STATUS_VARIANTS[record.status]}>{STATUS_LABELS[record.status]}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {awaiting ? (
+                            <Button variant="ghost" size="sm" onClick={() => setMarkingIndex(index)}>Mark</Button>
+                          ) : (
+                            <Button variant="ghost" size="sm" onClick={() => openReconcile(index)}>
+                              {record.status === 'disagreement' ? 'Reconcile' : 'Details'}
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+      </CardContent>
+      <CardFooter className="gap-2">
+        {summary.sampled === 0 ? (
+          <Button onClick={() => onStartModeration(settings)} disabled={pendingReviews > 0 || sampleSize === 0}>
+            <Shuffle className="h-4 w-4 mr-2" />
+            Select Sample
+          </Button>
+        ) : (
+          <Button variant="ghost" onClick={onClearModeration}>
+            <Trash2 className="h-4 w-4 mr-2" />
+            Clear Sample
+          </Button>
+        )}
+      </CardFooter>
+
+      <StudentPreviewDialog
+        open={markingStudent !== null}
+        onClose={() => setMarkingIndex(null)}
+        student={markingStudent}
+        studentIndex={markingIndex}
+        maxPoints={maxPoints}
+        onUpdateGrade={handleSecondMark}
+        pseudonym={markingStudent ? `Script ${markingStudent.moderation?.scriptNumber}` : undefined}
+        mask={markingMask}
+        submitLabel="Save Second Mark"
+        requireGrade
+        commentBankKey={getCommentBankKey(assignmentData)}
+      />
+
+      <Dialog open={reconciling !== null} onOpenChange={open => !open && setReconcilingIndex(null)}>
+        {reconciling && (
+          <DialogContent className="max-w-3xl max-h-[90vh] overflow-auto">
+            <DialogHeader>
+              <DialogTitle>Script {reconciling.moderation.scriptNumber}: {studentLabel(reconciling)}</DialogTitle>
+            </DialogHeader>
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">First mark: {reconciling.moderation.firstMark}/{maxPoints}</h4>
+                <p className="whitespace-pre-wrap rounded-md bg-muted p-3 text-sm text-muted-foreground max-h-60 overflow-y-auto">
+                  {hideIds(reconciling.feedback) || "No feedback"}
+                </p>
+              </div>
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Second mark: {reconciling.moderation.secondMark}/{maxPoints}</h4>
+                <p className="whitespace-pre-wrap rounded-md bg-muted p-3 text-sm text-muted-foreground max-h-60 overflow-y-auto">
+                  {hideIds(reconciling.moderation.secondFeedback || "") || "No comments"}
+                </p>
+              </div>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              The marks differ by {Math.abs((reconciling.moderation.secondMark ?? 0) - reconciling.moderation.firstMark)} points
+              (threshold {reconciling.moderation.threshold}).
+              {reconciling.moderation.status === 'agreed' && " They agree, so the first mark stands unless you reconcile it."}
+            </p>
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="finalGrade">Final grade (out of {maxPoints})</Label>
+                <Input
+                  id="finalGrade"
+                  type="number"
+                  min={0}
+                  max={maxPoints}
+                  value={finalGrade}
+                  onChange={e => setFinalGrade(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="resolutionNote">Resolution note</Label>
+                <Textarea
+                  id="resolutionNote"
+                  value={resolutionNote}
+                  onChange={e => setResolutionNote(e.target.value)}
+                  rows={3}
+                  placeholder="How the markers agreed on the final grade"
+                />
+              </div>
+            </div>
+            <DialogFooter className="gap-2 sm:gap-0">
+              <Button variant="outline" onClick={() => setReconcilingIndex(null)}>
+                Cancel
+              </Button>
+              <Button onClick={handleReconcile}>
+                Save Final Grade
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        )}
+      </Dialog>
+    </Card>
+  );
+};
+
+export default ModerationPanel;
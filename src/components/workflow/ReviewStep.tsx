@@ -1,21 +1,42 @@
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import GradingPreview from "@/components/GradingPreview";
+import GradingProgress from "./GradingProgress";
+import UsageSummary from "./UsageSummary";
+import ModerationPanel from "./ModerationPanel";
+import GradeDistribution from "./GradeDistribution";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
-import { AlertCircle, Info, FileSpreadsheet, FolderOpen } from "lucide-react";
+import { AlertCircle, Info, FileSpreadsheet, FolderOpen, RefreshCw } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import type { StudentGrade } from "@/hooks/use-grading-workflow";
+import type { CriterionScore } from "@/utils/rubricUtils";
 import type { AssignmentFormData } from "@/components/assignment/AssignmentFormTypes";
+import type { GradingJobProgress } from "@/utils/gradingJob";
+import { getPseudonyms, isBlindGradingActive, type BlindGradingState } from "@/utils/blindGrading";
+import type { ModerationSettings } from "@/utils/moderation";
+import type { GradeCurve } from "@/utils/gradeStatistics";
 
 interface ReviewStepProps {
   files: File[];
   assignmentData: AssignmentFormData;
   grades: StudentGrade[];
   isProcessing: boolean;
-  onUpdateGrade: (index: number, grade: number, feedback: string) => void;
+  onUpdateGrade: (index: number, grade: number, feedback: string, criteriaScores?: CriterionScore[]) => void;
   onApproveAll: () => void;
   onContinue: () => void;
+  blindGrading?: BlindGradingState | null;
+  onRevealIdentities?: () => void;
+  onStartModeration?: (settings: ModerationSettings) => void;
+  onSecondMark?: (index: number, mark: number, feedback: string) => void;
+  onReconcileGrade?: (index: number, finalGrade: number, note: string) => void;
+  onClearModeration?: () => void;
+  onApplyCurve?: (curve: GradeCurve) => void;
+  jobProgress?: GradingJobProgress | null;
+  onPauseGrading?: () => void;
+  onResumeGrading?: () => void;
+  onCancelGrading?: () => void;
+  onRetryFailed?: () => void;
 }
 
 const ReviewStep: React.FC<ReviewStepProps> = ({
@@ -25,15 +46,33 @@ const ReviewStep: React.FC<ReviewStepProps> = ({
   isProcessing,
   onUpdateGrade,
   onApproveAll,
-  onContinue
+  onContinue,
+  blindGrading,
+  onRevealIdentities,
+  onStartModeration,
+  onSecondMark,
+  onReconcileGrade,
+  onClearModeration,
+  onApplyCurve,
+  jobProgress,
+  onPauseGrading,
+  onResumeGrading,
+  onCancelGrading,
+  onRetryFailed
 }) => {
   const [showTroubleshooting, setShowTroubleshooting] = useState(false);
   const [folderStructure, setFolderStructure] = useState<string[]>([]);
+  const isBlind = isBlindGradingActive(blindGrading);
+  const pseudonyms = useMemo(
+    () => (isBlind ? getPseudonyms(grades, blindGrading.seed) : undefined),
+    [isBlind, grades, blindGrading?.seed]
+  );
   
   // Calculate some stats for the troubleshooting section
   const gradedSubmissions = grades.filter(g => g.file && g.grade > 0).length;
   const totalStudents = grades.length;
   const missingSubmissions = grades.filter(g => !g.file).length;
+  const failedSubmissions = grades.filter(g => g.status === 'Error').length;
   
   // Get folder structure for troubleshooting
   useEffect(() => {
@@ -51,7 +90,14 @@ const ReviewStep: React.FC<ReviewStepProps> = ({
   
   return (
     <div className="space-y-6 animate-scale-in">
-      {isProcessing ? (
+      {isProcessing && jobProgress ? (
+        <GradingProgress
+          progress={jobProgress}
+          onPause={onPauseGrading}
+          onResume={onResumeGrading}
+          onCancel={onCancelGrading}
+        />
+      ) : isProcessing ? (
         <div className="flex flex-col items-center justify-center p-12 text-center">
           <div className="animate-spin rounded-full h-16 w-16 border-t-2 border-b-2 border-primary mb-4"></div>
           <h3 className="text-xl font-semibold mb-2">Processing Files</h3>
@@ -88,7 +134,7 @@ const ReviewStep: React.FC<ReviewStepProps> = ({
             </AlertDescription>
           </Alert>
           
-          {showTroubleshooting && (
+          {showTroubleshooting && !isBlind && (
             <Card>
               <CardContent className="pt-6 space-y-4">
                 <div className="space-y-2">
@@ -181,16 +227,58 @@ Students missing submissions: ${grades.filter(g => !g.file).length}
             grades={grades}
             onUpdateGrade={onUpdateGrade}
             onApproveAll={onApproveAll}
+            blindGrading={blindGrading}
+            onRevealIdentities={onRevealIdentities}
           />
         </>
       ) : (
-        <GradingPreview 
-          files={files}
-          assignmentData={assignmentData}
-          grades={grades}
-          onUpdateGrade={onUpdateGrade}
-          onApproveAll={onApproveAll}
-        />
+        <>
+          {failedSubmissions > 0 && onRetryFailed && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>{failedSubmissions} {failedSubmissions === 1 ? 'submission' : 'submissions'} could not be graded</AlertTitle>
+              <AlertDescription>
+                <p>
+                  Grading failed after several automatic retries, usually because the AI provider was busy or rate limiting.
+                  Other grades are kept; retrying only re-grades the failed students.
+                </p>
+                <Button variant="outline" size="sm" className="mt-2 gap-1.5" onClick={onRetryFailed}>
+                  <RefreshCw className="h-4 w-4" />
+                  Retry failed
+                </Button>
+              </AlertDescription>
+            </Alert>
+          )}
+          <UsageSummary grades={grades} budget={assignmentData?.runBudget} pseudonyms={pseudonyms} />
+          {onApplyCurve && (
+            <GradeDistribution
+              grades={grades}
+              assignmentData={assignmentData}
+              pseudonyms={pseudonyms}
+              onApplyCurve={onApplyCurve}
+            />
+          )}
+          <GradingPreview 
+            files={files}
+            assignmentData={assignmentData}
+            grades={grades}
+            onUpdateGrade={onUpdateGrade}
+            onApproveAll={onApproveAll}
+            blindGrading={blindGrading}
+            onRevealIdentities={onRevealIdentities}
+          />
+          {onStartModeration && (
+            <ModerationPanel
+              grades={grades}
+              assignmentData={assignmentData}
+              pseudonyms={pseudonyms}
+              onStartModeration={onStartModeration}
+              onSecondMark={onSecondMark}
+              onReconcile={onReconcileGrade}
+              onClearModeration={onClearModeration}
+            />
+          )}
+        </>
       )}
       
       {!isProcessing && (
@@ -198,7 +286,7 @@ Students missing submissions: ${grades.filter(g => !g.file).length}
           <Button
             onClick={onContinue}
             className="rounded-md bg-primary px-6 py-2 text-sm font-medium text-primary-foreground shadow-sm transition-all hover:bg-primary/90 hover:shadow-md disabled:pointer-events-none disabled:opacity-50"
-            disabled={grades.length === 0}
+            disabled={grades.length === 0 || isBlind}
           >
             Continue to Download
           </Button>
@@ -0,0 +1,268 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { AlertCircle, Check, ChevronsUpDown, UserX } from "lucide-react";
+import { toast } from "sonner";
+import type { StudentGrade } from "@/hooks/use-grading-workflow";
+import {
+  buildMatchProposals,
+  saveCourseMappings,
+  type ConfirmedMatch,
+  type ConfirmedMatches
+} from "@/utils/studentMappingUtils";
+
+interface StudentMatchResolverProps {
+  folderStructure: {[folder: string]: File[]};
+  gradebookStudents: StudentGrade[];
+  onConfirm: (matches: ConfirmedMatches) => void;
+  onBack: () => void;
+}
+
+interface StudentPickerProps {
+  students: StudentGrade[];
+  value: string | null;
+  onChange: (identifier: string | null) => void;
+}
+
+const UNMATCHED_VALUE = "__unmatched__";
+
+const StudentPicker: React.FC<StudentPickerProps> = ({ students, value, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const selected = value ? students.find(s => s.identifier === value) : null;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" role="combobox" aria-expanded={open} className="w-full justify-between font-normal">
+          <span className={`truncate ${selected ? '' : 'text-muted-foreground'}`}>
+            {selected ? selected.fullName : 'Unmatched'}
+          </span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[320px] p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search students..." />
+          <CommandList>
+            <CommandEmpty>No student found.</CommandEmpty>
+            <CommandGroup>
+              <CommandItem
+                value={UNMATCHED_VALUE}
+                onSelect={() => {
+                  onChange(null);
+                  setOpen(false);
+                }}
+              >
+                <UserX className="mr-2 h-4 w-4" />
+                Leave unmatched
+              </CommandItem>
+              {students.map(student => (
+                <CommandItem
+                  key={student.identifier}
+                  value={`${student.fullName} ${student.email || ''} ${student.identifier}`}
+                  onSelect={() => {
+                    onChange(student.identifier);
+                    setOpen(false);
+                  }}
+                >
+                  <Check className={`mr-2 h-4 w-4 ${value === student.identifier ? 'opacity-100' : 'opacity-0'}`} />
+                  <div className="min-w-0">
+                    <p className="truncate">{student.fullName}</p>
+                    {student.email && <p className="truncate text-xs text-muted-foreground">{student.email}</p>}
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+const getInitialCourseName = (): string => {
+  try {
+    const savedData = localStorage.getItem('moodle_grader_assignment_data');
+    if (savedData) {
+      return JSON.parse(savedData)?.courseName || '';
+    }
+  } catch (error) {
+    console.error("Error reading course name:", error);
+  }
+  return '';
+};
+
+const StudentMatchResolver: React.FC<StudentMatchResolverProps> = ({
+  folderStructure,
+  gradebookStudents,
+  onConfirm,
+  onBack
+}) => {
+  const [courseName, setCourseName] = useState(getInitialCourseName);
+  const [selections, setSelections] = useState<ConfirmedMatches>({});
+  const [editedKeys, setEditedKeys] = useState<string[]>([]);
+
+  const proposals = useMemo(
+    () => buildMatchProposals(folderStructure, gradebookStudents, courseName),
+    [folderStructure, gradebookStudents, courseName]
+  );
+
+  // Start from the proposed matches whenever the proposals change (e.g. a different course was entered),
+  // keeping any rows the instructor has already changed
+  useEffect(() => {
+    setSelections(prev => {
+      const next: ConfirmedMatches = {};
+      proposals.forEach(proposal => {
+        next[proposal.studentKey] = editedKeys.includes(proposal.studentKey) && prev[proposal.studentKey]
+          ? prev[proposal.studentKey]
+          : { identifier: proposal.proposed?.identifier || null, method: proposal.method };
+      });
+      return next;
+    });
+  }, [proposals, editedKeys]);
+
+  const handleChange = (studentKey: string, identifier: string | null) => {
+    const proposal = proposals.find(p => p.studentKey === studentKey);
+    const isProposed = (proposal?.proposed?.identifier || null) === identifier;
+    const selection: ConfirmedMatch = {
+      identifier,
+      method: identifier === null ? 'unmatched' : isProposed ? proposal.method : 'manual'
+    };
+    setSelections(prev => ({ ...prev, [studentKey]: selection }));
+    setEditedKeys(prev => prev.includes(studentKey) ? prev : [...prev, studentKey]);
+  };
+
+  // Gradebook rows claimed by more than one submission
+  const duplicateIdentifiers = useMemo(() => {
+    const counts: Record<string, number> = {};
+    Object.values(selections).forEach(selection => {
+      if (selection.identifier) {
+        counts[selection.identifier] = (counts[selection.identifier] || 0) + 1;
+      }
+    });
+    return new Set(Object.keys(counts).filter(id => counts[id] > 1));
+  }, [selections]);
+
+  const matchedCount = Object.values(selections).filter(s => s.identifier).length;
+
+  const handleConfirm = () => {
+    if (duplicateIdentifiers.size > 0) {
+      toast.error("Some gradebook students are assigned to more than one submission. Resolve the duplicates to continue.");
+      return;
+    }
+
+    saveCourseMappings(courseName, proposals, selections, gradebookStudents);
+    onConfirm(selections);
+    toast.success(`Confirmed ${matchedCount} of ${proposals.length} student matches`);
+  };
+
+  const getConfidenceBadge = (confidence: number, matcher: string) => {
+    if (confidence >= 0.9) {
+      return <Badge className="bg-green-600 hover:bg-green-500">{matcher} · {Math.round(confidence * 100)}%</Badge>;
+    }
+    if (confidence >= 0.6) {
+      return <Badge variant="secondary">{matcher} · {Math.round(confidence * 100)}%</Badge>;
+    }
+    return <Badge variant="destructive">{matcher}{confidence > 0 ? ` · ${Math.round(confidence * 100)}%` : ''}</Badge>;
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle className="text-2xl font-medium">Confirm Student Matches</CardTitle>
+        <CardDescription>
+          Check which gradebook student each submission belongs to. Low-confidence matches are listed first.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div className="space-y-2 w-full sm:w-72">
+            <Label htmlFor="mappingCourse">Course</Label>
+            <Input
+              id="mappingCourse"
+              value={courseName}
+              placeholder="e.g. BIO 101"
+              onChange={(e) => setCourseName(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">Confirmed matches are remembered for future assignments in this course.</p>
+          </div>
+          <Badge variant="outline">{matchedCount} / {proposals.length} matched</Badge>
+        </div>
+
+        {duplicateIdentifiers.size > 0 && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Duplicate matches</AlertTitle>
+            <AlertDescription>
+              {duplicateIdentifiers.size} gradebook student{duplicateIdentifiers.size !== 1 ? 's are' : ' is'} assigned to more than one submission.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {proposals.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No Moodle submission folders were found, so there is nothing to match.
+          </p>
+        ) : (
+          <div className="border rounded-md">
+            <div className="bg-muted px-4 py-2 border-b">
+              <div className="grid grid-cols-12 gap-4 text-sm font-medium">
+                <div className="col-span-4">Submission</div>
+                <div className="col-span-3">Proposed by</div>
+                <div className="col-span-5">Gradebook student</div>
+              </div>
+            </div>
+            <div className="divide-y max-h-[480px] overflow-y-auto">
+              {proposals.map(proposal => {
+                const selection = selections[proposal.studentKey];
+                const isDuplicate = selection?.identifier && duplicateIdentifiers.has(selection.identifier);
+
+                return (
+                  <div key={proposal.studentKey} className="px-4 py-3 grid grid-cols-12 gap-4 items-center">
+                    <div className="col-span-4 min-w-0">
+                      <p className="font-medium text-sm truncate">{proposal.studentName}</p>
+                      <p className="text-xs text-muted-foreground truncate" title={proposal.folders.join('\n')}>
+                        {proposal.participantId ? `Participant ${proposal.participantId} · ` : ''}
+                        {proposal.folders.length} folder{proposal.folders.length !== 1 ? 's' : ''}
+                      </p>
+                    </div>
+                    <div className="col-span-3 flex flex-wrap gap-1">
+                      {getConfidenceBadge(proposal.confidence, proposal.matcher)}
+                      {selection?.method === 'manual' && proposal.method !== 'manual' && (
+                        <Badge variant="outline">Changed</Badge>
+                      )}
+                    </div>
+                    <div className={`col-span-5 ${isDuplicate ? 'rounded-md ring-2 ring-destructive' : ''}`}>
+                      <StudentPicker
+                        students={gradebookStudents}
+                        value={selection?.identifier || null}
+                        onChange={(identifier) => handleChange(proposal.studentKey, identifier)}
+                      />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-between">
+          <Button variant="outline" onClick={onBack}>
+            Back
+          </Button>
+          <Button onClick={handleConfirm}>
+            Confirm Matches & Continue
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default StudentMatchResolver;
@@ -1,12 +1,15 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import FileUploader from "@/components/FileUploader";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { toast } from "sonner";
-import { uploadMoodleGradebook } from "@/utils/csv";
+import { uploadMoodleGradebook, type GradebookUploadOptions } from "@/utils/csv";
 import { Separator } from "@/components/ui/separator";
 import { FileSpreadsheet, CheckCircle, AlertCircle, Info, Folder, Settings } from "lucide-react";
 import SubmissionPreview from "./SubmissionPreview";
+import StudentMatchResolver from "./StudentMatchResolver";
+import { getSubmissionStudents, type ConfirmedMatches } from "@/utils/studentMappingUtils";
+import { getLmsAdapter, loadSelectedLms, saveSelectedLms, LMS_ADAPTERS, type LmsAdapter, type LmsId } from "@/utils/lms";
 import { GradebookInfo } from "./types";
 import {
   Select,
@@ -29,6 +32,7 @@ interface UploadStepProps {
   files: File[];
   onFilesSelected: (files: File[]) => void;
   onMoodleGradebookUploaded: (data: any) => void;
+  onMatchesConfirmed?: (matches: ConfirmedMatches) => void;
   onContinue: () => void;
 }
 
@@ -114,13 +118,15 @@ const FileUploaderSection = ({
   onFilesSelected, 
   onFolderStructureDetected,
   detectedStudents,
-  folderStructure 
+  folderStructure,
+  lmsAdapter
 }: {
   files: File[],
   onFilesSelected: (files: File[]) => void,
   onFolderStructureDetected: (structure: {[folder: string]: File[]}) => void,
   detectedStudents: string[],
-  folderStructure: {[folder: string]: File[]}
+  folderStructure: {[folder: string]: File[]},
+  lmsAdapter: LmsAdapter
 }) => {
   return (
     <Card className="p-4">
@@ -130,7 +136,8 @@ const FileUploaderSection = ({
         </div>
         
         <p className="text-sm text-muted-foreground">
-          Upload the Moodle submission ZIP file containing all student work.
+          Upload the {lmsAdapter.name} submission ZIP file containing all student work
+          ({lmsAdapter.submissionsHint}).
         </p>
         
         
@@ -144,15 +151,15 @@ const FileUploaderSection = ({
                 <p><span className="font-medium">Detected folders:</span> {Object.keys(folderStructure).length}</p>
                 <p><span className="font-medium">Root level files:</span> {folderStructure['root']?.length || 0}</p>
                 
-                {Object.keys(folderStructure).length <= 1 && files.length > 0 && (
+                {detectedStudents.length === 0 && files.length > 0 && (
                   <p className="text-amber-600 mt-1">
-                    ⚠️ No student folder structure detected. Please upload the Moodle ZIP file for proper student matching.
+                    ⚠️ No student submissions detected. Please upload the {lmsAdapter.name} ZIP file for proper student matching.
                   </p>
                 )}
                 
                 {detectedStudents.length > 0 && (
                   <div className="mt-2">
-                    <p className="font-medium">Detected student folders:</p>
+                    <p className="font-medium">Detected student submissions:</p>
                     <ul className="list-disc ml-5 mt-1">
                       {detectedStudents.slice(0, 5).map((student, idx) => (
                         <li key={idx}>{student}</li>
@@ -184,7 +191,15 @@ const GradebookUploaderSection = ({
   gradebookStudents,
   hasFirstLastColumns,
   csvHeaders,
-  onManualColumnSelect
+  onManualColumnSelect,
+  sheetNames,
+  selectedSheet,
+  onSheetChange,
+  lmsAdapter,
+  onLmsChange,
+  assignmentColumns,
+  selectedAssignmentColumn,
+  onAssignmentColumnChange
 }: {
   moodleFile: File | null,
   handleMoodleFileUpload: (e: React.ChangeEvent<HTMLInputElement>) => void,
@@ -193,7 +208,15 @@ const GradebookUploaderSection = ({
   gradebookStudents: string[],
   hasFirstLastColumns: boolean,
   csvHeaders: string[],
-  onManualColumnSelect: () => void
+  onManualColumnSelect: () => void,
+  sheetNames: string[],
+  selectedSheet: string,
+  onSheetChange: (sheetName: string) => void,
+  lmsAdapter: LmsAdapter,
+  onLmsChange: (lms: LmsId) => void,
+  assignmentColumns: string[],
+  selectedAssignmentColumn: string,
+  onAssignmentColumnChange: (column: string) => void
 }) => {
   return (
     <Card className="p-4 mb-6">
@@ -201,7 +224,7 @@ const GradebookUploaderSection = ({
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-2">
             <FileSpreadsheet className="h-5 w-5 text-primary" />
-            <h3 className="text-sm font-medium">Step 1: Upload Moodle Gradebook</h3>
+            <h3 className="text-sm font-medium">Step 1: Upload {lmsAdapter.name} Gradebook</h3>
           </div>
           {gradebookSuccess && (
             <span className="text-xs text-green-600 flex items-center">
@@ -214,18 +237,33 @@ const GradebookUploaderSection = ({
           )}
         </div>
         
+        <div className="flex items-center gap-2">
+          <span className="text-xs font-medium">Learning platform:</span>
+          <Select value={lmsAdapter.id} onValueChange={value => onLmsChange(value as LmsId)} disabled={isProcessingGradebook}>
+            <SelectTrigger className="h-8 w-[220px] text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LMS_ADAPTERS.map(adapter => (
+                <SelectItem key={adapter.id} value={adapter.id}>{adapter.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        
         <p className="text-sm text-muted-foreground">
-          Begin by uploading your Moodle gradebook CSV export. This ensures student information is correctly matched 
-          with their submissions and the downloaded file will exactly match your Moodle format.
+          Begin by uploading your {lmsAdapter.name} gradebook export ({lmsAdapter.gradebookHint}). This ensures student information
+          is correctly matched with their submissions and the downloaded file will exactly match your {lmsAdapter.name} format.
         </p>
         
         <div className="rounded-md bg-blue-50 p-3 mb-2">
           <div className="flex items-start">
             <Info className="h-4 w-4 text-blue-500 mt-0.5 mr-2" />
             <div className="text-xs text-blue-800">
-              <p className="font-medium">Supported file format:</p>
+              <p className="font-medium">Supported file formats:</p>
               <ul className="list-disc ml-5 mt-1">
-                <li><strong>CSV files (.csv)</strong> - CSV format from Moodle gradebook exports</li>
+                <li><strong>CSV files (.csv)</strong> - CSV format from {lmsAdapter.name} gradebook exports</li>
+                <li><strong>Excel (.xlsx, .xls) and OpenDocument (.ods) spreadsheets</strong> - downloaded back in the same format</li>
               </ul>
               <p className="mt-1"><strong>Important:</strong> The file should contain columns for student names and the assignment column where you want grades to appear.</p>
             </div>
@@ -237,7 +275,7 @@ const GradebookUploaderSection = ({
             <Info className="h-4 w-4 text-blue-500 mt-0.5 mr-2" />
             <div className="text-xs text-blue-800">
               <p className="font-medium">Important:</p>
-              <p>The system matches student names from the Moodle submission ZIP file with names in the gradebook.</p>
+              <p>The system matches students from the {lmsAdapter.name} submission ZIP file with the gradebook by {lmsAdapter.studentIdLabel}, then by name.</p>
               <p className="mt-1">Make sure your gradebook has both first and last name columns for best results.</p>
             </div>
           </div>
@@ -248,7 +286,7 @@ const GradebookUploaderSection = ({
             type="file"
             id="moodleFile"
             onChange={handleMoodleFileUpload}
-            accept=".csv"
+            accept=".csv,.xlsx,.xls,.ods"
             className="text-sm"
             disabled={isProcessingGradebook}
           />
@@ -265,6 +303,38 @@ const GradebookUploaderSection = ({
           )}
         </div>
         
+        {sheetNames.length > 1 && (
+          <div className="flex items-center gap-2">
+            <span className="text-xs font-medium">Sheet:</span>
+            <Select value={selectedSheet} onValueChange={onSheetChange} disabled={isProcessingGradebook}>
+              <SelectTrigger className="h-8 w-[220px] text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {sheetNames.map(sheetName => (
+                  <SelectItem key={sheetName} value={sheetName}>{sheetName}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        
+        {assignmentColumns.length > 1 && (
+          <div className="flex items-center gap-2">
+            <span className="text-xs font-medium">Grade column:</span>
+            <Select value={selectedAssignmentColumn} onValueChange={onAssignmentColumnChange} disabled={isProcessingGradebook}>
+              <SelectTrigger className="h-8 w-[320px] text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {assignmentColumns.map(column => (
+                  <SelectItem key={column} value={column}>{column}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        
         {gradebookSuccess && !hasFirstLastColumns && (
           <div className="rounded-md bg-amber-50 p-3 mb-2">
             <div className="flex items-start">
@@ -315,6 +385,7 @@ const UploadStep: React.FC<UploadStepProps> = ({
   files, 
   onFilesSelected, 
   onMoodleGradebookUploaded,
+  onMatchesConfirmed,
   onContinue 
 }) => {
   const [moodleFile, setMoodleFile] = useState<File | null>(null);
@@ -323,11 +394,23 @@ const UploadStep: React.FC<UploadStepProps> = ({
   const [folderStructure, setFolderStructure] = useState<{[folder: string]: File[]}>({});
   const [gradebookStudents, setGradebookStudents] = useState<string[]>([]);
   const [showPreview, setShowPreview] = useState(false);
-  const [detectedStudents, setDetectedStudents] = useState<string[]>([]);
+  const [showMatchResolver, setShowMatchResolver] = useState(false);
   const [hasFirstLastColumns, setHasFirstLastColumns] = useState<boolean>(false);
   const [csvHeaders, setCsvHeaders] = useState<string[]>([]);
   const [showManualColumnSelect, setShowManualColumnSelect] = useState(false);
   const [parsedGradebookData, setParsedGradebookData] = useState<any>(null);
+  const [sheetNames, setSheetNames] = useState<string[]>([]);
+  const [selectedSheet, setSelectedSheet] = useState<string>("");
+  const [lms, setLms] = useState<LmsId>(loadSelectedLms);
+  const [assignmentColumns, setAssignmentColumns] = useState<string[]>([]);
+  const [selectedAssignmentColumn, setSelectedAssignmentColumn] = useState<string>("");
+  const lmsAdapter = getLmsAdapter(lms);
+  
+  // Grouped the way the grading step will, so the names shown are the ones that get matched
+  const detectedStudents = useMemo(
+    () => Object.keys(getSubmissionStudents(folderStructure, lmsAdapter)),
+    [folderStructure, lmsAdapter]
+  );
   
   // Load previous file data from sessionStorage or localStorage
   const [previousFileInfo, setPreviousFileInfo] = useState<{
@@ -394,6 +477,32 @@ const UploadStep: React.FC<UploadStepProps> = ({
 
     const file = files[0];
     setMoodleFile(file);
+    setSheetNames([]);
+    setSelectedSheet("");
+    await processGradebookFile(file, { lms });
+  };
+
+  // Re-read the gradebook from another sheet of the same spreadsheet
+  const handleSheetChange = async (sheetName: string) => {
+    if (!moodleFile || sheetName === selectedSheet) return;
+    await processGradebookFile(moodleFile, { sheetName, lms });
+  };
+
+  // Re-read the gradebook for another assignment of a multi-assignment export
+  const handleAssignmentColumnChange = async (assignmentColumn: string) => {
+    if (!moodleFile || assignmentColumn === selectedAssignmentColumn) return;
+    await processGradebookFile(moodleFile, { sheetName: selectedSheet || undefined, assignmentColumn, lms });
+  };
+
+  const handleLmsChange = async (nextLms: LmsId) => {
+    setLms(nextLms);
+    saveSelectedLms(nextLms);
+    if (moodleFile) {
+      await processGradebookFile(moodleFile, { sheetName: selectedSheet || undefined, lms: nextLms });
+    }
+  };
+
+  const processGradebookFile = async (file: File, options: GradebookUploadOptions) => {
     setIsProcessingGradebook(true);
     setGradebookSuccess(false);
     
@@ -409,6 +518,9 @@ const UploadStep: React.FC<UploadStepProps> = ({
       if (fileExt === 'xlsx' || fileExt === 'xls') {
         console.log("Processing Excel format gradebook");
         toast.info("Processing Excel format gradebook...");
+      } else if (fileExt === 'ods') {
+        console.log("Processing OpenDocument format gradebook");
+        toast.info("Processing OpenDocument format gradebook...");
       } else if (fileExt === 'csv' || fileExt === 'txt') {
         console.log("Processing CSV format gradebook");
         toast.info("Processing CSV format gradebook...");
@@ -417,7 +529,11 @@ const UploadStep: React.FC<UploadStepProps> = ({
         toast.info("Attempting to detect gradebook format...");
       }
       
-      const gradebookData = await uploadMoodleGradebook(file);
+      const gradebookData = await uploadMoodleGradebook(file, options);
+      setSheetNames(gradebookData.sheetNames || []);
+      setSelectedSheet(gradebookData.sheetName || "");
+      setAssignmentColumns(gradebookData.assignmentColumns || []);
+      setSelectedAssignmentColumn(gradebookData.assignmentColumn || "");
       
       // Store raw parsed data for manual column selection
       setParsedGradebookData(gradebookData);
@@ -435,7 +551,7 @@ const UploadStep: React.FC<UploadStepProps> = ({
       
       onMoodleGradebookUploaded(gradebookData);
       setGradebookSuccess(true);
-      toast.success(`Moodle gradebook uploaded successfully with ${gradebookData.grades.length} students`);
+      toast.success(`${getLmsAdapter(gradebookData.lms).name} gradebook uploaded successfully with ${gradebookData.grades.length} students`);
       
       const studentNames = gradebookData.grades.map(g => g.fullName);
       setGradebookStudents(studentNames);
@@ -472,13 +588,13 @@ const UploadStep: React.FC<UploadStepProps> = ({
       }
       
     } catch (error) {
-      console.error("Error processing Moodle file:", error);
+      console.error("Error processing gradebook file:", error);
       const errMsg = error instanceof Error ? error.message : "Unknown error";
       
       if (errMsg.includes("Excel file") || errMsg.includes("XLSX")) {
-        toast.error("Error processing file. This appears to be an Excel file with format issues. Try using a different export format from Moodle.");
+        toast.error(`Error processing file. This appears to be an Excel file with format issues. Try using a different export format from ${lmsAdapter.name}.`);
       } else {
-        toast.error(`Error processing Moodle file: ${errMsg}`);
+        toast.error(`Error processing gradebook file: ${errMsg}`);
       }
       
       setGradebookSuccess(false);
@@ -490,24 +606,6 @@ const UploadStep: React.FC<UploadStepProps> = ({
   const handleFolderStructureDetected = (structure: {[folder: string]: File[]}) => {
     setFolderStructure(structure);
     console.log("Folder structure detected:", Object.keys(structure));
-    
-    const studentFolderNames = Object.keys(structure)
-      .filter(folder => folder !== 'root')
-      .map(folder => {
-        const cleanName = folder
-          .replace(/_assignsubmission_.*$/, '')
-          .replace(/_onlinetext_.*$/, '')
-          .replace(/_file_.*$/, '')
-          .replace(/^\d+SP\s+/, '')
-          .replace(/_\d+$/, '')
-          .replace(/[_\-]/g, ' ')
-          .trim();
-        
-        return cleanName;
-      });
-    
-    setDetectedStudents(studentFolderNames);
-    console.log("Detected student names from folders:", studentFolderNames);
   };
   
   const handleFilesSelected = (selectedFiles: File[]) => {
@@ -569,12 +667,27 @@ const UploadStep: React.FC<UploadStepProps> = ({
       return;
     }
     
-    if (filesWithFolderPaths > 0 || Object.keys(folderStructure).length > 1) {
+    // Flat downloads (Canvas, Blackboard) have no folders but still name each file after its student
+    if (filesWithFolderPaths > 0 || Object.keys(folderStructure).length > 1 || detectedStudents.length > 0) {
       setShowPreview(true);
     } else {
       onContinue();
     }
   };
+  
+  // With a gradebook loaded, matches are confirmed before moving on to the assignment details
+  const handlePreviewContinue = () => {
+    if (parsedGradebookData?.grades?.length > 0 && onMatchesConfirmed) {
+      setShowMatchResolver(true);
+    } else {
+      onContinue();
+    }
+  };
+  
+  const handleMatchesConfirmed = (matches: ConfirmedMatches) => {
+    onMatchesConfirmed?.(matches);
+    onContinue();
+  };
 
   return (
     <div className="space-y-8 animate-scale-in">
@@ -599,6 +712,14 @@ const UploadStep: React.FC<UploadStepProps> = ({
             hasFirstLastColumns={hasFirstLastColumns}
             csvHeaders={csvHeaders}
             onManualColumnSelect={() => setShowManualColumnSelect(true)}
+            sheetNames={sheetNames}
+            selectedSheet={selectedSheet}
+            onSheetChange={handleSheetChange}
+            lmsAdapter={lmsAdapter}
+            onLmsChange={handleLmsChange}
+            assignmentColumns={assignmentColumns}
+            selectedAssignmentColumn={selectedAssignmentColumn}
+            onAssignmentColumnChange={handleAssignmentColumnChange}
           />
           
           {hasPreviousFilesInfo ? (
@@ -646,15 +767,23 @@ const UploadStep: React.FC<UploadStepProps> = ({
               onFolderStructureDetected={handleFolderStructureDetected}
               detectedStudents={detectedStudents}
               folderStructure={folderStructure}
+              lmsAdapter={lmsAdapter}
             />
           )}
         </div>
+      ) : showMatchResolver ? (
+        <StudentMatchResolver
+          folderStructure={folderStructure}
+          gradebookStudents={parsedGradebookData?.grades || []}
+          onConfirm={handleMatchesConfirmed}
+          onBack={() => setShowMatchResolver(false)}
+        />
       ) : (
         <SubmissionPreview 
           files={files}
           folderStructure={folderStructure}
           gradebookStudents={gradebookStudents}
-          onContinue={onContinue}
+          onContinue={handlePreviewContinue}
         />
       )}
       
@@ -665,7 +794,7 @@ const UploadStep: React.FC<UploadStepProps> = ({
             className="rounded-md bg-primary px-6 py-2 text-sm font-medium text-primary-foreground shadow-sm transition-all hover:bg-primary/90 hover:shadow-md disabled:pointer-events-none disabled:opacity-50"
             disabled={files.length === 0}
           >
-            {(filesWithFolderPaths > 0 || Object.keys(folderStructure).length > 1) ? 'Preview Submissions' : 'Continue'}
+            {(filesWithFolderPaths > 0 || Object.keys(folderStructure).length > 1 || detectedStudents.length > 0) ? 'Preview Submissions' : 'Continue'}
           </Button>
         </div>
       )}
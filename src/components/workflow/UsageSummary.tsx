@@ -0,0 +1,110 @@
+import React, { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Coins } from "lucide-react";
+import type { StudentGrade } from "@/hooks/use-grading-workflow";
+import { summarizeUsage, formatCost, formatTokens } from "@/utils/usageTracking";
+import { getPseudonym } from "@/utils/blindGrading";
+
+interface UsageSummaryProps {
+  grades: StudentGrade[];
+  budget?: number | null;
+  pseudonyms?: Record<string, string>; // Shown instead of names while grading is blind
+}
+
+const UsageSummary: React.FC<UsageSummaryProps> = ({ grades, budget, pseudonyms }) => {
+  const [showStudents, setShowStudents] = useState(false);
+
+  const total = useMemo(() => summarizeUsage(grades), [grades]);
+  const studentsWithUsage = useMemo(
+    () => grades.filter(grade => grade.usage?.calls).sort((a, b) => b.usage.cost - a.usage.cost || b.usage.promptTokens - a.usage.promptTokens),
+    [grades]
+  );
+
+  if (total.calls === 0) return null;
+
+  const averageCost = studentsWithUsage.length > 0 ? total.cost / studentsWithUsage.length : 0;
+  const budgetPercentage = budget ? Math.min(100, Math.round((total.cost / budget) * 100)) : 0;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Coins className="h-5 w-5" />
+              AI Usage for This Run
+            </CardTitle>
+            <CardDescription>
+              {total.calls} AI {total.calls === 1 ? 'call' : 'calls'} using {total.model || 'unknown model'}. Costs are estimates based on list prices.
+            </CardDescription>
+          </div>
+          <Button variant="ghost" size="sm" onClick={() => setShowStudents(!showStudents)}>
+            {showStudents ? 'Hide students' : 'Per student'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+          <div>
+            <p className="text-xs text-muted-foreground">Prompt tokens</p>
+            <p className="text-lg font-semibold">{formatTokens(total.promptTokens)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Completion tokens</p>
+            <p className="text-lg font-semibold">{formatTokens(total.completionTokens)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Estimated cost</p>
+            <p className="text-lg font-semibold">{formatCost(total.cost)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Average per student</p>
+            <p className="text-lg font-semibold">{formatCost(averageCost)}</p>
+          </div>
+        </div>
+
+        {budget ? (
+          <div className="space-y-1">
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>Run budget</span>
+              <span>{formatCost(total.cost)} of {formatCost(budget)}</span>
+            </div>
+            <Progress value={budgetPercentage} className="h-2" />
+          </div>
+        ) : null}
+
+        {showStudents && (
+          <div className="border rounded-md max-h-[320px] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Student</TableHead>
+                  <TableHead className="text-right">Calls</TableHead>
+                  <TableHead className="text-right">Prompt</TableHead>
+                  <TableHead className="text-right">Completion</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {studentsWithUsage.map(grade => (
+                  <TableRow key={grade.identifier}>
+                    <TableCell>{pseudonyms ? getPseudonym(pseudonyms, grade) : grade.fullName}</TableCell>
+                    <TableCell className="text-right">{grade.usage.calls}</TableCell>
+                    <TableCell className="text-right">{formatTokens(grade.usage.promptTokens)}</TableCell>
+                    <TableCell className="text-right">{formatTokens(grade.usage.completionTokens)}</TableCell>
+                    <TableCell className="text-right">{formatCost(grade.usage.cost)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default UsageSummary;
@@ -3,6 +3,20 @@ import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './use-auth';
 import { AssignmentProfile } from '@/types/auth';
 import { toast } from 'sonner';
+import {
+  getLocalProfileVersions,
+  recordLocalProfileVersion,
+  deleteLocalProfileVersions,
+  type ProfileVersion
+} from '@/utils/profileVersions';
+import {
+  loadDemoProfiles,
+  markDemoProfilesMigrated,
+  planProfileImport,
+  type ConflictStrategy,
+  type ProfileImportItem,
+  type ProfileImportResult
+} from '@/utils/profileTransfer';
 
 export const useAssignmentProfiles = () => {
   const { authState } = useAuth();
@@ -49,11 +63,11 @@ export const useAssignmentProfiles = () => {
         return;
       }
       
-      // Normal Supabase flow for non-demo users
+      // Normal Supabase flow for non-demo users. RLS returns the user's own profiles
+      // plus those shared with their organizations.
       const { data, error } = await supabase
         .from('assignment_profiles')
         .select('*')
-        .eq('user_id', authState.user.id)
         .order('updated_at', { ascending: false });
       
       console.log("Profiles fetch result:", { 
@@ -79,7 +93,8 @@ export const useAssignmentProfiles = () => {
 
   const saveProfile = async (
     name: string, 
-    assignmentDetails: any
+    assignmentDetails: any,
+    organizationId: string | null = null
   ): Promise<{ success: boolean, id?: string }> => {
     if (!authState.user) {
       toast.error('You must be logged in to save profiles');
@@ -116,7 +131,9 @@ export const useAssignmentProfiles = () => {
           created_at: now,
           updated_at: now,
           assignment_details: assignmentDetails,
-          last_used: now
+          last_used: now,
+          organization_id: null,
+          current_version: recordLocalProfileVersion(newId, assignmentDetails).version
         };
         
         // Get existing profiles
@@ -147,6 +164,7 @@ export const useAssignmentProfiles = () => {
       // Regular Supabase pathway for non-demo users
       const payload = {
         user_id: authState.user.id,
+        organization_id: organizationId,
         name,
         created_at: now,
         updated_at: now,
@@ -165,7 +183,7 @@ export const useAssignmentProfiles = () => {
         return { success: false };
       }
 
-      toast.success('Assignment profile saved');
+      toast.success(organizationId ? 'Assignment profile shared with your team' : 'Assignment profile saved');
       fetchProfiles(); // Refresh the list
       return { success: true, id: data[0].id };
     } catch (err) {
@@ -209,10 +227,15 @@ export const useAssignmentProfiles = () => {
             return false;
           }
           
-          // Update the profile
+          // Update the profile, keeping the previous details in its history
+          const previous = demoProfiles[profileIndex];
+          const version = updates.assignment_details
+            ? recordLocalProfileVersion(id, updates.assignment_details as Record<string, unknown>, previous.assignment_details).version
+            : previous.current_version;
           demoProfiles[profileIndex] = {
-            ...demoProfiles[profileIndex],
+            ...previous,
             ...updates,
+            current_version: version,
             updated_at: now
           };
           
@@ -231,15 +254,15 @@ export const useAssignmentProfiles = () => {
         }
       }
       
-      // Regular Supabase update for non-demo users
+      // Regular Supabase update for non-demo users. RLS limits this to the profile's owner
+      // or, for shared profiles, the organization's owners and instructors.
       const { error } = await supabase
         .from('assignment_profiles')
         .update({
           ...updates,
           updated_at: now
         })
-        .eq('id', id)
-        .eq('user_id', authState.user.id); // Security check
+        .eq('id', id);
 
       if (error) {
         console.error('Error updating profile:', error);
@@ -257,6 +280,177 @@ export const useAssignmentProfiles = () => {
     }
   };
 
+  /**
+   * Share a profile with an organization, or make it personal again with null
+   */
+  const shareProfile = async (id: string, organizationId: string | null): Promise<boolean> => {
+    if (!authState.user || authState.user.id === 'demo-user-id') {
+      toast.error('Create an account to share profiles with a team');
+      return false;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('assignment_profiles')
+        .update({ organization_id: organizationId })
+        .eq('id', id);
+
+      if (error) {
+        console.error('Error sharing profile:', error);
+        toast.error('Failed to change who can use this profile');
+        return false;
+      }
+
+      toast.success(organizationId ? 'Profile shared with your team' : 'Profile is now personal');
+      fetchProfiles();
+      return true;
+    } catch (err) {
+      console.error('Error in shareProfile:', err);
+      toast.error('Failed to change who can use this profile');
+      return false;
+    }
+  };
+
+  /**
+   * Saved versions of a profile, newest first
+   */
+  const fetchProfileVersions = async (id: string): Promise<ProfileVersion[]> => {
+    if (!authState.user) return [];
+
+    if (authState.user.id === 'demo-user-id') {
+      return getLocalProfileVersions(id);
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('assignment_profile_versions')
+        .select('*')
+        .eq('profile_id', id)
+        .order('version', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching profile versions:', error);
+        toast.error('Failed to load profile history');
+        return [];
+      }
+
+      return (data || []).map(version => ({
+        ...version,
+        assignment_details: version.assignment_details as Record<string, unknown>
+      }));
+    } catch (err) {
+      console.error('Error in fetchProfileVersions:', err);
+      toast.error('Failed to load profile history');
+      return [];
+    }
+  };
+
+  /**
+   * Roll a profile back to an earlier version. The old details are saved as a new version,
+   * so the versions after it stay in the history.
+   */
+  const restoreProfileVersion = async (id: string, version: ProfileVersion): Promise<boolean> => {
+    return updateProfile(id, { assignment_details: version.assignment_details as AssignmentProfile['assignment_details'] });
+  };
+
+  /**
+   * Apply an import plan from planProfileImport to the user's personal profiles
+   */
+  const importProfiles = async (items: ProfileImportItem[]): Promise<ProfileImportResult> => {
+    const result: ProfileImportResult = { created: 0, updated: 0, skipped: 0 };
+    if (!authState.user) {
+      toast.error('You must be logged in to import profiles');
+      return result;
+    }
+
+    const toCreate = items.filter(item => item.action === 'create');
+    const toUpdate = items.filter(item => item.action === 'update' && item.existingId);
+    result.skipped = items.length - toCreate.length - toUpdate.length;
+    const now = new Date().toISOString();
+
+    try {
+      if (authState.user.id === 'demo-user-id') {
+        const demoProfiles = JSON.parse(localStorage.getItem('demo_profiles') || '[]');
+
+        toCreate.forEach((item, index) => {
+          const id = `profile-${Date.now()}-${index}`;
+          demoProfiles.push({
+            id,
+            user_id: authState.user.id,
+            name: item.name,
+            created_at: now,
+            updated_at: now,
+            assignment_details: item.assignment_details,
+            last_used: null,
+            organization_id: null,
+            current_version: recordLocalProfileVersion(id, item.assignment_details).version
+          });
+        });
+
+        toUpdate.forEach(item => {
+          const profile = demoProfiles.find((p: AssignmentProfile) => p.id === item.existingId);
+          if (!profile) return;
+          profile.current_version = recordLocalProfileVersion(profile.id, item.assignment_details, profile.assignment_details).version;
+          profile.assignment_details = item.assignment_details;
+          profile.updated_at = now;
+        });
+
+        localStorage.setItem('demo_profiles', JSON.stringify(demoProfiles));
+        setProfiles(demoProfiles);
+        return { ...result, created: toCreate.length, updated: toUpdate.length };
+      }
+
+      if (toCreate.length > 0) {
+        const { error } = await supabase
+          .from('assignment_profiles')
+          .insert(toCreate.map(item => ({
+            user_id: authState.user.id,
+            name: item.name,
+            assignment_details: item.assignment_details as AssignmentProfile['assignment_details']
+          })));
+
+        if (error) throw error;
+        result.created = toCreate.length;
+      }
+
+      for (const item of toUpdate) {
+        const { error } = await supabase
+          .from('assignment_profiles')
+          .update({ assignment_details: item.assignment_details as AssignmentProfile['assignment_details'], updated_at: now })
+          .eq('id', item.existingId);
+
+        if (error) {
+          console.error(`Error overwriting profile "${item.name}":`, error);
+          result.skipped++;
+        } else {
+          result.updated++;
+        }
+      }
+    } catch (err) {
+      console.error('Error importing profiles:', err);
+      toast.error('Failed to import profiles');
+    }
+
+    fetchProfiles();
+    return result;
+  };
+
+  /**
+   * Copy the profiles saved in demo mode on this device into the signed-in account
+   */
+  const migrateDemoProfiles = async (strategy: ConflictStrategy = 'rename'): Promise<ProfileImportResult | null> => {
+    if (!authState.user || authState.user.id === 'demo-user-id') return null;
+
+    const demoProfiles = loadDemoProfiles();
+    const plan = planProfileImport(demoProfiles, profiles.filter(profile => !profile.organization_id), strategy);
+    const result = await importProfiles(plan);
+
+    if (result.created + result.updated + result.skipped === demoProfiles.length) {
+      markDemoProfilesMigrated(authState.user.id);
+    }
+    return result;
+  };
+
   const deleteProfile = async (id: string): Promise<boolean> => {
     if (!authState.user) {
       toast.error('You must be logged in to delete profiles');
@@ -290,6 +484,7 @@ export const useAssignmentProfiles = () => {
           
           // Save back to localStorage
           localStorage.setItem('demo_profiles', JSON.stringify(filteredProfiles));
+          deleteLocalProfileVersions(id);
           
           // Update state
           setProfiles(filteredProfiles);
@@ -378,12 +573,19 @@ export const useAssignmentProfiles = () => {
 
   return {
     profiles,
+    personalProfiles: profiles.filter(profile => !profile.organization_id),
+    sharedProfiles: profiles.filter(profile => !!profile.organization_id),
     isLoading,
     error,
     fetchProfiles,
     saveProfile,
     updateProfile,
     deleteProfile,
+    shareProfile,
+    fetchProfileVersions,
+    restoreProfileVersion,
+    importProfiles,
+    migrateDemoProfiles,
     updateLastUsed
   };
 };
\ No newline at end of file
@@ -278,10 +278,10 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     }
 
     try {
-      const newCount = authState.profile.grades_used + count;
-      
       // Handle demo user separately
       if (authState.user.id === 'demo-user-id') {
+        const newCount = authState.profile.grades_used + count;
+        
         // Just update the local state for demo user
         setAuthState({
           ...authState,
@@ -299,11 +299,12 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
         return { error: null };
       }
       
-      // Normal Supabase update
-      const { error } = await supabase
+      // The proxy counts grades as it reserves quota, so only pick up the server's total
+      const { data: profile, error } = await supabase
         .from('users')
-        .update({ grades_used: newCount })
-        .eq('id', authState.user.id);
+        .select('*')
+        .eq('id', authState.user.id)
+        .single();
       
       if (error) {
         return { error: error.message };
@@ -312,7 +313,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       // Update local state
       setAuthState({
         ...authState,
-        profile: { ...authState.profile, grades_used: newCount }
+        profile
       });
       
       return { error: null };
@@ -0,0 +1,202 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './use-auth';
+import { OrganizationMember, OrganizationMembership, OrganizationRole } from '@/types/auth';
+import { toast } from 'sonner';
+
+export const useOrganizations = () => {
+  const { authState } = useAuth();
+  const [organizations, setOrganizations] = useState<OrganizationMembership[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Organizations need real accounts to add members to, so the demo user has none
+  const isDemoUser = authState.user?.id === 'demo-user-id';
+
+  const fetchOrganizations = async () => {
+    if (!authState.user || isDemoUser) {
+      setOrganizations([]);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const { data: memberships, error: membershipError } = await supabase
+        .from('organization_members')
+        .select('*')
+        .eq('user_id', authState.user.id);
+
+      if (membershipError) throw membershipError;
+
+      if (!memberships || memberships.length === 0) {
+        setOrganizations([]);
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from('organizations')
+        .select('*')
+        .in('id', memberships.map(membership => membership.organization_id))
+        .order('name');
+
+      if (error) throw error;
+
+      setOrganizations((data || []).map(organization => ({
+        ...organization,
+        role: memberships.find(membership => membership.organization_id === organization.id)?.role || 'ta'
+      })));
+    } catch (err) {
+      console.error('Error fetching organizations:', err);
+      setError('Failed to fetch organizations');
+      toast.error('Failed to load your teams');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const createOrganization = async (name: string): Promise<{ success: boolean, id?: string }> => {
+    if (!authState.user || isDemoUser) {
+      toast.error('Create an account to set up a team');
+      return { success: false };
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('create_organization', { p_name: name });
+
+      if (error) {
+        console.error('Error creating organization:', error);
+        toast.error('Failed to create team');
+        return { success: false };
+      }
+
+      toast.success(`Created team "${name}"`);
+      fetchOrganizations();
+      return { success: true, id: data };
+    } catch (err) {
+      console.error('Error in createOrganization:', err);
+      toast.error('Failed to create team');
+      return { success: false };
+    }
+  };
+
+  const getMembers = async (organizationId: string): Promise<OrganizationMember[]> => {
+    try {
+      const { data, error } = await supabase.rpc('get_organization_members', { p_organization_id: organizationId });
+
+      if (error) {
+        console.error('Error fetching organization members:', error);
+        toast.error('Failed to load team members');
+        return [];
+      }
+
+      return data || [];
+    } catch (err) {
+      console.error('Error in getMembers:', err);
+      toast.error('Failed to load team members');
+      return [];
+    }
+  };
+
+  const addMember = async (organizationId: string, email: string, role: OrganizationRole): Promise<boolean> => {
+    try {
+      const { error } = await supabase.rpc('add_organization_member', {
+        p_organization_id: organizationId,
+        p_email: email,
+        p_role: role
+      });
+
+      if (error) {
+        console.error('Error adding organization member:', error);
+        // Generic on purpose: the message must not reveal whether the email has an account
+        toast.error(`Could not add ${email}. They need to sign up before they can join the team.`);
+        return false;
+      }
+
+      toast.success(`Added ${email} to the team`);
+      return true;
+    } catch (err) {
+      console.error('Error in addMember:', err);
+      toast.error('Failed to add team member');
+      return false;
+    }
+  };
+
+  const updateMemberRole = async (organizationId: string, userId: string, role: OrganizationRole): Promise<boolean> => {
+    try {
+      const { error } = await supabase
+        .from('organization_members')
+        .update({ role })
+        .eq('organization_id', organizationId)
+        .eq('user_id', userId);
+
+      if (error) {
+        console.error('Error updating member role:', error);
+        toast.error(error.message || 'Failed to change role');
+        return false;
+      }
+
+      toast.success('Role updated');
+      if (userId === authState.user?.id) {
+        fetchOrganizations();
+      }
+      return true;
+    } catch (err) {
+      console.error('Error in updateMemberRole:', err);
+      toast.error('Failed to change role');
+      return false;
+    }
+  };
+
+  // Also used to leave an organization (removing yourself)
+  const removeMember = async (organizationId: string, userId: string): Promise<boolean> => {
+    try {
+      const { error } = await supabase
+        .from('organization_members')
+        .delete()
+        .eq('organization_id', organizationId)
+        .eq('user_id', userId);
+
+      if (error) {
+        console.error('Error removing organization member:', error);
+        toast.error(error.message || 'Failed to remove team member');
+        return false;
+      }
+
+      if (userId === authState.user?.id) {
+        toast.success('You left the team');
+        setOrganizations(organizations.filter(organization => organization.id !== organizationId));
+      } else {
+        toast.success('Team member removed');
+      }
+      return true;
+    } catch (err) {
+      console.error('Error in removeMember:', err);
+      toast.error('Failed to remove team member');
+      return false;
+    }
+  };
+
+  // Load organizations when the user changes
+  useEffect(() => {
+    if (authState.user) {
+      fetchOrganizations();
+    } else {
+      setOrganizations([]);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [authState.user]);
+
+  return {
+    organizations,
+    isLoading,
+    error,
+    fetchOrganizations,
+    createOrganization,
+    getMembers,
+    addMember,
+    updateMemberRole,
+    removeMember
+  };
+};
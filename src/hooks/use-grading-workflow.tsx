@@ -1,13 +1,73 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { toast } from "sonner";
-import { clearFileCache } from "@/utils/fileUtils";
-import { uploadMoodleGradebook, generateMoodleCSV } from "@/utils/csv";
+import { clearFileCache, findBestSubmissionFile } from "@/utils/fileUtils";
+import {
+  uploadMoodleGradebook,
+  generateMoodleCSV,
+  parseCSV,
+  decodeCSVBytes,
+  DEFAULT_CSV_DIALECT,
+  type GradebookFileFormat,
+  type CSVDialect
+} from "@/utils/csv";
 import type { AssignmentFormData } from "@/components/assignment/AssignmentFormTypes";
 import { useFileProcessing } from "./useFileProcessing";
 import { useGradePersistence } from "./useGradePersistence";
 import { useGradeManagement } from "./useGradeManagement";
 import { findBestStudentMatch } from "./useStudentMatching";
+import type { StudentMatchMethod } from "@/utils/nameMatchingUtils";
+import { findStudentByLmsId, getLmsAdapter, type LmsId } from "@/utils/lms";
+import {
+  loadConfirmedMatches,
+  saveConfirmedMatches,
+  clearConfirmedMatches,
+  findSubmissionKeyForGrade,
+  type ConfirmedMatches
+} from "@/utils/studentMappingUtils";
 import { useAuth } from "./auth/use-auth";
+import {
+  createGradingJobController,
+  buildJobKey,
+  loadJobProgress,
+  saveJobProgress,
+  clearJobProgress,
+  runWithAdaptiveConcurrency,
+  type GradingJobController,
+  type GradingJobProgress
+} from "@/utils/gradingJob";
+import { isQuotaError } from "@/utils/requestRetry";
+import {
+  loadBlindGradingState,
+  saveBlindGradingState,
+  clearBlindGradingState,
+  createBlindGradingState,
+  isBlindGradingActive,
+  type BlindGradingState
+} from "@/utils/blindGrading";
+import {
+  selectModerationSample,
+  startModeration,
+  recordSecondMark,
+  reconcileGrade,
+  clearModeration,
+  saveModerationSettings,
+  type ModerationRecord,
+  type ModerationSettings
+} from "@/utils/moderation";
+import { applyCurveToStudent, previewCurve, type GradeCurve } from "@/utils/gradeStatistics";
+import type { CriterionScore } from "@/utils/rubricUtils";
+import type { GradingSuggestions } from "@/utils/gradingUtils";
+import { addUsage, takeFileUsage, summarizeUsage, recordAccountUsage, formatCost, type TokenUsage } from "@/utils/usageTracking";
+import {
+  createSessionId,
+  buildSessionName,
+  getSessionProfileVersion,
+  toStorableGrades,
+  createGradeEdit,
+  getGradingSession,
+  saveGradingSession,
+  type GradeEdit
+} from "@/utils/sessionUtils";
 
 export interface StudentGrade {
   identifier: string;
@@ -22,6 +82,11 @@ export interface StudentGrade {
   firstName?: string; // Added for better name matching
   lastName?: string;  // Added for better name matching
   contentPreview?: string; // Preview of the submission content
+  criteriaScores?: CriterionScore[]; // Per-criterion breakdown when the rubric is structured
+  suggestions?: GradingSuggestions; // AI notes for suggestions-only mode (grade is entered manually)
+  matchMethod?: StudentMatchMethod; // How the submission was joined to its gradebook row
+  usage?: TokenUsage; // Tokens and estimated cost of the AI calls (OCR and grading) for this student
+  moderation?: ModerationRecord; // Second marking, when the script is in the moderation sample
 }
 
 export interface MoodleGradebookData {
@@ -29,6 +94,12 @@ export interface MoodleGradebookData {
   grades: StudentGrade[];
   assignmentColumn?: string; // The column name for the assignment grade
   feedbackColumn?: string;   // The column name for the feedback
+  fileFormat?: GradebookFileFormat; // Format of the uploaded gradebook, used again for export
+  sheetName?: string;        // Sheet the grades were read from (spreadsheet gradebooks)
+  csvDialect?: CSVDialect;   // Delimiter, line endings and encoding to write a CSV gradebook back with
+  lms?: LmsId;               // Platform the gradebook came from, which decides how submissions are matched
+  assignmentColumns?: string[]; // Grade columns of a multi-assignment export
+  preambleRows?: Record<string, string>[]; // Non-student rows after the header, written back on export
 }
 
 export function useGradingWorkflow() {
@@ -45,6 +116,240 @@ export function useGradingWorkflow() {
   const [sampleDataLoaded, setSampleDataLoaded] = useState(false);
   const [moodleGradebook, setMoodleGradebook] = useState<MoodleGradebookData | null>(null);
   const [folderStructure, setFolderStructure] = useState<{[key: string]: File[]}>({});
+  const [sessionId, setSessionId] = useState<string | null>(() => localStorage.getItem('moodle_grader_session_id'));
+  const [confirmedMatches, setConfirmedMatches] = useState<ConfirmedMatches>(loadConfirmedMatches);
+  const [jobProgress, setJobProgress] = useState<GradingJobProgress | null>(null);
+  const [blindGrading, setBlindGrading] = useState<BlindGradingState | null>(loadBlindGradingState);
+  const jobControllerRef = useRef<GradingJobController | null>(null);
+  
+  // Latest grades, for long-running jobs that must not write back the list they started with
+  const gradesRef = useRef(grades);
+  gradesRef.current = grades;
+  
+  /**
+   * Save the current run to the grading session history in IndexedDB
+   */
+  const saveSession = async (sessionGrades: StudentGrade[], newEdits: GradeEdit[] = []) => {
+    try {
+      const existing = sessionId ? await getGradingSession(sessionId) : null;
+      const id = existing?.id || createSessionId();
+      const now = new Date().toISOString();
+      
+      await saveGradingSession({
+        id,
+        name: existing?.name || buildSessionName(assignmentData),
+        createdAt: existing?.createdAt || now,
+        updatedAt: now,
+        assignmentData: assignmentData || existing?.assignmentData || null,
+        gradebook: moodleGradebook
+          ? {
+            headers: moodleGradebook.headers,
+            assignmentColumn: moodleGradebook.assignmentColumn,
+            feedbackColumn: moodleGradebook.feedbackColumn,
+            fileFormat: moodleGradebook.fileFormat,
+            sheetName: moodleGradebook.sheetName,
+            csvDialect: moodleGradebook.csvDialect,
+            lms: moodleGradebook.lms,
+            preambleRows: moodleGradebook.preambleRows
+          }
+          : existing?.gradebook || null,
+        grades: toStorableGrades(sessionGrades),
+        edits: [...(existing?.edits || []), ...newEdits],
+        duplicatedFrom: existing?.duplicatedFrom,
+        profileVersion: getSessionProfileVersion(assignmentData) || existing?.profileVersion || null
+      });
+      
+      if (id !== sessionId) {
+        setSessionId(id);
+        localStorage.setItem('moodle_grader_session_id', id);
+      }
+    } catch (error) {
+      console.error("Error saving grading session to history:", error);
+    }
+  };
+  
+  const pauseGrading = () => {
+    if (!jobControllerRef.current) return;
+    jobControllerRef.current.pause();
+    setJobProgress(prev => prev ? { ...prev, status: 'paused' } : prev);
+    toast.info("Grading paused. Submissions already in progress will finish.");
+  };
+  
+  const resumeGrading = () => {
+    if (!jobControllerRef.current) return;
+    jobControllerRef.current.resume();
+    setJobProgress(prev => prev ? { ...prev, status: 'running' } : prev);
+  };
+  
+  const cancelGrading = () => {
+    if (!jobControllerRef.current) return;
+    jobControllerRef.current.cancel();
+    toast.info("Cancelling grading after the submissions in progress finish...");
+  };
+  
+  /**
+   * Grade again only the students whose grading failed, keeping everyone else's grades
+   */
+  const retryFailedGrades = async () => {
+    const failedGrades = grades.filter(grade => grade.status === 'Error');
+    if (failedGrades.length === 0 || !assignmentData || gradeManagement.isProcessingGrades) return;
+    
+    const lmsAdapter = getLmsAdapter(moodleGradebook?.lms);
+    const { files: studentFiles, participantIds, studentNames } = fileProcessing.groupFilesByStudent(folderStructure, lmsAdapter);
+    const retryTargets: Record<string, StudentGrade> = {};
+    let missingFiles = 0;
+    
+    failedGrades.forEach(grade => {
+      const studentKey = findSubmissionKeyForGrade(grade, studentFiles, participantIds, studentNames, confirmedMatches, lmsAdapter);
+      if (studentKey) {
+        retryTargets[studentKey] = grade;
+      } else {
+        missingFiles++;
+      }
+    });
+    
+    const studentKeys = Object.keys(retryTargets);
+    if (studentKeys.length === 0) {
+      toast.error("The submission files for the failed students are no longer loaded. Upload them again to retry.");
+      return;
+    }
+    if (missingFiles > 0) {
+      toast.warning(`${missingFiles} failed ${missingFiles === 1 ? 'student has' : 'students have'} no loaded submission files and will be skipped`);
+    }
+    
+    gradeManagement.setIsProcessingGrades(true);
+    toast.info(`Retrying ${studentKeys.length} failed ${studentKeys.length === 1 ? 'submission' : 'submissions'}...`);
+    
+    const controller = createGradingJobController();
+    jobControllerRef.current = controller;
+    
+    const now = new Date().toISOString();
+    const progress: GradingJobProgress = {
+      jobKey: `retry::${now}`,
+      status: 'running',
+      students: {},
+      completedGrades: {},
+      startedAt: now,
+      updatedAt: now
+    };
+    studentKeys.forEach(studentKey => {
+      progress.students[studentKey] = 'queued';
+    });
+    
+    // Retries are short, so their progress is only shown, not saved for resuming
+    const publishProgress = () => {
+      progress.status = controller.isPaused() ? 'paused' : 'running';
+      progress.updatedAt = new Date().toISOString();
+      setJobProgress({ ...progress, students: { ...progress.students } });
+    };
+    publishProgress();
+    
+    const retriedGrades: Record<string, StudentGrade> = {}; // Keyed by gradebook identifier
+    const runBudget = assignmentData.runBudget || 0;
+    
+    const retryStudent = async (studentKey: string) => {
+      const failedGrade = retryTargets[studentKey];
+      progress.students[studentKey] = 'in-progress';
+      publishProgress();
+      
+      try {
+        const studentInfo = {
+          identifier: failedGrade.identifier,
+          fullName: failedGrade.fullName,
+          firstName: failedGrade.firstName || '',
+          lastName: failedGrade.lastName || '',
+          email: failedGrade.email
+        };
+        
+        const processingResult = await fileProcessing.processFolderFiles(studentFiles[studentKey], studentInfo);
+        if (!processingResult.submissionFile) {
+          throw new Error("No submission file found");
+        }
+        
+        const gradeResult = await gradeManagement.processSubmissionWithAI(
+          studentInfo,
+          processingResult,
+          assignmentData,
+          failedGrade.originalRow || {},
+          moodleGradebook?.grades
+        );
+        
+        const usage = addUsage(takeFileUsage(studentFiles[studentKey]), gradeResult.usage);
+        retriedGrades[failedGrade.identifier] = { ...gradeResult, matchMethod: failedGrade.matchMethod, usage };
+        recordAccountUsage(authState.user?.id, usage);
+        progress.completedGrades[studentKey] = { ...gradeResult, file: undefined };
+        progress.students[studentKey] = gradeResult.status === 'Error' ? 'failed' : 'done';
+        
+        const runCost = summarizeUsage([...gradesRef.current, ...Object.values(retriedGrades)]).cost;
+        if (runBudget > 0 && runCost >= runBudget && !controller.isCancelled()) {
+          controller.cancel();
+          toast.warning(`Run budget of ${formatCost(runBudget)} reached (${formatCost(runCost)} spent). Stopping the retry.`);
+        }
+      } catch (error) {
+        console.error(`Error retrying student ${studentKey}:`, error);
+        progress.students[studentKey] = 'failed';
+        
+        if (isQuotaError(error) && !controller.isCancelled()) {
+          controller.cancel();
+          toast.error(error.message);
+        }
+      }
+      
+      publishProgress();
+    };
+    
+    try {
+      await runWithAdaptiveConcurrency(studentKeys, retryStudent, controller, {
+        onConcurrencyChange: concurrency => {
+          progress.concurrency = concurrency;
+          publishProgress();
+        }
+      });
+      
+      progress.status = controller.isCancelled() ? 'cancelled' : 'completed';
+      setJobProgress({ ...progress, students: { ...progress.students } });
+      
+      // Merge into the latest grades, so approvals and edits made during the retry are kept
+      const mergeRetried = (current: StudentGrade[]) => current.map(grade =>
+        grade.status === 'Error' && retriedGrades[grade.identifier] ? retriedGrades[grade.identifier] : grade
+      );
+      const updatedGrades = mergeRetried(gradesRef.current);
+      setGrades(prev => mergeRetried(prev));
+      localStorage.setItem('moodle_grader_grades', JSON.stringify(updatedGrades));
+      saveSession(updatedGrades);
+      
+      const recovered = Object.values(retriedGrades).filter(grade => grade.status !== 'Error');
+      const stillFailed = updatedGrades.filter(grade => grade.status === 'Error').length;
+      
+      const newlyGradedCount = recovered.filter(grade => grade.grade !== null || grade.suggestions).length;
+      if (authState.user && authState.profile && newlyGradedCount > 0) {
+        incrementGradesUsed(newlyGradedCount)
+          .then(({ error }) => {
+            if (error) {
+              console.error("Failed to update grades usage count:", error);
+            }
+          });
+      }
+      
+      if (stillFailed > 0) {
+        toast.warning(`Regraded ${recovered.length} ${recovered.length === 1 ? 'student' : 'students'}; ${stillFailed} still failed`);
+      } else {
+        toast.success(`Regraded ${recovered.length} ${recovered.length === 1 ? 'student' : 'students'} successfully`);
+      }
+    } catch (error) {
+      console.error("Error retrying failed grades:", error);
+      toast.error("Error retrying failed grades. Please try again.");
+    } finally {
+      jobControllerRef.current = null;
+      gradeManagement.setIsProcessingGrades(false);
+    }
+  };
+  
+  const handleMatchesConfirmed = (matches: ConfirmedMatches) => {
+    setConfirmedMatches(matches);
+    saveConfirmedMatches(matches);
+    console.log(`Confirmed ${Object.keys(matches).length} student matches`);
+  };
   
   const preloadedGrades = (data: MoodleGradebookData) => {
     const firstNameColumn = data.headers.findIndex(h => 
@@ -76,6 +381,11 @@ export function useGradingWorkflow() {
     }
     
     setMoodleGradebook(data);
+    persistence.saveGradebookFormat(data);
+    
+    // Matches confirmed against a previous gradebook no longer apply
+    setConfirmedMatches({});
+    clearConfirmedMatches();
     console.log("Preloaded Moodle gradebook data:", data);
     console.log("Student names in gradebook:", data.grades.map(g => g.fullName));
     
@@ -101,7 +411,7 @@ export function useGradingWorkflow() {
       // @ts-ignore
       window._fileProcessingDebug.folderStructure = structure;
       // @ts-ignore
-      window._fileProcessingDebug.studentFiles = fileProcessing.groupFilesByStudent(structure);
+      window._fileProcessingDebug.studentFiles = fileProcessing.groupFilesByStudent(structure, getLmsAdapter(moodleGradebook?.lms));
       
       // Save files to sessionStorage (we can't store File objects in localStorage)
       // Instead, we'll just save the count to know files were uploaded
@@ -134,6 +444,15 @@ export function useGradingWorkflow() {
         }
       }
       
+      // Restore the gradebook format so a reopened session can still be exported
+      if (currentStep >= 3 && !moodleGradebook) {
+        const savedGradebook = persistence.loadGradebookFormat();
+        if (savedGradebook) {
+          setMoodleGradebook({ ...savedGradebook, grades: [] });
+          console.log("Restored gradebook format from localStorage");
+        }
+      }
+      
       // Also check for file uploads
       const fileCount = sessionStorage.getItem('moodle_grader_file_count');
       if (currentStep >= 2 && fileCount && files.length === 0) {
@@ -149,7 +468,7 @@ export function useGradingWorkflow() {
     } catch (error) {
       console.error("Error restoring data from localStorage:", error);
     }
-  }, [currentStep, assignmentData, grades.length, files.length]);
+  }, [currentStep, assignmentData, grades.length, files.length, moodleGradebook]);
 
   // Process grading when advancing to step 3
   useEffect(() => {
@@ -195,7 +514,8 @@ export function useGradingWorkflow() {
           }
           
           // Get student files grouped across folders
-          const studentFiles = fileProcessing.groupFilesByStudent(filesByFolder);
+          const lmsAdapter = getLmsAdapter(moodleGradebook?.lms);
+          const { files: studentFiles, participantIds, studentNames } = fileProcessing.groupFilesByStudent(filesByFolder, lmsAdapter);
           
           // Store for debugging
           // @ts-ignore
@@ -205,99 +525,243 @@ export function useGradingWorkflow() {
           // @ts-ignore
           window._fileProcessingDebug.processStartTime = new Date().toISOString();
           
-          const concurrencyLimit = 5;
-          const students = Object.keys(studentFiles);
+          const students = Object.keys(studentFiles).filter(name => studentFiles[name].length > 0);
           
-          console.log(`Processing ${students.length} students with concurrency limit ${concurrencyLimit}`);
+          // Resume a previous run of the same job (e.g. after a reload) instead of regrading finished students
+          const jobKey = buildJobKey(assignmentData, students);
+          const savedProgress = loadJobProgress(jobKey);
+          const now = new Date().toISOString();
+          const progress: GradingJobProgress = {
+            jobKey,
+            status: 'running',
+            students: {},
+            completedGrades: savedProgress?.completedGrades || {},
+            startedAt: savedProgress?.startedAt || now,
+            updatedAt: now
+          };
           
-          for (let i = 0; i < students.length; i += concurrencyLimit) {
-            const batch = students.slice(i, i + concurrencyLimit);
-            const batchPromises = batch.map(async (studentName) => {
-              const studentAllFiles = studentFiles[studentName];
-              if (studentAllFiles.length === 0) return null;
-              
-              console.log(`\nPROCESSING STUDENT: "${studentName}" with ${studentAllFiles.length} files`);
-              
-              // Extract student info from name - needed for the gradebook
-              const studentInfo = {
-                fullName: studentName,
-                firstName: '',
-                lastName: '',
-                email: `${studentName.toLowerCase().replace(/\s+/g, '.')}@example.com`,
-                identifier: studentName.replace(/\s+/g, '_').toLowerCase()
-              };
-              
-              // Split name into first/last if possible
-              if (studentName.includes(' ')) {
-                const nameParts = studentName.split(' ');
-                studentInfo.firstName = nameParts[0];
-                studentInfo.lastName = nameParts.slice(1).join(' ');
-              }
-              
-              console.log(`Student info for ${studentName}:`, studentInfo);
-              
-              // Process all the student's files to find the best one
-              const processingResult = await fileProcessing.processFolderFiles(studentAllFiles, studentInfo);
+          students.forEach(name => {
+            progress.students[name] = progress.completedGrades[name]
+              ? savedProgress.students[name] || 'done'
+              : 'queued';
+          });
+          
+          Object.entries(progress.completedGrades).forEach(([name, grade]) => {
+            if (!studentFiles[name]) return;
+            // Stored grades lose their File, so point them back at the re-uploaded submission
+            processedGrades.push({ ...grade, file: findBestSubmissionFile(studentFiles[name]) || undefined });
+          });
+          
+          const remaining = students.filter(name => progress.students[name] === 'queued');
+          if (savedProgress && remaining.length < students.length) {
+            toast.info(`Resuming grading: ${students.length - remaining.length} of ${students.length} students already done`);
+          }
+          
+          const controller = createGradingJobController();
+          jobControllerRef.current = controller;
+          
+          const publishProgress = () => {
+            progress.status = controller.isPaused() ? 'paused' : 'running';
+            progress.updatedAt = new Date().toISOString();
+            saveJobProgress(progress);
+            setJobProgress({ ...progress, students: { ...progress.students } });
+          };
+          publishProgress();
+          
+          // Resolve gradebook details for a submission's student
+          const resolveStudent = (submissionKey: string) => {
+            // Extract student info from name - needed for the gradebook
+            const folderStudentName = studentNames[submissionKey] || submissionKey;
+            const participantId = participantIds[submissionKey] || null;
+            const studentInfo = {
+              fullName: folderStudentName,
+              firstName: '',
+              lastName: '',
+              email: `${folderStudentName.toLowerCase().replace(/\s+/g, '.')}@example.com`,
+              // Keep Moodle's identifier format so feedback exports can still find the participant
+              identifier: participantId
+                ? (lmsAdapter.id === 'moodle' ? `Participant ${participantId}` : participantId)
+                : folderStudentName.replace(/\s+/g, '_').toLowerCase()
+            };
+            
+            // Split name into first/last if possible
+            if (folderStudentName.includes(' ')) {
+              const nameParts = folderStudentName.split(' ');
+              studentInfo.firstName = nameParts[0];
+              studentInfo.lastName = nameParts.slice(1).join(' ');
+            }
+            
+            console.log(`Student info for ${folderStudentName}:`, studentInfo);
+            
+            let studentName = studentInfo.fullName;
+            let studentEmail = studentInfo.email || '';
+            let studentIdentifier = studentInfo.identifier;
+            let originalRow = {};
+            let firstName = '';
+            let lastName = '';
+            let matchMethod: StudentMatchMethod = 'unmatched';
+            
+            let matchingMoodleStudent = null;
+            if (moodleGradebook && moodleGradebook.grades.length > 0) {
+              console.log(`MATCHING - Trying to match "${studentInfo.fullName}" (${lmsAdapter.studentIdLabel} ${participantId || 'unknown'}) with students in gradebook`);
               
-              if (processingResult.submissionFile) {
-                let studentName = studentInfo.fullName;
-                let studentEmail = studentInfo.email || '';
-                let studentIdentifier = studentInfo.identifier;
-                let originalRow = {};
-                let firstName = '';
-                let lastName = '';
-                let matchFound = false;
-                
-                let matchingMoodleStudent = null;
-                if (moodleGradebook && moodleGradebook.grades.length > 0) {
-                  console.log(`MATCHING - Trying to match "${studentInfo.fullName}" with students in gradebook`);
-                  
+              // Matches confirmed on the resolution screen take precedence over automatic matching
+              const confirmedMatch = confirmedMatches[submissionKey];
+              if (confirmedMatch) {
+                matchingMoodleStudent = confirmedMatch.identifier
+                  ? moodleGradebook.grades.find(g => g.identifier === confirmedMatch.identifier) || null
+                  : null;
+                matchMethod = matchingMoodleStudent ? confirmedMatch.method : 'unmatched';
+                console.log(`MATCHING - Using confirmed match for "${studentInfo.fullName}": ${matchingMoodleStudent?.fullName || 'unmatched'}`);
+              } else {
+                // The LMS ID is unambiguous, so only fall back to names when it is missing or not in the gradebook
+                matchingMoodleStudent = findStudentByLmsId(participantId, moodleGradebook.grades, lmsAdapter);
+                if (matchingMoodleStudent) {
+                  matchMethod = 'participant-id';
+                } else {
                   matchingMoodleStudent = findBestStudentMatch(studentInfo, moodleGradebook.grades);
-                  
                   if (matchingMoodleStudent) {
-                    matchFound = true;
-                    console.log(`SUCCESS: Matched "${studentInfo.fullName}" to gradebook student "${matchingMoodleStudent.fullName}"`);
-                    studentName = matchingMoodleStudent.fullName;
-                    studentEmail = matchingMoodleStudent.email || '';
-                    studentIdentifier = matchingMoodleStudent.identifier;
-                    firstName = matchingMoodleStudent.firstName || '';
-                    lastName = matchingMoodleStudent.lastName || '';
-                    originalRow = matchingMoodleStudent.originalRow || {};
-                  } else {
-                    console.log(`NO MATCH FOUND for "${studentInfo.fullName}" in gradebook`);
+                    matchMethod = 'name';
                   }
                 }
-                
-                // Update student info with matched details if available
-                const updatedStudentInfo = {
-                  ...studentInfo,
-                  fullName: studentName,
-                  email: studentEmail,
-                  identifier: studentIdentifier,
-                  firstName: firstName || studentInfo.firstName,
-                  lastName: lastName || studentInfo.lastName
-                };
-                
-                // Process the submission with AI
-                const gradeResult = await gradeManagement.processSubmissionWithAI(
-                  updatedStudentInfo, 
-                  processingResult, 
-                  assignmentData, 
-                  originalRow as Record<string, string>
-                );
-                
+              }
+              
+              if (matchingMoodleStudent) {
+                console.log(`SUCCESS: Matched "${studentInfo.fullName}" to gradebook student "${matchingMoodleStudent.fullName}" by ${matchMethod}`);
+                studentName = matchingMoodleStudent.fullName;
+                studentEmail = matchingMoodleStudent.email || '';
+                studentIdentifier = matchingMoodleStudent.identifier;
+                firstName = matchingMoodleStudent.firstName || '';
+                lastName = matchingMoodleStudent.lastName || '';
+                originalRow = matchingMoodleStudent.originalRow || {};
+              } else {
+                console.log(`NO MATCH FOUND for "${studentInfo.fullName}" in gradebook`);
+              }
+            }
+            
+            // Update student info with matched details if available
+            const updatedStudentInfo = {
+              ...studentInfo,
+              fullName: studentName,
+              email: studentEmail,
+              identifier: studentIdentifier,
+              firstName: firstName || studentInfo.firstName,
+              lastName: lastName || studentInfo.lastName
+            };
+            
+            return { studentInfo, updatedStudentInfo, originalRow: originalRow as Record<string, string>, matchMethod };
+          };
+          
+          const gradeStudent = async (submissionKey: string) => {
+            const studentAllFiles = studentFiles[submissionKey];
+            console.log(`\nPROCESSING STUDENT: "${submissionKey}" with ${studentAllFiles.length} files`);
+            
+            const { studentInfo, updatedStudentInfo, originalRow, matchMethod } = resolveStudent(submissionKey);
+            
+            // Process all the student's files to find the best one
+            const processingResult = await fileProcessing.processFolderFiles(studentAllFiles, studentInfo);
+            
+            if (!processingResult.submissionFile) return null;
+            
+            // Process the submission with AI
+            const gradeResult = await gradeManagement.processSubmissionWithAI(
+              updatedStudentInfo, 
+              processingResult, 
+              assignmentData, 
+              originalRow,
+              moodleGradebook?.grades
+            );
+            
+            // Image text extraction for this student's files counts towards their usage too
+            return { ...gradeResult, matchMethod, usage: addUsage(takeFileUsage(studentAllFiles), gradeResult.usage) };
+          };
+          
+          // Students that were never graded stay in the list without a grade so they can be graded manually
+          const buildNotGradedGrade = (submissionKey: string, contentPreview: string): StudentGrade => {
+            const { updatedStudentInfo, originalRow, matchMethod } = resolveStudent(submissionKey);
+            return {
+              identifier: updatedStudentInfo.identifier,
+              fullName: updatedStudentInfo.fullName,
+              firstName: updatedStudentInfo.firstName,
+              lastName: updatedStudentInfo.lastName,
+              email: updatedStudentInfo.email,
+              status: "Not Graded",
+              grade: null,
+              feedback: "",
+              file: findBestSubmissionFile(studentFiles[submissionKey]) || undefined,
+              edited: false,
+              originalRow,
+              contentPreview,
+              matchMethod
+            };
+          };
+          
+          let stoppedBy: 'budget' | 'quota' | null = null;
+          const runBudget = assignmentData.runBudget || 0;
+          
+          const gradeQueuedStudent = async (submissionKey: string) => {
+            progress.students[submissionKey] = 'in-progress';
+            publishProgress();
+            
+            try {
+              const gradeResult = await gradeStudent(submissionKey);
+              if (gradeResult) {
                 processedGrades.push(gradeResult);
+                progress.completedGrades[submissionKey] = { ...gradeResult, file: undefined };
+                recordAccountUsage(authState.user?.id, gradeResult.usage);
               }
+              progress.students[submissionKey] = gradeResult?.status === 'Error' ? 'failed' : 'done';
               
-              processedCount++;
-              return processedCount;
-            });
+              // Stop starting new students once the run has spent its budget (includes students from a resumed run)
+              const runCost = summarizeUsage(Object.values(progress.completedGrades)).cost;
+              if (runBudget > 0 && runCost >= runBudget && !controller.isCancelled()) {
+                stoppedBy = 'budget';
+                controller.cancel();
+                toast.warning(`Run budget of ${formatCost(runBudget)} reached (${formatCost(runCost)} spent). Stopping after the submissions in progress.`);
+              }
+            } catch (error) {
+              console.error(`Error processing student ${submissionKey}:`, error);
+              progress.students[submissionKey] = 'failed';
+              
+              // The proxy refused the request (plan limit or not signed in), which applies to everyone left
+              if (isQuotaError(error)) {
+                processedGrades.push(buildNotGradedGrade(submissionKey, error.message));
+                if (!controller.isCancelled()) {
+                  stoppedBy = 'quota';
+                  controller.cancel();
+                  toast.error(error.message);
+                }
+              }
+            }
             
-            const batchResults = await Promise.all(batchPromises);
-            const completedCount = batchResults.filter(result => result !== null).length;
-            toast.info(`Processed ${processedCount}/${Object.keys(filesByFolder).length} submissions`);
+            processedCount++;
+            publishProgress();
+          };
+          
+          // Workers pull students from a shared queue so pausing or cancelling takes effect between students
+          const notStarted = await runWithAdaptiveConcurrency(remaining, gradeQueuedStudent, controller, {
+            onConcurrencyChange: concurrency => {
+              progress.concurrency = concurrency;
+              publishProgress();
+            }
+          });
+          
+          if (controller.isCancelled()) {
+            // Keep what was graded; students that never ran stay ungraded so they can be graded manually
+            notStarted.forEach(submissionKey => {
+              processedGrades.push(buildNotGradedGrade(submissionKey, "Grading was cancelled before this submission was processed."));
+            });
+            toast.warning(stoppedBy === 'budget'
+              ? `Budget reached after ${processedCount} of ${remaining.length} students. The rest were left ungraded.`
+              : stoppedBy === 'quota'
+                ? `Grading stopped after ${processedCount} of ${remaining.length} students. The rest were left ungraded.`
+                : `Grading cancelled after ${processedCount} of ${remaining.length} students`);
           }
           
+          progress.status = controller.isCancelled() ? 'cancelled' : 'completed';
+          setJobProgress({ ...progress, students: { ...progress.students } });
+          jobControllerRef.current = null;
+          
           // Deduplicate processed grades before merging
           // This prevents duplicate entries from online text + file submission folders
           console.log("DEDUPLICATION - Before:", processedGrades.length, "processed grades");
@@ -341,10 +805,16 @@ export function useGradingWorkflow() {
           // Save grades to localStorage
           localStorage.setItem('moodle_grader_grades', JSON.stringify(finalGrades));
           
+          // The finished job no longer needs resumable progress
+          clearJobProgress();
+          
+          // Record this run in the session history
+          saveSession(finalGrades);
+          
           // Track usage if user is logged in
           if (authState.user && authState.profile) {
-            // Count non-null grades
-            const validGradesCount = finalGrades.filter(g => g.grade !== null).length;
+            // Count non-null grades, plus submissions analysed in suggestions-only mode
+            const validGradesCount = finalGrades.filter(g => g.grade !== null || g.suggestions).length;
             if (validGradesCount > 0) {
               incrementGradesUsed(validGradesCount)
                 .then(({ error }) => {
@@ -357,13 +827,16 @@ export function useGradingWorkflow() {
             }
           }
           
-          toast.success("All files processed successfully!");
+          if (progress.status === 'completed') {
+            toast.success("All files processed successfully!");
+          }
         } catch (error) {
           console.error("Error processing files:", error);
           toast.error("Error processing files. Please check your API key and try again.");
           
           fetchSampleData();
         } finally {
+          jobControllerRef.current = null;
           gradeManagement.setIsProcessingGrades(false);
         }
       } else if (currentStep === 3 && assignmentData && files.length > 0 && !sampleDataLoaded) {
@@ -386,10 +859,13 @@ export function useGradingWorkflow() {
   const fetchSampleData = () => {
     if (!sampleDataLoaded) {
       fetch('/sample_moodle_grades.csv')
-        .then(response => response.text())
-        .then(csvData => {
-          const rows = csvData.split('\n');
-          const headers = rows[0].split(',').map(h => h.trim().replace(/^"|"$/g, ''));
+        .then(response => response.arrayBuffer())
+        .then(buffer => {
+          // Same reader as uploaded gradebooks, so quoted cells and other delimiters or encodings work
+          const { text, encoding, hasBOM } = decodeCSVBytes(buffer);
+          const parsedCSV = parseCSV(text);
+          const headers = parsedCSV.headers.map(h => h.trim());
+          const csvDialect: CSVDialect = { ...DEFAULT_CSV_DIALECT, ...parsedCSV.dialect, encoding, hasBOM };
           
           const gradeColumnIndex = headers.findIndex(h => 
             h.toLowerCase().includes('grade') || h.toLowerCase().includes('mark') || h.toLowerCase().includes('score')
@@ -401,8 +877,8 @@ export function useGradingWorkflow() {
           const assignmentColumn = gradeColumnIndex !== -1 ? headers[gradeColumnIndex] : 'Grade';
           const feedbackColumn = feedbackColumnIndex !== -1 ? headers[feedbackColumnIndex] : 'Feedback comments';
           
-          const parsedGrades = rows.slice(1).filter(row => row.trim()).map((row, idx) => {
-            const values = row.split(',').map(v => v.trim().replace(/^"|"$/g, ''));
+          const parsedGrades = parsedCSV.data.map((row, idx) => {
+            const values = parsedCSV.headers.map(header => (row[header] || '').trim());
             
             const originalRow: Record<string, string> = {};
             headers.forEach((header, i) => {
@@ -445,7 +921,10 @@ export function useGradingWorkflow() {
               headers,
               grades: gradesWithFiles,
               assignmentColumn,
-              feedbackColumn
+              feedbackColumn,
+              fileFormat: 'csv',
+              csvDialect,
+              lms: 'moodle'
             });
           }
           
@@ -496,20 +975,124 @@ export function useGradingWorkflow() {
     // Store assignment data in localStorage for persistence
     localStorage.setItem('moodle_grader_assignment_data', JSON.stringify(data));
     
+    // Keep the same pseudonyms when the details are submitted again for this run
+    const blindState = data.blindGrading ? (blindGrading || createBlindGradingState()) : null;
+    setBlindGrading(blindState);
+    if (blindState) {
+      saveBlindGradingState(blindState);
+    } else {
+      clearBlindGradingState();
+    }
+    
     setCurrentStep(3);
     setSampleDataLoaded(false);
     window.scrollTo({ top: 0, behavior: "smooth" });
   };
 
-  const handleUpdateGrade = (index: number, grade: number, feedback: string) => {
-    setGrades(gradeManagement.updateStudentGrade(grades, index, grade, feedback));
+  const handleUpdateGrade = (index: number, grade: number, feedback: string, criteriaScores?: CriterionScore[]) => {
+    const edit = grades[index] ? createGradeEdit(grades[index], grade, feedback) : null;
+    const updatedGrades = gradeManagement.updateStudentGrade(grades, index, grade, feedback, criteriaScores);
+    setGrades(updatedGrades);
+    saveSession(updatedGrades, edit ? [edit] : []);
   };
 
   const handleApproveAll = () => {
-    setGrades(gradeManagement.approveAllGrades(grades));
+    const updatedGrades = gradeManagement.approveAllGrades(grades);
+    setGrades(updatedGrades);
+    saveSession(updatedGrades);
+  };
+
+  /**
+   * Finalize a blind-graded run and show who each submission belongs to
+   */
+  const handleRevealIdentities = () => {
+    if (!blindGrading || !gradeManagement.canProceedToDownload(grades)) return;
+    
+    const revealedState = { ...blindGrading, revealed: true };
+    setBlindGrading(revealedState);
+    saveBlindGradingState(revealedState);
+    toast.success("Grades finalized. Student identities are now shown.");
+  };
+
+  /**
+   * Pick the scripts to be second-marked
+   */
+  const handleStartModeration = (settings: ModerationSettings) => {
+    const sample = selectModerationSample(grades, settings);
+    if (sample.length === 0) {
+      toast.warning("There are no reviewed grades to sample for second marking yet.");
+      return;
+    }
+    
+    saveModerationSettings(settings);
+    const updatedGrades = startModeration(grades, sample, settings);
+    setGrades(updatedGrades);
+    saveSession(updatedGrades);
+    toast.success(`${sample.length} ${sample.length === 1 ? 'script' : 'scripts'} selected for second marking`);
+  };
+
+  const handleSecondMark = (index: number, mark: number, feedback: string) => {
+    if (!grades[index]?.moderation) return;
+    
+    const updatedGrades = [...grades];
+    updatedGrades[index] = recordSecondMark(grades[index], mark, feedback);
+    setGrades(updatedGrades);
+    saveSession(updatedGrades);
+    
+    if (updatedGrades[index].moderation.status === 'disagreement') {
+      toast.warning(`Script ${updatedGrades[index].moderation.scriptNumber}: the marks differ by more than the threshold and need reconciling`);
+    }
+  };
+
+  const handleReconcileGrade = (index: number, finalGrade: number, note: string) => {
+    if (!grades[index]?.moderation) return;
+    
+    const edit = createGradeEdit(grades[index], finalGrade, grades[index].feedback);
+    const updatedGrades = [...grades];
+    updatedGrades[index] = reconcileGrade(grades[index], finalGrade, note);
+    setGrades(updatedGrades);
+    saveSession(updatedGrades, edit ? [edit] : []);
+  };
+
+  const handleClearModeration = () => {
+    const updatedGrades = clearModeration(grades);
+    setGrades(updatedGrades);
+    saveSession(updatedGrades);
+    toast.info("Second marking sample cleared");
+  };
+
+  /**
+   * Apply a curve to every graded submission, recording each change in the edit history
+   */
+  const handleApplyCurve = (curve: GradeCurve) => {
+    if (!assignmentData) return;
+    
+    const changes = previewCurve(grades, curve, assignmentData.gradingScale);
+    if (changes.length === 0) {
+      toast.info("The curve doesn't change any grades");
+      return;
+    }
+    
+    const updatedGrades = [...grades];
+    const edits: GradeEdit[] = [];
+    changes.forEach(({ index }) => {
+      const curved = applyCurveToStudent(grades[index], curve, assignmentData.gradingScale);
+      const edit = createGradeEdit(grades[index], curved.grade, grades[index].feedback);
+      if (edit) edits.push(edit);
+      updatedGrades[index] = curved;
+    });
+    
+    setGrades(updatedGrades);
+    saveSession(updatedGrades, edits);
+    toast.success(`Curve applied to ${changes.length} ${changes.length === 1 ? 'grade' : 'grades'}`);
   };
 
   const handleContinueToDownload = () => {
+    if (isBlindGradingActive(blindGrading)) {
+      toast.warning("Finalize the grades to reveal student identities before downloading.");
+      return;
+    }
+    
     if (gradeManagement.canProceedToDownload(grades)) {
       setCurrentStep(4);
       window.scrollTo({ top: 0, behavior: "smooth" });
@@ -523,6 +1106,14 @@ export function useGradingWorkflow() {
     setGrades([]);
     setMoodleGradebook(null);
     setSampleDataLoaded(false);
+    setSessionId(null);
+    setConfirmedMatches({});
+    clearConfirmedMatches();
+    setBlindGrading(null);
+    clearBlindGradingState();
+    jobControllerRef.current?.cancel();
+    setJobProgress(null);
+    clearJobProgress();
     
     // Clear all persisted state
     persistence.resetAllState();
@@ -564,6 +1155,13 @@ export function useGradingWorkflow() {
       (step === 3 && assignmentData) ||   // First time to step 3, require assignment data
       (step === 4 && grades.length > 0);  // First time to step 4, require grades
     
+    // The download step lists file names, so it stays closed while grading is blind
+    if (step === 4 && isBlindGradingActive(blindGrading)) {
+      toast.warning("Finalize the grades to reveal student identities before downloading.");
+      console.groupEnd();
+      return;
+    }
+    
     console.log("Navigation check:", {
       currentStep,
       targetStep: step,
@@ -597,6 +1195,7 @@ export function useGradingWorkflow() {
     sampleDataLoaded,
     moodleGradebook,
     folderStructure,
+    sessionId,
     handleFilesSelected,
     handleStepOneComplete,
     handleAssignmentSubmit,
@@ -604,8 +1203,21 @@ export function useGradingWorkflow() {
     handleApproveAll,
     handleContinueToDownload,
     handleReset,
+    blindGrading,
+    handleRevealIdentities,
+    handleStartModeration,
+    handleSecondMark,
+    handleReconcileGrade,
+    handleClearModeration,
+    handleApplyCurve,
     handleStepClick,
     preloadedGrades,
+    handleMatchesConfirmed,
+    jobProgress,
+    pauseGrading,
+    resumeGrading,
+    cancelGrading,
+    retryFailedGrades,
     highestStepReached: persistence.highestStepReached // Expose this to the component
   };
 }
\ No newline at end of file
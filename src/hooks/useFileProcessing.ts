@@ -1,6 +1,7 @@
 import { useState } from "react";
 import { extractTextFromFile, extractTextFromHTML, findBestSubmissionFile, CONTENT_MARKERS } from "@/utils/fileUtils";
 import { isImageFile } from "@/utils/imageUtils";
+import { getLmsAdapter, groupSubmissionsByStudent, type LmsAdapter } from "@/utils/lms";
 
 /**
  * Type for the file processing result
@@ -13,6 +14,16 @@ export interface FileProcessingResult {
   debug?: any; // Debug information
 }
 
+/**
+ * Submission files grouped per student, with the LMS user ID (e.g. Moodle participant ID) taken from the folder or file name.
+ * Keyed by submission key (see getSubmissionKey), which includes the ID so students with the same name stay apart.
+ */
+export interface StudentFileGroups {
+  files: { [submissionKey: string]: File[] };
+  participantIds: { [submissionKey: string]: string };
+  studentNames: { [submissionKey: string]: string }; // Student name from the folder or file name
+}
+
 /**
  * Custom hook for file processing operations
  */
@@ -314,85 +325,28 @@ export function useFileProcessing() {
   };
 
   /**
-   * Groups files by student name across all folders
+   * Groups files by student (name and LMS ID) across all folders
    * This is needed because a student might have files in multiple folders
    */
-  const groupFilesByStudent = (folderStructure: { [key: string]: File[] }): { [studentName: string]: File[] } => {
-    // Initialize student files map
-    const studentFiles: { [studentName: string]: File[] } = {};
+  const groupFilesByStudent = (folderStructure: { [key: string]: File[] }, adapter: LmsAdapter = getLmsAdapter()): StudentFileGroups => {
+    const studentFiles: { [submissionKey: string]: File[] } = {};
+    const participantIds: { [submissionKey: string]: string } = {};
+    const studentNames: { [submissionKey: string]: string } = {};
     
-    // Temporary map to track which folders belong to which students
-    const folderToStudent: { [folderPath: string]: string } = {};
-    
-    // First pass: Determine student names from folder names
-    for (const folderPath of Object.keys(folderStructure)) {
-      // Skip 'root' folder for student name extraction
-      if (folderPath === 'root') continue;
-      
-      // Extract student name from folder path
-      let studentName = '';
-      
-      // Handle Moodle format folders like "John Smith_12345_assignsubmission_file"
-      if (folderPath.includes('_assignsubmission_')) {
-        studentName = folderPath.split('_assignsubmission_')[0];
-      } else if (folderPath.includes('_onlinetext_')) {
-        studentName = folderPath.split('_onlinetext_')[0];
+    // The ID is kept separately so it can be joined to the gradebook's ID column
+    Object.entries(groupSubmissionsByStudent(folderStructure, adapter)).forEach(([submissionKey, group]) => {
+      studentFiles[submissionKey] = group.files;
+      studentNames[submissionKey] = group.studentName;
+      if (group.studentId) {
+        participantIds[submissionKey] = group.studentId;
       }
-      
-      // Clean up student name
-      if (studentName.includes('_')) {
-        // Remove numeric ID if present (e.g., "John Smith_12345" -> "John Smith")
-        const parts = studentName.split('_');
-        if (parts.length > 1 && /^\d+$/.test(parts[parts.length - 1])) {
-          studentName = parts.slice(0, -1).join('_');
-        }
-      }
-      
-      if (studentName) {
-        folderToStudent[folderPath] = studentName;
-        
-        // Initialize the student's file array if needed
-        if (!studentFiles[studentName]) {
-          studentFiles[studentName] = [];
-        }
-        
-        // Add this folder's files to the student's files
-        studentFiles[studentName].push(...folderStructure[folderPath]);
-        
-        console.log(`Mapped folder "${folderPath}" to student "${studentName}" with ${folderStructure[folderPath].length} files`);
-      }
-    }
-    
-    // Handle files in the root folder (if any)
-    if (folderStructure['root']) {
-      folderStructure['root'].forEach(file => {
-        // Try to extract student name from filename
-        const fileName = file.name;
-        let studentName = '';
-        
-        if (fileName.includes('_assignsubmission_')) {
-          studentName = fileName.split('_assignsubmission_')[0];
-        } else if (fileName.includes('_onlinetext_')) {
-          studentName = fileName.split('_onlinetext_')[0];
-        }
-        
-        if (studentName) {
-          if (!studentFiles[studentName]) {
-            studentFiles[studentName] = [];
-          }
-          studentFiles[studentName].push(file);
-          console.log(`Added root file "${fileName}" to student "${studentName}"`);
-        } else {
-          console.warn(`Could not determine student name for root file: ${fileName}`);
-        }
-      });
-    }
+    });
     
     // Log summary of student files
     const studentCount = Object.keys(studentFiles).length;
-    console.log(`Grouped files by student: ${studentCount} students found`);
+    console.log(`Grouped ${adapter.name} files by student: ${studentCount} students found (${Object.keys(participantIds).length} with ${adapter.studentIdLabel}s)`);
     
-    return studentFiles;
+    return { files: studentFiles, participantIds, studentNames };
   };
 
   return {
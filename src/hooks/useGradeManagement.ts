@@ -1,9 +1,42 @@
 import { useState } from "react";
 import { toast } from "sonner";
 import { AssignmentFormData } from "@/components/assignment/AssignmentFormTypes";
-import { gradeWithOpenAI } from "@/utils/gradingUtils";
+import { gradeWithOpenAI, type GradingResult } from "@/utils/gradingUtils";
 import { StudentGrade } from "./use-grading-workflow";
 import type { FileProcessingResult } from "./useFileProcessing";
+import type { CriterionScore } from "@/utils/rubricUtils";
+import { isQuotaError } from "@/utils/requestRetry";
+import { buildRedactionTerms, redactText, restoreText, logRedaction, type RedactionTerm } from "@/utils/piiRedaction";
+import { summarizeModeration } from "@/utils/moderation";
+
+/**
+ * Put the redacted identifiers back into everything the model wrote
+ */
+function restoreGradingResult(gradingResult: GradingResult, terms: RedactionTerm[]): { result: GradingResult; restored: number } {
+  let restored = 0;
+  const restore = (text: string) => {
+    const output = restoreText(text, terms);
+    restored += output.restored;
+    return output.text;
+  };
+  
+  const result: GradingResult = {
+    ...gradingResult,
+    feedback: restore(gradingResult.feedback),
+    criteriaScores: gradingResult.criteriaScores?.map(score => ({ ...score, justification: restore(score.justification) })),
+    suggestions: gradingResult.suggestions && {
+      ...gradingResult.suggestions,
+      strengths: gradingResult.suggestions.strengths.map(restore),
+      weaknesses: gradingResult.suggestions.weaknesses.map(restore),
+      rubricObservations: gradingResult.suggestions.rubricObservations.map(item => ({
+        area: restore(item.area),
+        observation: restore(item.observation)
+      }))
+    }
+  };
+  
+  return { result, restored };
+}
 
 /**
  * Custom hook for student grade management and grading operations
@@ -18,13 +51,15 @@ export function useGradeManagement() {
     grades: StudentGrade[], 
     index: number, 
     grade: number, 
-    feedback: string
+    feedback: string,
+    criteriaScores?: CriterionScore[]
   ): StudentGrade[] => {
     const updatedGrades = [...grades];
     updatedGrades[index] = {
       ...updatedGrades[index],
       grade,
       feedback,
+      ...(criteriaScores ? { criteriaScores } : {}),
       edited: true
     };
     
@@ -43,7 +78,13 @@ export function useGradeManagement() {
    * Mark all grades as edited/approved
    */
   const approveAllGrades = (grades: StudentGrade[]): StudentGrade[] => {
-    const updatedGrades = grades.map(grade => ({ ...grade, edited: true }));
+    // Suggestions-only entries (including replies without structured suggestions) can't be
+    // approved until a grade has been entered manually
+    const needsManualGrade = (grade: StudentGrade) =>
+      grade.grade === null && (!!grade.suggestions || grade.status === "Suggestions Ready");
+    const awaitingManualGrade = grades.filter(needsManualGrade).length;
+    
+    const updatedGrades = grades.map(grade => needsManualGrade(grade) ? grade : { ...grade, edited: true });
     
     // Save to localStorage for persistence
     try {
@@ -52,7 +93,11 @@ export function useGradeManagement() {
       console.error("Error saving approved grades to localStorage:", error);
     }
     
-    toast.success("All feedback approved");
+    if (awaitingManualGrade > 0) {
+      toast.warning(`Approved all feedback except ${awaitingManualGrade} ${awaitingManualGrade === 1 ? 'submission' : 'submissions'} still waiting for a manual grade`);
+    } else {
+      toast.success("All feedback approved");
+    }
     return updatedGrades;
   };
 
@@ -67,6 +112,12 @@ export function useGradeManagement() {
       return false;
     }
     
+    const moderation = summarizeModeration(grades);
+    if (moderation.awaiting > 0 || moderation.disagreements > 0) {
+      toast.warning(`Second marking isn't finished: ${moderation.awaiting} scripts to mark and ${moderation.disagreements} disagreements to reconcile.`);
+      return false;
+    }
+    
     return true;
   };
 
@@ -87,13 +138,15 @@ export function useGradeManagement() {
   };
 
   /**
-   * Process a student submission with OpenAI
+   * Process a student submission with OpenAI. Identifiers of the student and their classmates
+   * are replaced with placeholders before the request and restored in the feedback.
    */
   const processSubmissionWithAI = async (
     studentInfo: any,
     result: FileProcessingResult,
     assignmentData: AssignmentFormData,
-    originalRow?: Record<string, string>
+    originalRow?: Record<string, string>,
+    classmates: StudentGrade[] = []
   ): Promise<StudentGrade> => {
     // Handle empty submissions - don't send to OpenAI
     if (result.hasEmptySubmission || 
@@ -152,26 +205,53 @@ export function useGradeManagement() {
         console.log(`Using direct image upload for submission from ${studentInfo.fullName}`);
       }
       
+      // Pseudonymize before anything leaves the browser; image content can't be redacted, but its file name can
+      const redactionTerms = buildRedactionTerms({ ...studentInfo, originalRow }, classmates);
+      const redacted = redactText(result.submissionText, redactionTerms);
+      const submissionFile = isDirectImageSubmission && result.submissionFile
+        ? new File([result.submissionFile], redactText(result.submissionFile.name, redactionTerms).text, { type: result.submissionFile.type })
+        : undefined;
+      
       // Pass the file along for image submissions
-      const gradingResult = await gradeWithOpenAI(
-        result.submissionText, 
+      const rawResult = await gradeWithOpenAI(
+        redacted.text, 
         assignmentData, 
         getApiKey() || "",
         assignmentData.gradingScale,
-        isDirectImageSubmission ? result.submissionFile : undefined
+        submissionFile
       );
       
+      const { result: gradingResult, restored } = restoreGradingResult(rawResult, redactionTerms);
+      logRedaction({
+        timestamp: new Date().toISOString(),
+        student: studentInfo.fullName,
+        assignmentName: assignmentData.assignmentName,
+        redactions: Object.entries(redacted.counts).map(([placeholder, count]) => ({
+          placeholder,
+          kind: redactionTerms.find(term => term.placeholder === placeholder)?.kind || 'id',
+          count
+        })),
+        restored,
+        ...(isDirectImageSubmission ? { imageSubmission: true } : {})
+      });
+      
       console.log(`Grading result for ${studentInfo.fullName}: Grade ${gradingResult.grade}, Feedback length: ${gradingResult.feedback.length} chars`);
       
+      // In suggestions-only mode the grade stays empty for the instructor to enter
+      const isSuggestionsOnly = assignmentData.gradingMode === 'suggestions';
+      
       return {
         identifier: studentInfo.identifier,
         fullName: studentInfo.fullName,
         firstName: studentInfo.firstName || "",
         lastName: studentInfo.lastName || "",
         email: studentInfo.email || `${studentInfo.fullName.toLowerCase().replace(/\s+/g, '.')}@example.com`,
-        status: "Graded",
-        grade: gradingResult.grade,
+        status: isSuggestionsOnly ? "Suggestions Ready" : "Graded",
+        grade: isSuggestionsOnly ? null : gradingResult.grade,
         feedback: gradingResult.feedback,
+        criteriaScores: gradingResult.criteriaScores,
+        suggestions: gradingResult.suggestions,
+        usage: gradingResult.usage,
         file: result.submissionFile,
         edited: false,
         originalRow: originalRow || {},
@@ -180,6 +260,11 @@ export function useGradeManagement() {
     } catch (error) {
       console.error(`Error grading submission for ${studentInfo.fullName}:`, error);
       
+      // Plan limits apply to every remaining student, so let the caller stop the run
+      if (isQuotaError(error)) {
+        throw error;
+      }
+      
       return {
         identifier: studentInfo.identifier,
         fullName: studentInfo.fullName,
@@ -188,7 +273,7 @@ export function useGradeManagement() {
         email: studentInfo.email || `${studentInfo.fullName.toLowerCase().replace(/\s+/g, '.')}@example.com`,
         status: "Error",
         grade: null as any, // Use null instead of 0 to prevent displaying a grade
-        feedback: `Error grading submission: ${error instanceof Error ? error.message : 'Unknown error'}. Please grade manually.`,
+        feedback: `Error grading submission: ${error instanceof Error ? error.message : 'Unknown error'}. Retry failed grades from the review step or grade manually.`,
         file: result.submissionFile,
         edited: false,
         originalRow: originalRow || {},
@@ -214,11 +299,13 @@ export function useGradeManagement() {
     
     // First, create a set of all student names that were processed (had submissions)
     const processedStudentNames = new Set(aiGrades.map(g => g.fullName.toLowerCase()));
+    const processedIdentifiers = new Set(aiGrades.filter(g => g.matchMethod && g.matchMethod !== 'unmatched').map(g => g.identifier));
     console.log("Students with processed submissions:", Array.from(processedStudentNames));
     
     // Mark students with no submissions at all
     mergedGrades.forEach((gradebookStudent, index) => {
-      const hasSubmission = processedStudentNames.has(gradebookStudent.fullName.toLowerCase());
+      const hasSubmission = processedIdentifiers.has(gradebookStudent.identifier) ||
+        processedStudentNames.has(gradebookStudent.fullName.toLowerCase());
       
       if (!hasSubmission) {
         console.log(`No submission found for student: ${gradebookStudent.fullName} - marking as "No Submission" with null grade`);
@@ -238,7 +325,11 @@ export function useGradeManagement() {
     aiGrades.forEach(aiGrade => {
       console.log(`Merging grade for ${aiGrade.fullName}`);
       
-      const moodleIndex = mergedGrades.findIndex(grade => 
+      // Matched submissions carry the gradebook identifier, which is safer than the name when two students share one
+      const identifierIndex = aiGrade.matchMethod && aiGrade.matchMethod !== 'unmatched'
+        ? mergedGrades.findIndex(grade => grade.identifier === aiGrade.identifier)
+        : -1;
+      const moodleIndex = identifierIndex >= 0 ? identifierIndex : mergedGrades.findIndex(grade => 
         grade.fullName.toLowerCase() === aiGrade.fullName.toLowerCase()
       );
       
@@ -262,6 +353,8 @@ export function useGradeManagement() {
               feedback: "", // Clear any feedback
               file: aiGrade.file,
               contentPreview: aiGrade.contentPreview,
+              matchMethod: aiGrade.matchMethod,
+              usage: aiGrade.usage,
               edited: true // Mark as edited to prevent further prompts
             };
           } else {
@@ -272,8 +365,12 @@ export function useGradeManagement() {
               status: "Empty Submission",
               grade: aiGrade.grade,
               feedback: aiGrade.feedback,
+              criteriaScores: aiGrade.criteriaScores,
+              suggestions: aiGrade.suggestions,
               file: aiGrade.file,
               contentPreview: aiGrade.contentPreview,
+              matchMethod: aiGrade.matchMethod,
+              usage: aiGrade.usage,
               edited: false
             };
           }
@@ -281,10 +378,16 @@ export function useGradeManagement() {
           // Normal submission with content
           mergedGrades[moodleIndex] = {
             ...mergedGrades[moodleIndex],
+            // Keep the gradebook's status unless grading failed, so failed students can be retried
+            ...(aiGrade.status === 'Error' ? { status: aiGrade.status } : {}),
             grade: aiGrade.grade,
             feedback: aiGrade.feedback,
+            criteriaScores: aiGrade.criteriaScores,
+            suggestions: aiGrade.suggestions,
             file: aiGrade.file,
             contentPreview: aiGrade.contentPreview,
+            matchMethod: aiGrade.matchMethod,
+            usage: aiGrade.usage,
             edited: false
           };
         }
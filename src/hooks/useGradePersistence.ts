@@ -4,6 +4,7 @@ import { toast } from "sonner";
 import { AssignmentFormData } from "@/components/assignment/AssignmentFormTypes";
 import { cacheFileMetadata, getCachedFileMetadata } from "@/utils/fileUtils";
 import { StudentGrade } from "./use-grading-workflow";
+import type { SessionGradebook } from "@/utils/sessionUtils";
 
 /**
  * Custom hook for managing state persistence between sessions
@@ -137,6 +138,41 @@ export function useGradePersistence() {
     return [];
   };
 
+  /**
+   * Save the gradebook format (headers and grade/feedback columns) so exports work after a reload
+   */
+  const saveGradebookFormat = (gradebook: SessionGradebook) => {
+    try {
+      localStorage.setItem('moodle_grader_gradebook', JSON.stringify({
+        headers: gradebook.headers,
+        assignmentColumn: gradebook.assignmentColumn,
+        feedbackColumn: gradebook.feedbackColumn,
+        fileFormat: gradebook.fileFormat,
+        sheetName: gradebook.sheetName,
+        csvDialect: gradebook.csvDialect,
+        lms: gradebook.lms,
+        preambleRows: gradebook.preambleRows
+      }));
+    } catch (error) {
+      console.error("Error saving gradebook format:", error);
+    }
+  };
+
+  /**
+   * Load the saved gradebook format from localStorage
+   */
+  const loadGradebookFormat = (): SessionGradebook | null => {
+    try {
+      const savedGradebook = localStorage.getItem('moodle_grader_gradebook');
+      if (savedGradebook) {
+        return JSON.parse(savedGradebook);
+      }
+    } catch (error) {
+      console.error("Error loading gradebook format:", error);
+    }
+    return null;
+  };
+
   /**
    * Check for previously uploaded files
    * Returns info about previously uploaded files if they exist
@@ -225,6 +261,10 @@ export function useGradePersistence() {
     localStorage.removeItem('moodle_grader_grades');
     localStorage.removeItem('moodle_grader_current_step');
     localStorage.removeItem('moodle_grader_highest_step');
+    localStorage.removeItem('moodle_grader_gradebook');
+    
+    // Detach from the current history session (the session itself stays in IndexedDB)
+    localStorage.removeItem('moodle_grader_session_id');
     
     // Clear session storage immediate markers
     sessionStorage.removeItem('moodle_grader_file_count');
@@ -241,6 +281,8 @@ export function useGradePersistence() {
     saveWorkflowState,
     loadAssignmentData,
     loadGrades,
+    saveGradebookFormat,
+    loadGradebookFormat,
     checkPreviousFiles,
     notifyPreviousFiles,
     resetAllState
@@ -50,6 +50,8 @@ export type Database = {
           updated_at: string
           assignment_details: Json
           last_used: string | null
+          organization_id: string | null
+          current_version: number
         }
         Insert: {
           id?: string
@@ -59,6 +61,8 @@ export type Database = {
           updated_at?: string
           assignment_details: Json
           last_used?: string | null
+          organization_id?: string | null
+          current_version?: number
         }
         Update: {
           id?: string
@@ -68,6 +72,150 @@ export type Database = {
           updated_at?: string
           assignment_details?: Json
           last_used?: string | null
+          organization_id?: string | null
+          current_version?: number
+        }
+      }
+      assignment_profile_versions: {
+        Row: {
+          id: string
+          profile_id: string
+          version: number
+          assignment_details: Json
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          profile_id: string
+          version: number
+          assignment_details: Json
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          profile_id?: string
+          version?: number
+          assignment_details?: Json
+          created_by?: string | null
+          created_at?: string
+        }
+      }
+      organizations: {
+        Row: {
+          id: string
+          name: string
+          created_by: string | null
+          created_at: string
+          updated_at: string
+          account_tier: 'none' | 'free' | 'basic' | 'premium'
+          grades_used: number
+          grades_limit: number
+        }
+        Insert: {
+          id?: string
+          name: string
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+          account_tier?: 'none' | 'free' | 'basic' | 'premium'
+          grades_used?: number
+          grades_limit?: number
+        }
+        Update: {
+          id?: string
+          name?: string
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+          account_tier?: 'none' | 'free' | 'basic' | 'premium'
+          grades_used?: number
+          grades_limit?: number
+        }
+      }
+      organization_members: {
+        Row: {
+          organization_id: string
+          user_id: string
+          role: 'owner' | 'instructor' | 'ta'
+          created_at: string
+        }
+        Insert: {
+          organization_id: string
+          user_id: string
+          role: 'owner' | 'instructor' | 'ta'
+          created_at?: string
+        }
+        Update: {
+          organization_id?: string
+          user_id?: string
+          role?: 'owner' | 'instructor' | 'ta'
+          created_at?: string
+        }
+      }
+      tier_limits: {
+        Row: {
+          tier: 'free' | 'basic' | 'premium'
+          grades_limit: number
+        }
+        Insert: {
+          tier: 'free' | 'basic' | 'premium'
+          grades_limit: number
+        }
+        Update: {
+          tier?: 'free' | 'basic' | 'premium'
+          grades_limit?: number
+        }
+      }
+      usage_events: {
+        Row: {
+          id: string
+          user_id: string
+          created_at: string
+          organization_id: string | null
+          assignment_profile_id: string | null
+          assignment_name: string | null
+          request_kind: 'grading' | 'extraction'
+          student_count: number
+          provider: string
+          model: string | null
+          prompt_tokens: number
+          completion_tokens: number
+          cost: number
+          outcome: 'success' | 'error' | 'rejected'
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          created_at?: string
+          organization_id?: string | null
+          assignment_profile_id?: string | null
+          assignment_name?: string | null
+          request_kind: 'grading' | 'extraction'
+          student_count?: number
+          provider: string
+          model?: string | null
+          prompt_tokens?: number
+          completion_tokens?: number
+          cost?: number
+          outcome: 'success' | 'error' | 'rejected'
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          created_at?: string
+          organization_id?: string | null
+          assignment_profile_id?: string | null
+          assignment_name?: string | null
+          request_kind?: 'grading' | 'extraction'
+          student_count?: number
+          provider?: string
+          model?: string | null
+          prompt_tokens?: number
+          completion_tokens?: number
+          cost?: number
+          outcome?: 'success' | 'error' | 'rejected'
         }
       }
     }
@@ -75,7 +223,30 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      reserve_grading_quota: {
+        Args: { p_user_id: string; p_amount: number; p_organization_id?: string | null }
+        Returns: { allowed: boolean; used_count: number; limit_count: number; tier: string | null }[]
+      }
+      release_grading_quota: {
+        Args: { p_user_id: string; p_amount: number; p_organization_id?: string | null }
+        Returns: undefined
+      }
+      organization_role: {
+        Args: { p_organization_id: string }
+        Returns: string | null
+      }
+      create_organization: {
+        Args: { p_name: string }
+        Returns: string
+      }
+      add_organization_member: {
+        Args: { p_organization_id: string; p_email: string; p_role: string }
+        Returns: undefined
+      }
+      get_organization_members: {
+        Args: { p_organization_id: string }
+        Returns: { user_id: string; email: string; role: 'owner' | 'instructor' | 'ta'; created_at: string }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -9,7 +9,17 @@ import ProcessFiles from "@/components/ProcessFiles";
 import LogoComponent from "@/components/LogoComponent";
 import { WORKFLOW_STEPS } from "@/components/workflow/steps";
 import { useGradingWorkflow } from "@/hooks/use-grading-workflow";
-import { downloadCSV, generateMoodleCSV } from "@/utils/csv";
+import {
+  downloadCSV,
+  generateMoodleCSV,
+  generateMoodleSpreadsheet,
+  downloadSpreadsheet,
+  isSpreadsheetFormat,
+  GRADEBOOK_FORMAT_LABELS
+} from "@/utils/csv";
+import { getGradebookExportFilename, getLmsAdapter } from "@/utils/lms";
+import { generateFeedbackZip, downloadZip } from "@/utils/feedbackZipExport";
+import { generateMoodleGradeXML, downloadXML, saveXmlExportSettings, type MoodleXmlExportOptions } from "@/utils/moodleXmlExport";
 import { toast } from "sonner";
 import { Sparkles, Lightbulb, BookOpen, Braces } from "lucide-react";
 
@@ -40,8 +50,21 @@ const Index = () => {
     handleApproveAll,
     handleContinueToDownload,
     handleReset,
+    blindGrading,
+    handleRevealIdentities,
+    handleStartModeration,
+    handleSecondMark,
+    handleReconcileGrade,
+    handleClearModeration,
+    handleApplyCurve,
     handleStepClick,
     preloadedGrades,
+    handleMatchesConfirmed,
+    jobProgress,
+    pauseGrading,
+    resumeGrading,
+    cancelGrading,
+    retryFailedGrades,
     highestStepReached
   } = useGradingWorkflow();
   
@@ -63,6 +86,8 @@ const Index = () => {
     preloadedGrades(gradebookData);
   };
 
+  const lmsAdapter = getLmsAdapter(moodleGradebook?.lms);
+
   const handleDownload = () => {
     if (moodleGradebook && moodleGradebook.headers && moodleGradebook.assignmentColumn) {
       console.log("Generating CSV with exact format matching:", {
@@ -71,16 +96,32 @@ const Index = () => {
         feedbackColumn: moodleGradebook.feedbackColumn
       });
       
-      const csvContent = generateMoodleCSV(grades, {
+      const format = {
         headers: moodleGradebook.headers,
         assignmentColumn: moodleGradebook.assignmentColumn,
-        feedbackColumn: moodleGradebook.feedbackColumn || `${moodleGradebook.assignmentColumn} (feedback)`
-      });
+        // An added column would be read as another assignment by platforms without feedback import
+        feedbackColumn: moodleGradebook.feedbackColumn || (lmsAdapter.supportsFeedbackImport ? `${moodleGradebook.assignmentColumn} (feedback)` : ''),
+        dialect: moodleGradebook.csvDialect,
+        preambleRows: moodleGradebook.preambleRows
+      };
+      const filename = getGradebookExportFilename(lmsAdapter, moodleGradebook.fileFormat, moodleGradebook.csvDialect);
       
-      const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-      const filename = `moodle_grades_${timestamp}.csv`;
+      // Spreadsheet gradebooks go back in the format they were uploaded in
+      if (isSpreadsheetFormat(moodleGradebook.fileFormat)) {
+        try {
+          const blob = generateMoodleSpreadsheet(grades, format, moodleGradebook.fileFormat, moodleGradebook.sheetName);
+          downloadSpreadsheet(blob, filename);
+          toast.success(`${GRADEBOOK_FORMAT_LABELS[moodleGradebook.fileFormat]} file downloaded with original gradebook format preserved`);
+        } catch (error) {
+          console.error("Error generating spreadsheet:", error);
+          toast.error("Failed to generate the spreadsheet");
+        }
+        return;
+      }
       
-      downloadCSV(csvContent, filename);
+      const csvContent = generateMoodleCSV(grades, format);
+      
+      downloadCSV(csvContent, filename, moodleGradebook.csvDialect);
       toast.success("CSV file downloaded with original gradebook format preserved");
     } else {
       console.error("Missing moodleGradebook data:", moodleGradebook);
@@ -88,6 +129,53 @@ const Index = () => {
     }
   };
 
+  const handleDownloadXml = (options: MoodleXmlExportOptions) => {
+    try {
+      const { xml, included, skipped } = generateMoodleGradeXML(grades, options);
+
+      if (included === 0) {
+        toast.error(`No grades could be exported. Check that the "${options.studentIdColumn}" column holds the students' ID numbers.`);
+        return;
+      }
+
+      saveXmlExportSettings(assignmentData?.assignmentName || '', options);
+      const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+      downloadXML(xml, `moodle_grades_${timestamp}.xml`);
+
+      if (skipped.length > 0) {
+        toast.warning(`XML file downloaded with ${included} grades. Skipped ${skipped.length} students without a grade or ID number.`);
+      } else {
+        toast.success(`XML file downloaded with ${included} grades`);
+      }
+    } catch (error) {
+      console.error("Error generating XML grade file:", error);
+      toast.error("Failed to generate XML grade file");
+    }
+  };
+
+  const handleDownloadFeedbackZip = async () => {
+    try {
+      const { blob, included, skipped } = await generateFeedbackZip(grades, assignmentData);
+      
+      if (included === 0) {
+        toast.error("No feedback files could be created. Students need a Moodle participant ID (e.g. \"Participant 123456\") and a grade or feedback.");
+        return;
+      }
+      
+      const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+      downloadZip(blob, `moodle_feedback_files_${timestamp}.zip`);
+      
+      if (skipped.length > 0) {
+        toast.warning(`Feedback ZIP downloaded for ${included} students. Skipped ${skipped.length} without a participant ID or feedback.`);
+      } else {
+        toast.success(`Feedback ZIP downloaded for ${included} students`);
+      }
+    } catch (error) {
+      console.error("Error generating feedback ZIP:", error);
+      toast.error("Failed to generate feedback ZIP");
+    }
+  };
+
   // Function to download grading prompts for debugging
   const handleDownloadPrompts = () => {
     const gradingPrompts = localStorage.getItem('grading_prompts');
@@ -164,6 +252,7 @@ const Index = () => {
                   files={files}
                   onFilesSelected={handleFilesSelected}
                   onMoodleGradebookUploaded={handleMoodleGradebookUploaded}
+                  onMatchesConfirmed={handleMatchesConfirmed}
                   onContinue={handleStepOneComplete}
                 />
               </div>
@@ -185,6 +274,18 @@ const Index = () => {
                   onUpdateGrade={handleUpdateGrade}
                   onApproveAll={handleApproveAll}
                   onContinue={handleContinueToDownload}
+                  blindGrading={blindGrading}
+                  onRevealIdentities={handleRevealIdentities}
+                  onStartModeration={handleStartModeration}
+                  onSecondMark={handleSecondMark}
+                  onReconcileGrade={handleReconcileGrade}
+                  onClearModeration={handleClearModeration}
+                  onApplyCurve={handleApplyCurve}
+                  jobProgress={jobProgress}
+                  onPauseGrading={pauseGrading}
+                  onResumeGrading={resumeGrading}
+                  onCancelGrading={cancelGrading}
+                  onRetryFailed={retryFailedGrades}
                 />
               </div>
             )}
@@ -197,7 +298,11 @@ const Index = () => {
                   moodleFormatHeaders={moodleGradebook?.headers}
                   assignmentColumn={moodleGradebook?.assignmentColumn}
                   feedbackColumn={moodleGradebook?.feedbackColumn} 
+                  gradebookFileFormat={moodleGradebook?.fileFormat}
+                  lmsName={lmsAdapter.name}
                   onDownload={handleDownload}
+                  onDownloadXml={moodleGradebook?.headers && lmsAdapter.id === 'moodle' ? handleDownloadXml : undefined}
+                  onDownloadFeedbackZip={lmsAdapter.id === 'moodle' ? handleDownloadFeedbackZip : undefined}
                   onReset={handleReset}
                 />
               </div>
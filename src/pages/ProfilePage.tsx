@@ -7,11 +7,16 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Separator } from '@/components/ui/separator';
 import { TIER_LIMITS, TIER_PRICES } from '@/types/auth';
 import { Progress } from '@/components/ui/progress';
+import { getAccountUsage, formatCost, formatTokens } from '@/utils/usageTracking';
+import OrganizationManager from '@/components/auth/OrganizationManager';
+import DemoProfileMigration from '@/components/auth/DemoProfileMigration';
+import RedactionAuditLog from '@/components/grading/RedactionAuditLog';
 
 const ProfilePage: React.FC = () => {
   const { authState, signOut } = useAuth();
   const navigate = useNavigate();
   const { user, profile } = authState;
+  const aiUsage = React.useMemo(() => getAccountUsage(user?.id), [user?.id]);
 
   // Redirect if not logged in
   React.useEffect(() => {
@@ -69,6 +74,8 @@ const ProfilePage: React.FC = () => {
             <p className="text-muted-foreground">Manage your account and subscription</p>
           </div>
           
+          <DemoProfileMigration />
+          
           <Card>
             <CardHeader>
               <CardTitle>Account Information</CardTitle>
@@ -109,6 +116,38 @@ const ProfilePage: React.FC = () => {
             </CardFooter>
           </Card>
           
+          <Card>
+            <CardHeader>
+              <CardTitle>AI Usage</CardTitle>
+              <CardDescription>Tokens and estimated cost of grading and image text extraction on this device</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid gap-4 sm:grid-cols-2">
+                {[
+                  { label: 'This month', usage: aiUsage.thisMonth },
+                  { label: 'All time', usage: aiUsage.total }
+                ].map(({ label, usage }) => (
+                  <div key={label} className="rounded-md border p-4 space-y-1">
+                    <p className="text-sm font-medium">{label}</p>
+                    <p className="text-2xl font-bold">{formatCost(usage.cost)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatTokens(usage.promptTokens + usage.completionTokens)} tokens in {usage.calls} AI {usage.calls === 1 ? 'call' : 'calls'}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+            <CardFooter>
+              <Button variant="outline" onClick={() => navigate('/usage')}>
+                View usage history
+              </Button>
+            </CardFooter>
+          </Card>
+          
+          <RedactionAuditLog />
+          
+          <OrganizationManager />
+          
           <div>
             <h2 className="text-2xl font-bold tracking-tight">Subscription Plans</h2>
             <p className="text-muted-foreground mb-4">Choose the right plan for your needs</p>
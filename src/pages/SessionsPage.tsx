@@ -0,0 +1,279 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import Header from '@/components/Header';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from 'sonner';
+import { Copy, Download, FolderOpen, GitCompare, Trash2 } from 'lucide-react';
+import {
+  downloadCSV,
+  generateMoodleCSV,
+  generateMoodleSpreadsheet,
+  downloadSpreadsheet,
+  isSpreadsheetFormat,
+  GRADEBOOK_FORMAT_LABELS
+} from '@/utils/csv';
+import { getGradebookExportFilename, getLmsAdapter } from '@/utils/lms';
+import {
+  getGradingSessions,
+  deleteGradingSession,
+  duplicateGradingSession,
+  compareGradingSessions,
+  restoreSessionToWorkflow,
+  type GradingSession
+} from '@/utils/sessionUtils';
+
+const SessionsPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [sessions, setSessions] = useState<GradingSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [showComparison, setShowComparison] = useState(false);
+
+  const loadSessions = async () => {
+    setIsLoading(true);
+    setSessions(await getGradingSessions());
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  const getAverage = (session: GradingSession) => {
+    const graded = session.grades.filter(g => g.grade !== null && g.grade !== undefined);
+    if (graded.length === 0) return null;
+    return Math.round((graded.reduce((sum, g) => sum + g.grade, 0) / graded.length) * 10) / 10;
+  };
+
+  const handleReopen = (session: GradingSession) => {
+    restoreSessionToWorkflow(session);
+    toast.success(`Reopened "${session.name}"`);
+    navigate('/app');
+  };
+
+  const handleDuplicate = async (session: GradingSession) => {
+    try {
+      const copy = await duplicateGradingSession(session.id);
+      toast.success(`Created "${copy.name}"`);
+      await loadSessions();
+    } catch (error) {
+      console.error("Error duplicating session:", error);
+      toast.error("Failed to duplicate session");
+    }
+  };
+
+  const handleDelete = async (session: GradingSession) => {
+    if (!window.confirm(`Delete "${session.name}"? This cannot be undone.`)) return;
+
+    try {
+      await deleteGradingSession(session.id);
+      if (localStorage.getItem('moodle_grader_session_id') === session.id) {
+        localStorage.removeItem('moodle_grader_session_id');
+      }
+      setSelectedIds(ids => ids.filter(id => id !== session.id));
+      toast.success("Session deleted");
+      await loadSessions();
+    } catch (error) {
+      console.error("Error deleting session:", error);
+      toast.error("Failed to delete session");
+    }
+  };
+
+  const handleExport = (session: GradingSession) => {
+    const gradebook = session.gradebook;
+    if (!gradebook || !gradebook.headers || !gradebook.assignmentColumn) {
+      toast.error("This session has no gradebook format saved. Reopen it and upload the gradebook to export.");
+      return;
+    }
+
+    const lmsAdapter = getLmsAdapter(gradebook.lms || 'moodle');
+    const format = {
+      headers: gradebook.headers,
+      assignmentColumn: gradebook.assignmentColumn,
+      feedbackColumn: gradebook.feedbackColumn || (lmsAdapter.supportsFeedbackImport ? `${gradebook.assignmentColumn} (feedback)` : ''),
+      dialect: gradebook.csvDialect,
+      preambleRows: gradebook.preambleRows
+    };
+    const filename = getGradebookExportFilename(lmsAdapter, gradebook.fileFormat, gradebook.csvDialect);
+
+    if (isSpreadsheetFormat(gradebook.fileFormat)) {
+      try {
+        const blob = generateMoodleSpreadsheet(session.grades, format, gradebook.fileFormat, gradebook.sheetName);
+        downloadSpreadsheet(blob, filename);
+        toast.success(`${GRADEBOOK_FORMAT_LABELS[gradebook.fileFormat]} file downloaded`);
+      } catch (error) {
+        console.error("Error generating spreadsheet:", error);
+        toast.error("Failed to generate the spreadsheet");
+      }
+      return;
+    }
+
+    const csvContent = generateMoodleCSV(session.grades, format);
+    downloadCSV(csvContent, filename, gradebook.csvDialect);
+    toast.success("CSV file downloaded");
+  };
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(ids => {
+      if (!checked) return ids.filter(existing => existing !== id);
+      // Only two sessions can be compared, so drop the oldest selection
+      return [...ids, id].slice(-2);
+    });
+  };
+
+  const comparedSessions = selectedIds
+    .map(id => sessions.find(s => s.id === id))
+    .filter(Boolean);
+  const comparisonRows = comparedSessions.length === 2
+    ? compareGradingSessions(comparedSessions[0], comparedSessions[1])
+    : [];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <main className="container mx-auto px-4 py-8">
+        <div className="mx-auto max-w-4xl space-y-8">
+          <div className="flex items-end justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight">Grading History</h1>
+              <p className="text-muted-foreground">Reopen, duplicate, compare or re-export previous grading runs</p>
+            </div>
+            <Button
+              variant="outline"
+              disabled={selectedIds.length !== 2}
+              onClick={() => setShowComparison(true)}
+              className="gap-1.5"
+            >
+              <GitCompare className="h-4 w-4" />
+              Compare selected
+            </Button>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center h-64">
+              <p>Loading...</p>
+            </div>
+          ) : sessions.length === 0 ? (
+            <Card>
+              <CardContent className="py-12 text-center text-muted-foreground">
+                No grading sessions yet. Sessions are saved automatically once submissions have been graded.
+              </CardContent>
+            </Card>
+          ) : (
+            sessions.map(session => {
+              const average = getAverage(session);
+              const approved = session.grades.filter(g => g.status === 'Approved').length;
+
+              return (
+                <Card key={session.id}>
+                  <CardHeader className="flex flex-row items-start gap-4 space-y-0">
+                    <Checkbox
+                      className="mt-1"
+                      checked={selectedIds.includes(session.id)}
+                      onCheckedChange={(checked) => toggleSelected(session.id, checked === true)}
+                      aria-label="Select for comparison"
+                    />
+                    <div className="flex-1 space-y-1">
+                      <CardTitle className="text-lg">{session.name}</CardTitle>
+                      <CardDescription>
+                        Created {new Date(session.createdAt).toLocaleString()} · Updated {new Date(session.updatedAt).toLocaleString()}
+                      </CardDescription>
+                    </div>
+                    {session.profileVersion && (
+                      <Badge variant="outline" title="Assignment profile version used for grading">
+                        Profile v{session.profileVersion.version}{session.profileVersion.modified ? ' (edited)' : ''}
+                      </Badge>
+                    )}
+                    {session.duplicatedFrom && <Badge variant="secondary">Copy</Badge>}
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="flex flex-wrap gap-6 text-sm">
+                      <div>
+                        <p className="font-medium">Students</p>
+                        <p className="text-muted-foreground">{session.grades.length}</p>
+                      </div>
+                      <div>
+                        <p className="font-medium">Approved</p>
+                        <p className="text-muted-foreground">{approved}</p>
+                      </div>
+                      <div>
+                        <p className="font-medium">Average</p>
+                        <p className="text-muted-foreground">
+                          {average !== null ? `${average} / ${session.assignmentData?.gradingScale || 100}` : '—'}
+                        </p>
+                      </div>
+                      <div>
+                        <p className="font-medium">Edits</p>
+                        <p className="text-muted-foreground">{session.edits.length}</p>
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      <Button size="sm" onClick={() => handleReopen(session)} className="gap-1.5">
+                        <FolderOpen className="h-4 w-4" />
+                        Reopen
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => handleDuplicate(session)} className="gap-1.5">
+                        <Copy className="h-4 w-4" />
+                        Duplicate
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => handleExport(session)} className="gap-1.5">
+                        <Download className="h-4 w-4" />
+                        Export CSV
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => handleDelete(session)} className="gap-1.5 text-destructive">
+                        <Trash2 className="h-4 w-4" />
+                        Delete
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })
+          )}
+        </div>
+      </main>
+
+      <Dialog open={showComparison} onOpenChange={setShowComparison}>
+        <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Compare Sessions</DialogTitle>
+            <DialogDescription>
+              {comparedSessions.length === 2 && `${comparedSessions[0].name} (A) vs ${comparedSessions[1].name} (B)`}
+            </DialogDescription>
+          </DialogHeader>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Student</TableHead>
+                <TableHead className="text-right">Grade A</TableHead>
+                <TableHead className="text-right">Grade B</TableHead>
+                <TableHead className="text-right">Difference</TableHead>
+                <TableHead>Feedback</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {comparisonRows.map(row => (
+                <TableRow key={row.key}>
+                  <TableCell>{row.fullName}</TableCell>
+                  <TableCell className="text-right">{row.gradeA ?? '—'}</TableCell>
+                  <TableCell className="text-right">{row.gradeB ?? '—'}</TableCell>
+                  <TableCell className={`text-right ${row.difference > 0 ? 'text-green-600' : row.difference < 0 ? 'text-red-600' : ''}`}>
+                    {row.difference === null ? '—' : `${row.difference > 0 ? '+' : ''}${Math.round(row.difference * 100) / 100}`}
+                  </TableCell>
+                  <TableCell>{row.feedbackChanged ? 'Changed' : ''}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default SessionsPage;
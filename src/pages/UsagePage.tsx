@@ -0,0 +1,275 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import Header from '@/components/Header';
+import { useAuth } from '@/hooks/auth/use-auth';
+import { useOrganizations } from '@/hooks/auth/use-organizations';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { toast } from 'sonner';
+import { ArrowLeft, Download } from 'lucide-react';
+import { downloadCSV } from '@/utils/csv';
+import { formatCost, formatTokens } from '@/utils/usageTracking';
+import {
+  fetchUsageEvents,
+  summarizeUsageByMonth,
+  formatMonth,
+  generateUsageEventsCSV,
+  type UsageEvent
+} from '@/utils/usageLedger';
+
+const RANGE_OPTIONS = [
+  { value: '3', label: 'Last 3 months' },
+  { value: '6', label: 'Last 6 months' },
+  { value: '12', label: 'Last 12 months' }
+];
+
+const costChartConfig: ChartConfig = {
+  cost: { label: 'Estimated cost', color: 'hsl(var(--primary))' }
+};
+
+const tokenChartConfig: ChartConfig = {
+  promptTokens: { label: 'Prompt tokens', color: 'hsl(var(--primary))' },
+  completionTokens: { label: 'Completion tokens', color: 'hsl(var(--muted-foreground))' }
+};
+
+// Scope value for the signed-in user's own usage; otherwise an organization id
+const OWN_USAGE = 'own';
+
+const UsagePage: React.FC = () => {
+  const { authState } = useAuth();
+  const navigate = useNavigate();
+  const { user } = authState;
+  const isDemoUser = user?.id === 'demo-user-id';
+  const { organizations } = useOrganizations();
+  const [range, setRange] = useState('6');
+  const [scope, setScope] = useState(OWN_USAGE);
+  const [events, setEvents] = useState<UsageEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Owners can see the usage pooled in their organizations
+  const ownedOrganizations = useMemo(() => organizations.filter(organization => organization.role === 'owner'), [organizations]);
+  const organizationId = scope === OWN_USAGE ? undefined : scope;
+  const scopeName = ownedOrganizations.find(organization => organization.id === organizationId)?.name;
+
+  const since = useMemo(() => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth() - (Number(range) - 1), 1);
+  }, [range]);
+
+  // Redirect if not logged in
+  useEffect(() => {
+    if (!authState.isLoading && !user) {
+      navigate('/login');
+    }
+  }, [authState.isLoading, user, navigate]);
+
+  useEffect(() => {
+    if (!user || isDemoUser) {
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    fetchUsageEvents(user.id, since, organizationId)
+      .then(setEvents)
+      .catch(error => {
+        console.error("Error loading usage events:", error);
+        toast.error("Failed to load usage history");
+      })
+      .finally(() => setIsLoading(false));
+  }, [user, isDemoUser, since, organizationId]);
+
+  const months = useMemo(() => summarizeUsageByMonth(events, since), [events, since]);
+  const chartData = useMemo(() => months.map(month => ({ ...month, label: formatMonth(month.month) })), [months]);
+  const totals = useMemo(() => months.reduce(
+    (total, month) => ({
+      requests: total.requests + month.requests,
+      students: total.students + month.students,
+      tokens: total.tokens + month.promptTokens + month.completionTokens,
+      cost: total.cost + month.cost
+    }),
+    { requests: 0, students: 0, tokens: 0, cost: 0 }
+  ), [months]);
+
+  const handleExport = () => {
+    if (events.length === 0) {
+      toast.error("No usage to export for this period");
+      return;
+    }
+    const prefix = scopeName ? `ai_usage_${scopeName.replace(/[^a-z0-9]+/gi, '_').toLowerCase()}` : 'ai_usage';
+    downloadCSV(generateUsageEventsCSV(events, !!organizationId), `${prefix}_${since.toISOString().slice(0, 7)}_to_${new Date().toISOString().slice(0, 7)}.csv`);
+  };
+
+  if (authState.isLoading || !user) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <main className="container mx-auto px-4 py-8">
+          <div className="flex items-center justify-center h-64">
+            <p>Loading...</p>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <main className="container mx-auto px-4 py-8">
+        <div className="mx-auto max-w-4xl space-y-6">
+          <div className="flex flex-wrap items-end justify-between gap-4">
+            <div>
+              <Button variant="ghost" size="sm" className="mb-2 -ml-2" onClick={() => navigate('/profile')}>
+                <ArrowLeft className="h-4 w-4 mr-1" />
+                Profile
+              </Button>
+              <h1 className="text-3xl font-bold tracking-tight">Usage History</h1>
+              <p className="text-muted-foreground">
+                {scopeName
+                  ? `AI requests charged to ${scopeName}'s pooled grades, by month`
+                  : 'AI requests made with the shared service, by month'}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              {ownedOrganizations.length > 0 && (
+                <Select value={scope} onValueChange={setScope}>
+                  <SelectTrigger className="w-[200px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={OWN_USAGE}>My usage</SelectItem>
+                    {ownedOrganizations.map(organization => (
+                      <SelectItem key={organization.id} value={organization.id}>Team: {organization.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Select value={range} onValueChange={setRange}>
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RANGE_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" onClick={handleExport} disabled={isDemoUser || events.length === 0}>
+                <Download className="h-4 w-4 mr-2" />
+                Export CSV
+              </Button>
+            </div>
+          </div>
+
+          {isDemoUser ? (
+            <Card>
+              <CardContent className="py-8 text-center text-muted-foreground">
+                Usage history is recorded for signed-up accounts. Create an account to see your usage here.
+              </CardContent>
+            </Card>
+          ) : isLoading ? (
+            <div className="flex items-center justify-center h-64">
+              <p>Loading...</p>
+            </div>
+          ) : (
+            <>
+              <div className="grid gap-4 sm:grid-cols-4">
+                {[
+                  { label: 'Estimated cost', value: formatCost(totals.cost) },
+                  { label: 'Students graded', value: totals.students.toLocaleString() },
+                  { label: 'AI requests', value: totals.requests.toLocaleString() },
+                  { label: 'Tokens', value: formatTokens(totals.tokens) }
+                ].map(({ label, value }) => (
+                  <div key={label} className="rounded-md border p-4 space-y-1">
+                    <p className="text-xs text-muted-foreground">{label}</p>
+                    <p className="text-2xl font-bold">{value}</p>
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid gap-4 md:grid-cols-2">
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg">Cost per Month</CardTitle>
+                    <CardDescription>Estimated at list prices</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <ChartContainer config={costChartConfig} className="h-[220px] w-full">
+                      <BarChart data={chartData}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                        <YAxis tickLine={false} axisLine={false} width={48} tickFormatter={(value: number) => `$${value}`} />
+                        <ChartTooltip content={<ChartTooltipContent formatter={(value) => formatCost(Number(value))} />} />
+                        <Bar dataKey="cost" fill="var(--color-cost)" radius={4} />
+                      </BarChart>
+                    </ChartContainer>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg">Tokens per Month</CardTitle>
+                    <CardDescription>Prompt and completion tokens</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <ChartContainer config={tokenChartConfig} className="h-[220px] w-full">
+                      <BarChart data={chartData}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                        <YAxis tickLine={false} axisLine={false} width={56} />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <ChartLegend content={<ChartLegendContent />} />
+                        <Bar dataKey="promptTokens" stackId="tokens" fill="var(--color-promptTokens)" />
+                        <Bar dataKey="completionTokens" stackId="tokens" fill="var(--color-completionTokens)" radius={[4, 4, 0, 0]} />
+                      </BarChart>
+                    </ChartContainer>
+                  </CardContent>
+                </Card>
+              </div>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Monthly Breakdown</CardTitle>
+                  <CardDescription>Failed requests are refunded and don't count towards your plan</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Month</TableHead>
+                        <TableHead className="text-right">Students</TableHead>
+                        <TableHead className="text-right">Requests</TableHead>
+                        <TableHead className="text-right">Failed</TableHead>
+                        <TableHead className="text-right">Tokens</TableHead>
+                        <TableHead className="text-right">Cost</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {[...months].reverse().map(month => (
+                        <TableRow key={month.month}>
+                          <TableCell>{formatMonth(month.month)}</TableCell>
+                          <TableCell className="text-right">{month.students}</TableCell>
+                          <TableCell className="text-right">{month.requests}</TableCell>
+                          <TableCell className="text-right">{month.errors + month.rejected}</TableCell>
+                          <TableCell className="text-right">{formatTokens(month.promptTokens + month.completionTokens)}</TableCell>
+                          <TableCell className="text-right">{formatCost(month.cost)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default UsagePage;
@@ -3,6 +3,12 @@ import { Database } from '@/integrations/supabase/types';
 
 export type UserProfile = Database['public']['Tables']['users']['Row'];
 export type AssignmentProfile = Database['public']['Tables']['assignment_profiles']['Row'];
+export type Organization = Database['public']['Tables']['organizations']['Row'];
+export type OrganizationRole = Database['public']['Tables']['organization_members']['Row']['role'];
+export type OrganizationMember = Database['public']['Functions']['get_organization_members']['Returns'][number];
+
+// An organization the signed-in user belongs to, with their role in it
+export type OrganizationMembership = Organization & { role: OrganizationRole };
 
 export type AuthState = {
   user: User | null;
@@ -23,4 +29,13 @@ export const TIER_PRICES = {
   free: 0,
   basic: 9,
   premium: 20
-};
\ No newline at end of file
+};
+
+export const ORGANIZATION_ROLE_LABELS: Record<OrganizationRole, string> = {
+  owner: 'Owner',
+  instructor: 'Instructor',
+  ta: 'Teaching assistant'
+};
+
+// Roles that may create and edit profiles shared with the organization
+export const PROFILE_EDITOR_ROLES: OrganizationRole[] = ['owner', 'instructor'];
@@ -0,0 +1,102 @@
+/**
+ * Blind marking: students are reviewed as stable pseudonyms in a random order, with their
+ * identifiers hidden in submissions and feedback, until the instructor finalizes the grades.
+ */
+import type { StudentGrade } from '@/hooks/use-grading-workflow';
+import { buildRedactionTerms, redactText, restoreText } from './piiRedaction';
+
+export interface BlindGradingState {
+  seed: string;      // Decides the review order and pseudonym numbers for this run
+  revealed: boolean; // Set once all grades are finalized
+}
+
+export interface IdentityMask {
+  hide: (text: string) => string;    // Identifiers replaced with placeholders
+  restore: (text: string) => string; // Placeholders put back, for text edited while masked
+}
+
+const BLIND_GRADING_KEY = 'moodle_grader_blind_grading';
+
+export function createBlindGradingState(): BlindGradingState {
+  return { seed: Math.random().toString(36).slice(2, 10), revealed: false };
+}
+
+export function loadBlindGradingState(): BlindGradingState | null {
+  try {
+    const saved = localStorage.getItem(BLIND_GRADING_KEY);
+    return saved ? JSON.parse(saved) : null;
+  } catch (error) {
+    console.error("Error loading blind grading state:", error);
+    return null;
+  }
+}
+
+export function saveBlindGradingState(state: BlindGradingState): void {
+  localStorage.setItem(BLIND_GRADING_KEY, JSON.stringify(state));
+}
+
+export function clearBlindGradingState(): void {
+  localStorage.removeItem(BLIND_GRADING_KEY);
+}
+
+/**
+ * Whether identities should be hidden right now
+ */
+export function isBlindGradingActive(state: BlindGradingState | null | undefined): boolean {
+  return !!state && !state.revealed;
+}
+
+// FNV-1a, so a student keeps their place whatever else is in the list
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  // Final mix, so identifiers that differ only in their last digit don't stay in sequence
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
+
+const studentKey = (grade: StudentGrade) => grade.identifier || grade.fullName;
+
+/**
+ * Indexes into grades in the shuffled review order for this seed
+ */
+export function getBlindOrder(grades: StudentGrade[], seed: string): number[] {
+  return grades
+    .map((grade, index) => ({ index, key: studentKey(grade), hash: hashString(`${seed}:${studentKey(grade)}`) }))
+    .sort((a, b) => a.hash - b.hash || a.key.localeCompare(b.key))
+    .map(entry => entry.index);
+}
+
+/**
+ * "Submission N" per student identifier, numbered in the review order
+ */
+export function getPseudonyms(grades: StudentGrade[], seed: string): Record<string, string> {
+  const pseudonyms: Record<string, string> = {};
+  getBlindOrder(grades, seed).forEach((index, position) => {
+    pseudonyms[studentKey(grades[index])] = `Submission ${position + 1}`;
+  });
+  return pseudonyms;
+}
+
+export function getPseudonym(pseudonyms: Record<string, string>, grade: StudentGrade): string {
+  return pseudonyms[studentKey(grade)] || 'Submission';
+}
+
+/**
+ * Hides the student's identifiers, and classmates' names when given, using the same
+ * placeholders as the redaction applied before grading
+ */
+export function createIdentityMask(student: StudentGrade, classmates: StudentGrade[] = []): IdentityMask {
+  const terms = buildRedactionTerms(student, classmates);
+  return {
+    hide: text => (text ? redactText(text, terms).text : text),
+    restore: text => restoreText(text, terms).text
+  };
+}
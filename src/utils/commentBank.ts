@@ -0,0 +1,95 @@
+/**
+ * Reusable feedback snippets, kept per assignment profile on this device
+ */
+
+export interface CommentSnippet {
+  id: string;
+  text: string;
+  usageCount: number;
+  createdAt: string;
+  lastUsedAt?: string;
+}
+
+const COMMENT_BANK_KEY = 'moodle_grader_comment_bank';
+
+// Bank used when the assignment details weren't loaded from a saved profile
+const SHARED_BANK_KEY = 'shared';
+
+// Snippets included in the grading prompt, oldest first
+const PROMPT_SNIPPET_LIMIT = 25;
+
+function readBanks(): Record<string, CommentSnippet[]> {
+  try {
+    return JSON.parse(localStorage.getItem(COMMENT_BANK_KEY) || '{}');
+  } catch (error) {
+    console.error("Error reading comment bank:", error);
+    return {};
+  }
+}
+
+function saveCommentBank(bankKey: string, snippets: CommentSnippet[]): void {
+  const banks = readBanks();
+  banks[bankKey] = snippets;
+  localStorage.setItem(COMMENT_BANK_KEY, JSON.stringify(banks));
+}
+
+export function getCommentBankKey(assignmentData?: { assignmentProfileId?: string } | null): string {
+  return assignmentData?.assignmentProfileId || SHARED_BANK_KEY;
+}
+
+/**
+ * Snippets in a bank, most used first
+ */
+export function loadCommentBank(bankKey: string): CommentSnippet[] {
+  return [...(readBanks()[bankKey] || [])].sort((a, b) =>
+    b.usageCount - a.usageCount || (b.lastUsedAt || b.createdAt).localeCompare(a.lastUsedAt || a.createdAt)
+  );
+}
+
+/**
+ * Add a snippet, unless the bank already has the same text
+ */
+export function addCommentSnippet(bankKey: string, text: string): CommentSnippet[] {
+  const trimmed = text.trim();
+  const snippets = loadCommentBank(bankKey);
+  if (!trimmed || snippets.some(snippet => snippet.text === trimmed)) return snippets;
+
+  const updated = [
+    ...snippets,
+    { id: `snippet_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`, text: trimmed, usageCount: 0, createdAt: new Date().toISOString() }
+  ];
+  saveCommentBank(bankKey, updated);
+  return loadCommentBank(bankKey);
+}
+
+export function removeCommentSnippet(bankKey: string, id: string): CommentSnippet[] {
+  saveCommentBank(bankKey, loadCommentBank(bankKey).filter(snippet => snippet.id !== id));
+  return loadCommentBank(bankKey);
+}
+
+export function recordSnippetUse(bankKey: string, id: string): CommentSnippet[] {
+  saveCommentBank(bankKey, loadCommentBank(bankKey).map(snippet =>
+    snippet.id === id
+      ? { ...snippet, usageCount: snippet.usageCount + 1, lastUsedAt: new Date().toISOString() }
+      : snippet
+  ));
+  return loadCommentBank(bankKey);
+}
+
+/**
+ * Instruction listing the bank's snippets for the grading prompt, or an empty string when the
+ * assignment doesn't draw from the bank or the bank is empty
+ */
+export function getCommentBankPrompt(assignmentData: { assignmentProfileId?: string; useCommentBank?: boolean }): string {
+  if (!assignmentData?.useCommentBank) return '';
+
+  // Creation order, not usage: usage counts change while a run is in progress, and the prompt
+  // (and the cache key built from it) must stay the same for every submission in the run
+  const snippets = [...(readBanks()[getCommentBankKey(assignmentData)] || [])]
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt) || a.id.localeCompare(b.id))
+    .slice(0, PROMPT_SNIPPET_LIMIT);
+  if (snippets.length === 0) return '';
+
+  return `The instructor keeps a bank of standard comments. Where one fits the submission, use its wording, adapting it only as needed, so feedback stays consistent across students:
+${snippets.map(snippet => `  - ${snippet.text.replace(/\s+/g, ' ')}`).join('\n')}`;
+}
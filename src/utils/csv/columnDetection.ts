@@ -249,3 +249,12 @@ export function findIdColumn(headers: string[]): number {
     'id', 'identifier', 'username', 'user id', 'userid', 'student id', 'studentid'
   ]);
 }
+
+/**
+ * Find the user ID number column (Moodle's "ID number" identity field) from headers
+ */
+export function findIdNumberColumn(headers: string[]): number {
+  return findColumnIndex(headers, [
+    'id number', 'idnumber', 'id-nummer', 'número de id', 'numer id'
+  ]);
+}
@@ -0,0 +1,153 @@
+/**
+ * CSV dialect detection (delimiter, line endings, text encoding) so gradebooks from any Moodle
+ * locale are read correctly and written back in the form they came in
+ */
+
+export type CSVEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+export type CSVLineEnding = '\n' | '\r\n' | '\r';
+
+export interface CSVDialect {
+  delimiter: string;
+  lineEnding: CSVLineEnding;
+  encoding: CSVEncoding;
+  hasBOM: boolean;
+}
+
+export interface DecodedCSV {
+  text: string;
+  encoding: CSVEncoding;
+  hasBOM: boolean;
+}
+
+export const DEFAULT_CSV_DIALECT: CSVDialect = {
+  delimiter: ',',
+  lineEnding: '\n',
+  encoding: 'utf-8',
+  hasBOM: false
+};
+
+// Delimiters Moodle's CSV export can use, most common first since ties go to the earlier one
+export const CSV_DELIMITERS = [',', ';', '\t', '|', ':'];
+
+/**
+ * Guess UTF-16 without a BOM from the zero bytes ASCII text leaves in every other position
+ */
+function detectUtf16(bytes: Uint8Array): CSVEncoding | null {
+  const sampleLength = Math.min(bytes.length, 1024) & ~1;
+  if (sampleLength < 4) return null;
+
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < sampleLength; i += 2) {
+    if (bytes[i] === 0) evenZeros++;
+    if (bytes[i + 1] === 0) oddZeros++;
+  }
+
+  const pairs = sampleLength / 2;
+  if (oddZeros / pairs > 0.3 && evenZeros / pairs < 0.05) return 'utf-16le';
+  if (evenZeros / pairs > 0.3 && oddZeros / pairs < 0.05) return 'utf-16be';
+  return null;
+}
+
+/**
+ * Decode raw file bytes, detecting the encoding from the BOM or the content.
+ * Files that aren't valid UTF-8 are read as Windows-1252, the usual "ANSI" export from Excel.
+ */
+export function decodeCSVBytes(buffer: ArrayBuffer): DecodedCSV {
+  const bytes = new Uint8Array(buffer);
+
+  if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) {
+    return { text: new TextDecoder('utf-8').decode(bytes.subarray(3)), encoding: 'utf-8', hasBOM: true };
+  }
+  if (bytes[0] === 0xFF && bytes[1] === 0xFE) {
+    return { text: new TextDecoder('utf-16le').decode(bytes.subarray(2)), encoding: 'utf-16le', hasBOM: true };
+  }
+  if (bytes[0] === 0xFE && bytes[1] === 0xFF) {
+    return { text: new TextDecoder('utf-16be').decode(bytes.subarray(2)), encoding: 'utf-16be', hasBOM: true };
+  }
+
+  const utf16 = detectUtf16(bytes);
+  if (utf16) {
+    return { text: new TextDecoder(utf16).decode(bytes), encoding: utf16, hasBOM: false };
+  }
+
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'utf-8', hasBOM: false };
+  } catch {
+    console.log("CSV is not valid UTF-8, reading it as Windows-1252");
+    return { text: new TextDecoder('windows-1252').decode(bytes), encoding: 'windows-1252', hasBOM: false };
+  }
+}
+
+/**
+ * Line ending of the first line break outside a quoted cell
+ */
+export function detectLineEnding(text: string): CSVLineEnding {
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && char === '\r') {
+      return text[i + 1] === '\n' ? '\r\n' : '\r';
+    } else if (!inQuotes && char === '\n') {
+      return '\n';
+    }
+  }
+  return '\n';
+}
+
+let windows1252Bytes: Map<string, number> | null = null;
+
+// Built from the platform decoder rather than a hand-written table
+function getWindows1252Bytes(): Map<string, number> {
+  if (!windows1252Bytes) {
+    const allBytes = Uint8Array.from({ length: 256 }, (_, i) => i);
+    const chars = new TextDecoder('windows-1252').decode(allBytes);
+    windows1252Bytes = new Map(Array.from(chars).map((char, i) => [char, i]));
+  }
+  return windows1252Bytes;
+}
+
+/**
+ * Encode CSV text in the dialect's encoding, with a BOM if the original had one
+ * (UTF-16 always gets one so spreadsheet apps recognise it)
+ */
+export function encodeCSV(text: string, dialect: Pick<CSVDialect, 'encoding' | 'hasBOM'>): Uint8Array {
+  switch (dialect.encoding) {
+    case 'utf-16le':
+    case 'utf-16be': {
+      const littleEndian = dialect.encoding === 'utf-16le';
+      const bytes = new Uint8Array(2 + text.length * 2);
+      const view = new DataView(bytes.buffer);
+      view.setUint16(0, 0xFEFF, littleEndian);
+      for (let i = 0; i < text.length; i++) {
+        view.setUint16(2 + i * 2, text.charCodeAt(i), littleEndian);
+      }
+      return bytes;
+    }
+    case 'windows-1252': {
+      const table = getWindows1252Bytes();
+      // Characters the code page can't represent become "?", as Excel does
+      return Uint8Array.from(Array.from(text), char => table.get(char) ?? 0x3F);
+    }
+    default: {
+      const encoded = new TextEncoder().encode(text);
+      if (!dialect.hasBOM) return encoded;
+      const bytes = new Uint8Array(encoded.length + 3);
+      bytes.set([0xEF, 0xBB, 0xBF]);
+      bytes.set(encoded, 3);
+      return bytes;
+    }
+  }
+}
+
+/**
+ * Quote a cell when it contains the delimiter, quotes or a line break
+ */
+export function formatCSVCell(value: string, delimiter: string): string {
+  if (value.includes(delimiter) || value.includes('"') || value.includes('\n') || value.includes('\r')) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
@@ -9,5 +9,17 @@ export * from './parseCSV';
 // Export the Moodle-specific CSV export utilities
 export { generateMoodleCSV, downloadCSV } from './moodleExport';
 
+// Export the CSV dialect and encoding helpers
+export { decodeCSVBytes, DEFAULT_CSV_DIALECT, type CSVDialect } from './dialect';
+
 // Export the Moodle-specific CSV parser
-export { uploadMoodleGradebook } from './moodleParser';
+export { uploadMoodleGradebook, type GradebookUploadOptions } from './moodleParser';
+
+// Export the Excel/OpenDocument gradebook utilities
+export {
+  generateMoodleSpreadsheet,
+  downloadSpreadsheet,
+  isSpreadsheetFormat,
+  GRADEBOOK_FORMAT_LABELS,
+  type GradebookFileFormat
+} from './spreadsheetGradebook';
@@ -4,11 +4,14 @@
  */
 
 import { StudentGrade } from '@/hooks/use-grading-workflow';
+import { DEFAULT_CSV_DIALECT, encodeCSV, formatCSVCell, type CSVDialect } from './dialect';
 
 export interface MoodleGradebookFormat {
   headers: string[];
   assignmentColumn: string;
-  feedbackColumn: string;
+  feedbackColumn: string;   // Empty when the LMS can't import feedback from the grade file
+  dialect?: Pick<CSVDialect, 'delimiter' | 'lineEnding'>; // Defaults to comma-separated with \n
+  preambleRows?: Record<string, string>[]; // Rows between the header and the students, e.g. Canvas "Points Possible"
 }
 
 /**
@@ -18,6 +21,7 @@ export interface MoodleGradebookFormat {
 export function generateMoodleCSV(grades: StudentGrade[], format: MoodleGradebookFormat): string {
   // Extract format information
   const { headers, assignmentColumn, feedbackColumn } = format;
+  const { delimiter, lineEnding } = { ...DEFAULT_CSV_DIALECT, ...format.dialect };
   
   // Validate format information
   if (!headers || !headers.length) {
@@ -35,14 +39,18 @@ export function generateMoodleCSV(grades: StudentGrade[], format: MoodleGradeboo
   console.log(`CSV Export: Assignment column: "${assignmentColumn}", Feedback column: "${feedbackColumn}"`);
   
   // Create header row - using the exact headers from the original gradebook
-  const headerRow = headers.join(',');
+  const headerRow = headers.map(header => formatCSVCell(header, delimiter)).join(delimiter);
+  
+  const preambleRows = (format.preambleRows || []).map(row =>
+    headers.map(header => formatCSVCell(row[header] ?? '', delimiter)).join(delimiter)
+  );
   
   // Create data rows - preserving all original data
   const dataRows = grades.map(grade => {
     // Start with the original row if available - this preserves all original content
     if (!grade.originalRow) {
       console.error('CSV Export: Missing originalRow data for student:', grade.fullName);
-      return headers.map(() => '').join(','); // Return empty row as fallback
+      return headers.map(() => '').join(delimiter); // Return empty row as fallback
     }
     
     const rowData: Record<string, string> = { ...grade.originalRow };
@@ -59,19 +67,16 @@ export function generateMoodleCSV(grades: StudentGrade[], format: MoodleGradeboo
     // Update only the feedback column if it exists and feedback is provided
     if (feedbackColumn && grade.feedback) {
       console.log(`CSV Export: Setting feedback for student "${grade.fullName}" in column "${feedbackColumn}"`);
-      // Wrap feedback in quotes and escape any quotes inside
-      rowData[feedbackColumn] = `"${grade.feedback.replace(/"/g, '""')}"`;
+      // Quoted when the row is written, which keeps multi-line feedback in one cell
+      rowData[feedbackColumn] = grade.feedback;
     }
     
     // Construct the row based on EXACT original headers - this ensures column order is preserved
     return headers.map(header => {
-      const value = rowData[header] !== undefined ? rowData[header] : '';
-      // If the value contains commas or quotes, wrap it in quotes and escape internal quotes
-      if (typeof value === 'string' && (value.includes(',') || value.includes('"'))) {
-        return `"${value.replace(/"/g, '""')}"`;
-      }
-      return value;
-    }).join(',');
+      const value = rowData[header] !== undefined ? String(rowData[header]) : '';
+      // Values containing the delimiter, quotes or line breaks are quoted with internal quotes escaped
+      return formatCSVCell(value, delimiter);
+    }).join(delimiter);
   });
   
   // Log a sample row to verify export format
@@ -80,14 +85,16 @@ export function generateMoodleCSV(grades: StudentGrade[], format: MoodleGradeboo
   }
   
   // Combine header and data rows
-  return [headerRow, ...dataRows].join('\n');
+  return [headerRow, ...preambleRows, ...dataRows].join(lineEnding);
 }
 
 /**
- * Download generated CSV content as a file
+ * Download generated CSV content as a file, encoded like the original gradebook when its dialect is given
  */
-export function downloadCSV(csvContent: string, filename: string): void {
-  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+export function downloadCSV(csvContent: string, filename: string, dialect?: Pick<CSVDialect, 'encoding' | 'hasBOM'>): void {
+  const blob = dialect
+    ? new Blob([encodeCSV(csvContent, dialect)], { type: `text/csv;charset=${dialect.encoding};` })
+    : new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
   const url = URL.createObjectURL(blob);
   const link = document.createElement('a');
   
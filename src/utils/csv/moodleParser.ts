@@ -1,9 +1,12 @@
 
 /**
- * Moodle-specific CSV parser
+ * Gradebook parser (CSV, Excel and OpenDocument), reading the columns the chosen LMS exports
  */
 
-import { parseCSV, extractStudentGrades } from './parseCSV';
+import { parseCSV, type ParsedCSVResult } from './parseCSV';
+import { getGradebookFileFormat, isBinaryWorkbook, isSpreadsheetFormat, parseSpreadsheet, type GradebookFileFormat } from './spreadsheetGradebook';
+import { decodeCSVBytes, DEFAULT_CSV_DIALECT, type CSVDialect } from './dialect';
+import { getLmsAdapter, type LmsId } from '../lms';
 import { StudentGrade } from '@/hooks/use-grading-workflow';
 
 export interface MoodleGradebookData {
@@ -12,26 +15,57 @@ export interface MoodleGradebookData {
   assignmentColumn?: string;
   feedbackColumn?: string;
   hasFirstLastColumns?: boolean;
+  fileFormat?: GradebookFileFormat; // Format the gradebook is exported back to
+  sheetName?: string;               // Sheet read from a spreadsheet gradebook
+  sheetNames?: string[];            // All sheets of a spreadsheet gradebook, for choosing another
+  csvDialect?: CSVDialect;          // Delimiter, line endings and encoding of a CSV gradebook
+  lms?: LmsId;                      // Platform the gradebook was exported from
+  assignmentColumns?: string[];     // Grade columns to choose from in a multi-assignment export
+  preambleRows?: Record<string, string>[]; // Non-student rows after the header, written back unchanged
+}
+
+export interface GradebookUploadOptions {
+  sheetName?: string;        // Sheet to read from a spreadsheet, the first with data when not given
+  assignmentColumn?: string; // Grade column to use when the export has several
+  lms?: LmsId;               // Defaults to the platform last chosen on the upload step
 }
 
 /**
- * Upload and process a Moodle gradebook CSV file
+ * Upload and process a gradebook file exported from the chosen LMS
  */
-export async function uploadMoodleGradebook(file: File): Promise<MoodleGradebookData> {
+export async function uploadMoodleGradebook(file: File, options: GradebookUploadOptions = {}): Promise<MoodleGradebookData> {
+  const adapter = getLmsAdapter(options.lms);
   try {
-    console.log(`Processing Moodle gradebook file: ${file.name} (${file.type}, ${file.size} bytes)`);
+    console.log(`Processing ${adapter.name} gradebook file: ${file.name} (${file.type}, ${file.size} bytes)`);
     
-    // Read the file content
-    const fileText = await readFileAsText(file);
-    if (!fileText) {
-      throw new Error("Could not read file content");
+    const buffer = await file.arrayBuffer();
+    let fileFormat = getGradebookFileFormat(file.name);
+    // Blackboard's "Excel" downloads are tab-delimited text with an .xls extension
+    if (fileFormat === 'xls' && !isBinaryWorkbook(buffer)) {
+      console.log("The .xls file is delimited text, reading it as CSV");
+      fileFormat = 'csv';
     }
+    let parsedCSV: ParsedCSVResult;
+    let formatInfo: Pick<MoodleGradebookData, 'sheetName' | 'sheetNames' | 'csvDialect'> = {};
     
-    // Parse the CSV content
-    const parsedCSV = parseCSV(fileText);
+    if (isSpreadsheetFormat(fileFormat)) {
+      const parsedSheet = parseSpreadsheet(buffer, options.sheetName);
+      parsedCSV = parsedSheet;
+      formatInfo = { sheetName: parsedSheet.sheetName, sheetNames: parsedSheet.sheetNames };
+    } else {
+      // Read the raw bytes so the encoding can be detected instead of assuming UTF-8
+      const { text, encoding, hasBOM } = decodeCSVBytes(buffer);
+      if (!text.trim()) {
+        throw new Error("Could not read file content");
+      }
+      
+      // Parse the CSV content
+      parsedCSV = parseCSV(text);
+      formatInfo = { csvDialect: { ...DEFAULT_CSV_DIALECT, ...parsedCSV.dialect, encoding, hasBOM } };
+    }
     
     // Extract student grades from the parsed CSV
-    const { grades, assignmentColumn, feedbackColumn } = extractStudentGrades(parsedCSV);
+    const { grades, assignmentColumn, feedbackColumn, assignmentColumns, preambleRows } = adapter.readGradebook(parsedCSV, options.assignmentColumn);
     
     // Detect if we have separate first and last name columns
     const hasFirstLastColumns = grades.some(grade => grade.firstName && grade.lastName);
@@ -42,43 +76,28 @@ export async function uploadMoodleGradebook(file: File): Promise<MoodleGradebook
       grades,
       assignmentColumn,
       feedbackColumn,
-      hasFirstLastColumns
+      hasFirstLastColumns,
+      fileFormat,
+      ...formatInfo,
+      lms: adapter.id,
+      assignmentColumns,
+      preambleRows
     };
     
-    console.log("Moodle gradebook parsed successfully:", {
+    console.log(`${adapter.name} gradebook parsed successfully:`, {
       studentCount: grades.length,
       assignmentColumn,
       feedbackColumn,
       hasFirstLastColumns,
-      headerCount: parsedCSV.headers.length
+      headerCount: parsedCSV.headers.length,
+      fileFormat,
+      sheetName: formatInfo.sheetName,
+      csvDialect: formatInfo.csvDialect
     });
     
     return result;
   } catch (error) {
-    console.error("Error processing Moodle gradebook:", error);
-    throw new Error(`Error processing Moodle gradebook: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    console.error(`Error processing ${adapter.name} gradebook:`, error);
+    throw new Error(`Error processing ${adapter.name} gradebook: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
-
-/**
- * Read a file as text
- */
-async function readFileAsText(file: File): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    
-    reader.onload = (event) => {
-      if (event.target?.result) {
-        resolve(event.target.result as string);
-      } else {
-        reject(new Error("FileReader did not return any content"));
-      }
-    };
-    
-    reader.onerror = (error) => {
-      reject(error);
-    };
-    
-    reader.readAsText(file);
-  });
-}
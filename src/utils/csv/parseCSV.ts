@@ -1,23 +1,32 @@
 
 import Papa from 'papaparse';
 import { StudentGrade } from '@/hooks/use-grading-workflow';
+import { CSV_DELIMITERS, detectLineEnding, type CSVDialect } from './dialect';
 
 // Interface for parsed CSV
 export interface ParsedCSVResult {
   headers: string[];
   data: Record<string, string>[];
+  dialect?: Pick<CSVDialect, 'delimiter' | 'lineEnding'>; // Detected from the text, for writing it back
 }
 
 /**
- * Parse a CSV string into headers and data
+ * Parse a CSV string into headers and data, detecting the delimiter and line endings.
+ * Quoted cells may contain delimiters and line breaks.
  */
 export function parseCSV(csvContent: string): ParsedCSVResult {
   try {
     console.log("Parsing CSV content, first 100 chars:", csvContent.substring(0, 100));
     
-    const result = Papa.parse(csvContent, {
+    // A BOM left in the text would end up in the first header
+    const content = csvContent.replace(/^\uFEFF/, '');
+    const lineEnding = detectLineEnding(content);
+    
+    const result = Papa.parse(content, {
       header: true,
-      skipEmptyLines: true
+      skipEmptyLines: true,
+      newline: lineEnding,
+      delimitersToGuess: CSV_DELIMITERS
     });
     
     if (result.errors && result.errors.length > 0) {
@@ -25,11 +34,14 @@ export function parseCSV(csvContent: string): ParsedCSVResult {
     }
     
     const headers = result.meta.fields || [];
+    const delimiter = result.meta.delimiter || ',';
     console.log("CSV headers detected:", headers);
+    console.log(`CSV dialect detected: delimiter ${JSON.stringify(delimiter)}, line ending ${JSON.stringify(lineEnding)}`);
     
     return {
       headers,
-      data: result.data as Record<string, string>[]
+      data: result.data as Record<string, string>[],
+      dialect: { delimiter, lineEnding }
     };
   } catch (error) {
     console.error("Error parsing CSV:", error);
@@ -147,7 +159,8 @@ export function extractStudentGrades(
     // Extract existing grade if available
     let existingGrade = 0;
     if (assignmentColumn && row[assignmentColumn]) {
-      const gradeText = row[assignmentColumn].toString().trim();
+      // Semicolon-separated exports from European locales write decimal commas ("12,5")
+      const gradeText = row[assignmentColumn].toString().trim().replace(/^(\d+),(\d+)$/, '$1.$2');
       if (gradeText && !isNaN(Number(gradeText))) {
         existingGrade = Number(gradeText);
       }
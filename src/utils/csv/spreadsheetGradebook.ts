@@ -0,0 +1,175 @@
+/**
+ * Excel and OpenDocument gradebook utilities, so Moodle's XLSX and ODS gradebook exports can be
+ * imported and written back in the same format
+ */
+
+import * as XLSX from 'xlsx';
+import { StudentGrade } from '@/hooks/use-grading-workflow';
+import type { ParsedCSVResult } from './parseCSV';
+import type { MoodleGradebookFormat } from './moodleExport';
+
+export type GradebookFileFormat = 'csv' | 'xlsx' | 'xls' | 'ods';
+export type SpreadsheetFormat = Exclude<GradebookFileFormat, 'csv'>;
+
+export interface ParsedSpreadsheetResult extends ParsedCSVResult {
+  sheetName: string;
+  sheetNames: string[];
+}
+
+const BOOK_TYPES: Record<SpreadsheetFormat, XLSX.BookType> = {
+  xlsx: 'xlsx',
+  xls: 'biff8',
+  ods: 'ods'
+};
+
+const MIME_TYPES: Record<SpreadsheetFormat, string> = {
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  xls: 'application/vnd.ms-excel',
+  ods: 'application/vnd.oasis.opendocument.spreadsheet'
+};
+
+export const GRADEBOOK_FORMAT_LABELS: Record<GradebookFileFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel',
+  xls: 'Excel',
+  ods: 'OpenDocument'
+};
+
+/**
+ * Gradebook format from the file extension (anything unknown is read as CSV)
+ */
+export function getGradebookFileFormat(fileName: string): GradebookFileFormat {
+  const fileExt = fileName.split('.').pop()?.toLowerCase();
+  return fileExt === 'xlsx' || fileExt === 'xls' || fileExt === 'ods' ? fileExt : 'csv';
+}
+
+export function isSpreadsheetFormat(format: GradebookFileFormat | undefined): format is SpreadsheetFormat {
+  return format === 'xlsx' || format === 'xls' || format === 'ods';
+}
+
+/**
+ * Whether the bytes are a real workbook (OLE2 for .xls, ZIP for .xlsx/.ods) rather than delimited text
+ */
+export function isBinaryWorkbook(data: ArrayBuffer): boolean {
+  const bytes = new Uint8Array(data, 0, Math.min(data.byteLength, 4));
+  const isOle = bytes[0] === 0xD0 && bytes[1] === 0xCF && bytes[2] === 0x11 && bytes[3] === 0xE0;
+  const isZip = bytes[0] === 0x50 && bytes[1] === 0x4B && bytes[2] === 0x03 && bytes[3] === 0x04;
+  return isOle || isZip;
+}
+
+/**
+ * Parse one sheet of a workbook into headers and rows, using the displayed cell text
+ * so values match what a CSV export of the same gradebook would contain
+ */
+export function parseSpreadsheet(data: ArrayBuffer, sheetName?: string): ParsedSpreadsheetResult {
+  const workbook = XLSX.read(data, { type: 'array' });
+  if (workbook.SheetNames.length === 0) {
+    throw new Error('The spreadsheet contains no sheets');
+  }
+
+  const readRows = (name: string) => XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[name], {
+    header: 1,
+    raw: false,
+    defval: '',
+    blankrows: false
+  });
+
+  // Without a choice, skip cover or notes sheets and take the first one with student rows
+  const selectedSheet = sheetName && workbook.SheetNames.includes(sheetName)
+    ? sheetName
+    : workbook.SheetNames.find(name => readRows(name).length > 1) || workbook.SheetNames[0];
+  const rows = readRows(selectedSheet);
+
+  const headers = (rows[0] || []).map(cell => String(cell ?? ''));
+  const dataRows = rows.slice(1).map(row => {
+    const record: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      record[header] = String(row[index] ?? '');
+    });
+    return record;
+  });
+
+  console.log(`Spreadsheet sheet "${selectedSheet}" parsed: ${headers.length} columns, ${dataRows.length} rows`);
+
+  return {
+    headers,
+    data: dataRows,
+    sheetName: selectedSheet,
+    sheetNames: workbook.SheetNames
+  };
+}
+
+// Plain numbers go back as numeric cells; values like "00123" stay text so nothing is lost
+function toCellValue(value: string): string | number {
+  const trimmed = value.trim();
+  if (trimmed !== '' && String(Number(trimmed)) === trimmed) {
+    return Number(trimmed);
+  }
+  return value;
+}
+
+/**
+ * Build a workbook in the gradebook's original format with the grade and feedback columns
+ * filled in, keeping every other column of the original rows as it was
+ */
+export function generateMoodleSpreadsheet(
+  grades: StudentGrade[],
+  format: MoodleGradebookFormat,
+  fileFormat: SpreadsheetFormat,
+  sheetName?: string
+): Blob {
+  const { headers, assignmentColumn, feedbackColumn } = format;
+
+  if (!headers || !headers.length) {
+    throw new Error('Missing headers in gradebook format');
+  }
+
+  if (!assignmentColumn) {
+    throw new Error('Missing assignment column in gradebook format');
+  }
+
+  // Feedback may go in a column the original gradebook didn't have
+  const exportHeaders = feedbackColumn && !headers.includes(feedbackColumn) ? [...headers, feedbackColumn] : headers;
+
+  const rows = grades.map(grade => {
+    const rowData: Record<string, string> = { ...(grade.originalRow || {}) };
+
+    if (grade.grade !== undefined && grade.grade !== null) {
+      rowData[assignmentColumn] = grade.grade.toString();
+    } else if (grade.status === "No Submission") {
+      rowData[assignmentColumn] = '';
+    }
+
+    if (feedbackColumn && grade.feedback) {
+      rowData[feedbackColumn] = grade.feedback;
+    }
+
+    return exportHeaders.map(header => toCellValue(rowData[header] ?? ''));
+  });
+
+  const workbook = XLSX.utils.book_new();
+  const preambleRows = (format.preambleRows || []).map(row => exportHeaders.map(header => toCellValue(row[header] ?? '')));
+  const worksheet = XLSX.utils.aoa_to_sheet([exportHeaders, ...preambleRows, ...rows]);
+  // Sheet names are limited to 31 characters
+  XLSX.utils.book_append_sheet(workbook, worksheet, (sheetName || 'Grades').slice(0, 31));
+
+  const output = XLSX.write(workbook, { bookType: BOOK_TYPES[fileFormat], type: 'array' });
+  console.log(`Spreadsheet Export: ${rows.length} rows written as ${fileFormat}`);
+
+  return new Blob([output], { type: MIME_TYPES[fileFormat] });
+}
+
+/**
+ * Download a generated spreadsheet file
+ */
+export function downloadSpreadsheet(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+
+  link.href = url;
+  link.setAttribute('download', filename);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,150 @@
+/**
+ * Export per-student feedback files in the ZIP layout expected by Moodle's
+ * "Upload multiple feedback files in a zip" assignment action
+ */
+import JSZip from 'jszip';
+import type { StudentGrade } from '@/hooks/use-grading-workflow';
+import type { AssignmentFormData } from '@/components/assignment/AssignmentFormTypes';
+import { extractParticipantId } from './nameMatchingUtils';
+
+export interface FeedbackZipResult {
+  blob: Blob;
+  included: number;
+  skipped: string[]; // Names of students left out (no participant ID or nothing to send back)
+}
+
+const FEEDBACK_FILENAME = 'feedback.html';
+
+/**
+ * Get the Moodle participant ID from the "Identifier" value (e.g. "Participant 123456")
+ */
+export function getParticipantId(grade: StudentGrade): string | null {
+  return extractParticipantId(grade.identifier) ||
+    extractParticipantId(grade.originalRow?.['Identifier']) ||
+    extractParticipantId(grade.originalRow?.['identifier']);
+}
+
+/**
+ * Folder name Moodle uses to match feedback files to a participant
+ */
+export function getFeedbackFolderName(grade: StudentGrade, participantId: string): string {
+  // Slashes would create extra folder levels inside the ZIP
+  const safeName = grade.fullName.replace(/[\\/:*?"<>|]/g, '').trim();
+  return `${safeName}_${participantId}_assignsubmission_file_`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatParagraphs(text: string): string {
+  return text
+    .split(/\n{2,}/)
+    .map(paragraph => `<p>${escapeHtml(paragraph.trim()).replace(/\n/g, '<br>')}</p>`)
+    .join('\n');
+}
+
+/**
+ * Build a standalone HTML feedback document with the criterion table, comments and grade
+ */
+export function buildFeedbackDocument(grade: StudentGrade, assignmentData: AssignmentFormData | null): string {
+  const gradingScale = assignmentData?.gradingScale || 100;
+  const title = assignmentData?.assignmentName || 'Assignment feedback';
+
+  const criteriaTable = grade.criteriaScores && grade.criteriaScores.length > 0
+    ? `
+  <h2>Rubric</h2>
+  <table>
+    <thead>
+      <tr><th>Criterion</th><th>Score</th><th>Comments</th></tr>
+    </thead>
+    <tbody>
+${grade.criteriaScores.map(criterion => `      <tr>
+        <td>${escapeHtml(criterion.name)}</td>
+        <td class="score">${criterion.score} / ${criterion.maxPoints}</td>
+        <td>${escapeHtml(criterion.justification || '')}</td>
+      </tr>`).join('\n')}
+    </tbody>
+  </table>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(title)} – ${escapeHtml(grade.fullName)}</title>
+  <style>
+    body { font-family: Arial, Helvetica, sans-serif; max-width: 800px; margin: 2em auto; line-height: 1.5; color: #222; }
+    h1 { font-size: 1.5em; margin-bottom: 0.2em; }
+    .meta { color: #666; margin-top: 0; }
+    .grade { font-size: 1.25em; font-weight: bold; }
+    table { border-collapse: collapse; width: 100%; margin: 1em 0; }
+    th, td { border: 1px solid #ccc; padding: 0.5em; text-align: left; vertical-align: top; }
+    th { background: #f3f3f3; }
+    td.score { white-space: nowrap; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <p class="meta">${escapeHtml(grade.fullName)}${assignmentData?.courseName ? ` · ${escapeHtml(assignmentData.courseName)}` : ''}</p>
+  <p class="grade">Grade: ${grade.grade !== null && grade.grade !== undefined ? `${grade.grade} / ${gradingScale}` : 'Not graded'}</p>
+${criteriaTable}
+  <h2>Comments</h2>
+  ${grade.feedback ? formatParagraphs(grade.feedback) : '<p>No comments.</p>'}
+</body>
+</html>
+`;
+}
+
+/**
+ * Build the feedback ZIP: one "Full Name_12345_assignsubmission_file_" folder per student
+ */
+export async function generateFeedbackZip(
+  grades: StudentGrade[],
+  assignmentData: AssignmentFormData | null
+): Promise<FeedbackZipResult> {
+  const zip = new JSZip();
+  const skipped: string[] = [];
+  let included = 0;
+
+  grades.forEach(grade => {
+    if (grade.status === 'No Submission' || (!grade.feedback && (grade.grade === null || grade.grade === undefined))) {
+      skipped.push(grade.fullName);
+      return;
+    }
+
+    const participantId = getParticipantId(grade);
+    if (!participantId) {
+      console.warn(`Feedback ZIP: No participant ID for "${grade.fullName}" (identifier: ${grade.identifier})`);
+      skipped.push(grade.fullName);
+      return;
+    }
+
+    const folder = getFeedbackFolderName(grade, participantId);
+    zip.file(`${folder}/${FEEDBACK_FILENAME}`, buildFeedbackDocument(grade, assignmentData));
+    included++;
+  });
+
+  console.log(`Feedback ZIP: ${included} students included, ${skipped.length} skipped`);
+  const blob = await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+  return { blob, included, skipped };
+}
+
+/**
+ * Download a generated ZIP file
+ */
+export function downloadZip(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+
+  link.href = url;
+  link.setAttribute('download', filename);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
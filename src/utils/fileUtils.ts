@@ -9,14 +9,16 @@ import { isImageFile, extractImageText } from './imageUtils';
 
 // DATABASE/CACHING SECTION
 const DB_NAME = 'moodle_grader_file_cache';
+const DB_VERSION = 2;
 const STORE_NAME = 'file_metadata';
+export const SESSIONS_STORE_NAME = 'grading_sessions';
 
 /**
- * Initialize the IndexedDB for file caching
+ * Initialize the IndexedDB for file caching and grading session history
  */
 export async function initFileDatabase(): Promise<IDBDatabase> {
   return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, 1);
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
     
     request.onerror = (event) => {
       console.error('Error opening IndexedDB', event);
@@ -37,6 +39,13 @@ export async function initFileDatabase(): Promise<IDBDatabase> {
         store.createIndex('name', 'name', { unique: false });
         store.createIndex('path', 'path', { unique: false });
       }
+      
+      // Version 2: grading session history
+      if (!db.objectStoreNames.contains(SESSIONS_STORE_NAME)) {
+        const sessionStore = db.createObjectStore(SESSIONS_STORE_NAME, { keyPath: 'id' });
+        sessionStore.createIndex('createdAt', 'createdAt', { unique: false });
+        sessionStore.createIndex('updatedAt', 'updatedAt', { unique: false });
+      }
     };
   });
 }
@@ -0,0 +1,309 @@
+/**
+ * Distribution statistics for a run's grades, and curves applied across all of them
+ */
+import type { StudentGrade } from '@/hooks/use-grading-workflow';
+import { isAwaitingSecondMark } from './moderation';
+import { calculateCriteriaTotal, type CriterionScore } from './rubricUtils';
+
+export interface GradeStatistics {
+  count: number;
+  mean: number;
+  median: number;
+  standardDeviation: number;
+  min: number;
+  max: number;
+}
+
+export interface HistogramBin {
+  label: string;   // Percentage band, e.g. "60–70%"
+  from: number;    // Lower bound in points (inclusive)
+  to: number;      // Upper bound in points (exclusive, except the last bin)
+  count: number;
+  target?: number; // Expected count under the target distribution
+}
+
+export interface CriterionAverage {
+  name: string;
+  average: number;
+  maxPoints: number;
+  percent: number;
+  count: number;
+}
+
+export interface GradeOutlier {
+  index: number;
+  grade: number;
+  direction: 'high' | 'low';
+}
+
+export interface TargetDistribution {
+  mean: number;              // Percent of the grading scale
+  standardDeviation: number; // Percent of the grading scale
+}
+
+export interface GradeCurve {
+  scale: number;        // Multiplier applied first
+  offset: number;       // Points added after scaling
+  floor: number | null; // Lowest grade after the curve
+  cap: number | null;   // Highest grade after the curve
+}
+
+export interface CurveChange {
+  index: number;
+  before: number;
+  after: number;
+}
+
+const TARGET_KEY = 'moodle_grader_target_distribution';
+
+export const DEFAULT_TARGET_DISTRIBUTION: TargetDistribution = { mean: 70, standardDeviation: 12 };
+
+export const IDENTITY_CURVE: GradeCurve = { scale: 1, offset: 0, floor: null, cap: null };
+
+/**
+ * Grades that count towards the distribution: graded submissions only, leaving out scripts whose
+ * first mark is hidden from the second marker until they mark it
+ */
+export function isGradedForStatistics(grade: StudentGrade): boolean {
+  return typeof grade.grade === 'number' && grade.status !== 'No Submission' && grade.status !== 'Error' && !isAwaitingSecondMark(grade);
+}
+
+export function calculateStatistics(values: number[]): GradeStatistics | null {
+  if (values.length === 0) return null;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, value) => sum + value, 0) / sorted.length;
+  const middle = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  const variance = sorted.reduce((sum, value) => sum + (value - mean) ** 2, 0) / sorted.length;
+
+  return {
+    count: sorted.length,
+    mean,
+    median,
+    standardDeviation: Math.sqrt(variance),
+    min: sorted[0],
+    max: sorted[sorted.length - 1]
+  };
+}
+
+export function getGradeValues(grades: StudentGrade[]): number[] {
+  return grades.filter(isGradedForStatistics).map(grade => grade.grade);
+}
+
+// Abramowitz and Stegun approximation of the normal CDF
+function normalCdf(x: number, mean: number, standardDeviation: number): number {
+  const z = (x - mean) / (standardDeviation * Math.SQRT2);
+  const t = 1 / (1 + 0.3275911 * Math.abs(z));
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-z * z);
+  return 0.5 * (1 + (z >= 0 ? erf : -erf));
+}
+
+/**
+ * Counts per 10% band of the grading scale, with the expected counts under the target when given
+ */
+export function buildHistogram(values: number[], maxPoints: number, target?: TargetDistribution): HistogramBin[] {
+  const binCount = 10;
+  const width = maxPoints / binCount;
+
+  return Array.from({ length: binCount }, (_, bin) => {
+    const from = bin * width;
+    const to = (bin + 1) * width;
+    const isLast = bin === binCount - 1;
+    const count = values.filter(value => value >= from && (isLast ? value <= to : value < to)).length;
+
+    let expected: number | undefined;
+    if (target && target.standardDeviation > 0) {
+      const mean = (target.mean / 100) * maxPoints;
+      const sd = (target.standardDeviation / 100) * maxPoints;
+      // The bands at either end take the tails, so the expected counts add up to the class size
+      const lower = bin === 0 ? 0 : normalCdf(from, mean, sd);
+      const upper = isLast ? 1 : normalCdf(to, mean, sd);
+      expected = Math.round((upper - lower) * values.length * 10) / 10;
+    }
+
+    return {
+      label: `${bin * 10}–${(bin + 1) * 10}%`,
+      from,
+      to,
+      count,
+      ...(expected !== undefined ? { target: expected } : {})
+    };
+  });
+}
+
+/**
+ * Average score per rubric criterion across the graded submissions that have a breakdown
+ */
+export function getCriterionAverages(grades: StudentGrade[]): CriterionAverage[] {
+  const totals = new Map<string, { sum: number; maxPoints: number; count: number }>();
+
+  grades.filter(isGradedForStatistics).forEach(grade => {
+    grade.criteriaScores?.forEach(criterion => {
+      const total = totals.get(criterion.name) || { sum: 0, maxPoints: criterion.maxPoints, count: 0 };
+      total.sum += Number(criterion.score) || 0;
+      total.count++;
+      totals.set(criterion.name, total);
+    });
+  });
+
+  return Array.from(totals.entries()).map(([name, total]) => {
+    const average = total.sum / total.count;
+    return {
+      name,
+      average,
+      maxPoints: total.maxPoints,
+      percent: total.maxPoints > 0 ? (average / total.maxPoints) * 100 : 0,
+      count: total.count
+    };
+  });
+}
+
+/**
+ * Grades outside Tukey's fences (1.5 interquartile ranges beyond the quartiles)
+ */
+export function findOutliers(grades: StudentGrade[]): GradeOutlier[] {
+  const values = getGradeValues(grades).sort((a, b) => a - b);
+  if (values.length < 4) return [];
+
+  const quantile = (q: number) => {
+    const position = (values.length - 1) * q;
+    const base = Math.floor(position);
+    const next = values[Math.min(base + 1, values.length - 1)];
+    return values[base] + (position - base) * (next - values[base]);
+  };
+  const q1 = quantile(0.25);
+  const q3 = quantile(0.75);
+  const fence = 1.5 * (q3 - q1);
+
+  const outliers: GradeOutlier[] = [];
+  grades.forEach((grade, index) => {
+    if (!isGradedForStatistics(grade)) return;
+    if (grade.grade < q1 - fence) outliers.push({ index, grade: grade.grade, direction: 'low' });
+    if (grade.grade > q3 + fence) outliers.push({ index, grade: grade.grade, direction: 'high' });
+  });
+  return outliers;
+}
+
+export function loadTargetDistribution(): TargetDistribution {
+  try {
+    const saved = localStorage.getItem(TARGET_KEY);
+    return saved ? { ...DEFAULT_TARGET_DISTRIBUTION, ...JSON.parse(saved) } : DEFAULT_TARGET_DISTRIBUTION;
+  } catch (error) {
+    console.error("Error loading target distribution:", error);
+    return DEFAULT_TARGET_DISTRIBUTION;
+  }
+}
+
+export function saveTargetDistribution(target: TargetDistribution): void {
+  localStorage.setItem(TARGET_KEY, JSON.stringify(target));
+}
+
+/**
+ * Grade after the curve: scaled, offset, then held between the floor, the cap and the grading scale
+ */
+export function applyCurveToGrade(grade: number, curve: GradeCurve, maxPoints: number): number {
+  let curved = grade * curve.scale + curve.offset;
+  if (curve.floor !== null) curved = Math.max(curved, curve.floor);
+  if (curve.cap !== null) curved = Math.min(curved, curve.cap);
+  curved = Math.min(Math.max(curved, 0), maxPoints);
+  return Math.round(curved * 10) / 10;
+}
+
+/**
+ * Criterion scores moved in proportion so they add up to the curved grade. Criteria at their
+ * maximum pass what they can't take on to the others; when those left have no score, the points
+ * are shared by the criteria's weight.
+ */
+export function curveCriteriaScores(criteriaScores: CriterionScore[], curvedGrade: number, maxPoints: number): CriterionScore[] {
+  const possible = criteriaScores.reduce((sum, criterion) => sum + criterion.maxPoints, 0);
+  if (possible <= 0 || maxPoints <= 0) return criteriaScores;
+
+  const earned = criteriaScores.reduce((sum, criterion) => sum + criterion.score, 0);
+  const scores = criteriaScores.map(criterion => criterion.score);
+  const fixed = new Set<number>();
+  let remaining = (curvedGrade / maxPoints) * possible;
+
+  // Each pass fixes the criteria that hit their maximum (or zero) and spreads the rest over the others
+  while (fixed.size < scores.length) {
+    const open = criteriaScores.map((_, i) => i).filter(i => !fixed.has(i));
+    let weights = open.map(i => (earned > 0 ? criteriaScores[i].score : 0));
+    if (weights.every(weight => weight <= 0)) weights = open.map(i => criteriaScores[i].maxPoints);
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    if (totalWeight <= 0) break;
+
+    const clamped: number[] = [];
+    open.forEach((i, position) => {
+      const share = (remaining * weights[position]) / totalWeight;
+      scores[i] = Math.min(Math.max(share, 0), criteriaScores[i].maxPoints);
+      if (scores[i] !== share) clamped.push(i);
+    });
+    if (clamped.length === 0) break;
+
+    clamped.forEach(i => {
+      fixed.add(i);
+      remaining -= scores[i];
+    });
+  }
+
+  return criteriaScores.map((criterion, i) => ({ ...criterion, score: Math.round(scores[i] * 100) / 100 }));
+}
+
+/**
+ * A student's grade after the curve, with the criterion breakdown and moderation marks curved to match
+ */
+export function applyCurveToStudent(grade: StudentGrade, curve: GradeCurve, maxPoints: number): StudentGrade {
+  const curved = applyCurveToGrade(grade.grade, curve, maxPoints);
+  const curveMark = (mark?: number) => (typeof mark === 'number' ? applyCurveToGrade(mark, curve, maxPoints) : mark);
+
+  let criteriaScores = grade.criteriaScores;
+  let total = curved;
+  if (criteriaScores && criteriaScores.length > 0) {
+    criteriaScores = curveCriteriaScores(criteriaScores, curved, maxPoints);
+    total = calculateCriteriaTotal(criteriaScores, maxPoints);
+  }
+
+  return {
+    ...grade,
+    grade: total,
+    ...(criteriaScores ? { criteriaScores } : {}),
+    ...(grade.moderation
+      ? {
+          moderation: {
+            ...grade.moderation,
+            firstMark: curveMark(grade.moderation.firstMark),
+            secondMark: curveMark(grade.moderation.secondMark),
+            finalGrade: grade.moderation.finalGrade !== undefined ? total : undefined
+          }
+        }
+      : {})
+  };
+}
+
+/**
+ * Grades the curve would change, for previewing before it is applied. Computed the same way the
+ * curve is applied, so a criterion total that rounds differently shows in the preview too.
+ */
+export function previewCurve(grades: StudentGrade[], curve: GradeCurve, maxPoints: number): CurveChange[] {
+  const changes: CurveChange[] = [];
+  grades.forEach((grade, index) => {
+    if (!isGradedForStatistics(grade)) return;
+    const after = applyCurveToStudent(grade, curve, maxPoints).grade;
+    if (after !== grade.grade) changes.push({ index, before: grade.grade, after });
+  });
+  return changes;
+}
+
+/**
+ * Scale and offset that move the current mean and spread onto the target distribution
+ */
+export function getCurveForTarget(statistics: GradeStatistics, target: TargetDistribution, maxPoints: number): GradeCurve {
+  const targetMean = (target.mean / 100) * maxPoints;
+  const targetSd = (target.standardDeviation / 100) * maxPoints;
+  const scale = statistics.standardDeviation > 0 ? Math.round((targetSd / statistics.standardDeviation) * 100) / 100 : 1;
+  return {
+    ...IDENTITY_CURVE,
+    scale,
+    offset: Math.round((targetMean - statistics.mean * scale) * 10) / 10
+  };
+}
@@ -0,0 +1,199 @@
+/**
+ * Grading job control (pause / resume / cancel) and per-student progress that survives a reload
+ */
+import type { StudentGrade } from '@/hooks/use-grading-workflow';
+import type { AssignmentFormData } from '@/components/assignment/AssignmentFormTypes';
+import { onRateLimit } from './requestRetry';
+
+export type StudentJobStatus = 'queued' | 'in-progress' | 'done' | 'failed';
+
+export type GradingJobStatus = 'running' | 'paused' | 'cancelled' | 'completed';
+
+export interface GradingJobProgress {
+  jobKey: string;
+  status: GradingJobStatus;
+  students: Record<string, StudentJobStatus>;
+  completedGrades: Record<string, StudentGrade>; // Keyed by the student name from the submission folder
+  startedAt: string;
+  updatedAt: string;
+  concurrency?: number; // Students currently graded in parallel (lowered while the provider is rate limiting)
+}
+
+export interface GradingJobController {
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  isPaused: () => boolean;
+  isCancelled: () => boolean;
+  waitWhilePaused: () => Promise<void>;
+}
+
+export interface AdaptiveConcurrencyOptions {
+  maxConcurrency?: number;
+  onConcurrencyChange?: (concurrency: number) => void;
+}
+
+const JOB_PROGRESS_KEY = 'moodle_grader_job_progress';
+
+export const MAX_GRADING_CONCURRENCY = 5;
+// Ignore further rate-limit signals for a while after reducing, since requests already in flight report the same limit
+const RATE_LIMIT_COOLDOWN_MS = 10000;
+// Completed students needed before trying one more parallel request again
+const CONCURRENCY_GROWTH_INTERVAL = 5;
+
+/**
+ * Create a controller shared by the grading workers. Workers check it between students,
+ * so a submission already being graded always finishes.
+ */
+export function createGradingJobController(): GradingJobController {
+  let paused = false;
+  let cancelled = false;
+  let resumeWaiters: Array<() => void> = [];
+
+  const releaseWaiters = () => {
+    resumeWaiters.forEach(resolve => resolve());
+    resumeWaiters = [];
+  };
+
+  return {
+    pause: () => {
+      paused = true;
+    },
+    resume: () => {
+      paused = false;
+      releaseWaiters();
+    },
+    cancel: () => {
+      cancelled = true;
+      paused = false;
+      releaseWaiters();
+    },
+    isPaused: () => paused,
+    isCancelled: () => cancelled,
+    waitWhilePaused: () => {
+      if (!paused) return Promise.resolve();
+      return new Promise<void>(resolve => resumeWaiters.push(resolve));
+    }
+  };
+}
+
+/**
+ * Run a task for every item with a worker pool that halves its concurrency when the provider
+ * rate limits and slowly grows back after successes. Respects pause and cancel between items.
+ * Returns the items that never started because the job was cancelled.
+ */
+export async function runWithAdaptiveConcurrency(
+  items: string[],
+  task: (item: string) => Promise<void>,
+  controller: GradingJobController,
+  options: AdaptiveConcurrencyOptions = {}
+): Promise<string[]> {
+  const maxConcurrency = options.maxConcurrency || MAX_GRADING_CONCURRENCY;
+  const queue = [...items];
+  let limit = maxConcurrency;
+  let active = 0;
+  let completedSinceChange = 0;
+  let lastReducedAt = 0;
+  let slotWaiters: Array<() => void> = [];
+
+  const releaseSlotWaiters = () => {
+    slotWaiters.forEach(resolve => resolve());
+    slotWaiters = [];
+  };
+
+  const setLimit = (next: number) => {
+    limit = next;
+    completedSinceChange = 0;
+    options.onConcurrencyChange?.(limit);
+    releaseSlotWaiters();
+  };
+
+  const unsubscribe = onRateLimit(() => {
+    const now = Date.now();
+    if (limit <= 1 || now - lastReducedAt < RATE_LIMIT_COOLDOWN_MS) return;
+
+    lastReducedAt = now;
+    console.warn(`Rate limited - reducing grading concurrency from ${limit} to ${Math.max(1, Math.floor(limit / 2))}`);
+    setLimit(Math.max(1, Math.floor(limit / 2)));
+  });
+
+  const worker = async () => {
+    while (queue.length > 0) {
+      await controller.waitWhilePaused();
+      if (controller.isCancelled()) return;
+
+      // Wait for a free slot when the limit has been lowered below the number of workers
+      if (active >= limit) {
+        await new Promise<void>(resolve => slotWaiters.push(resolve));
+        continue;
+      }
+
+      const item = queue.shift();
+      if (item === undefined) return;
+
+      active++;
+      try {
+        await task(item);
+      } finally {
+        active--;
+        completedSinceChange++;
+        if (limit < maxConcurrency && completedSinceChange >= CONCURRENCY_GROWTH_INTERVAL) {
+          console.log(`Increasing grading concurrency to ${limit + 1}`);
+          setLimit(limit + 1);
+        }
+        releaseSlotWaiters();
+      }
+    }
+  };
+
+  options.onConcurrencyChange?.(limit);
+  console.log(`Processing ${items.length} students with up to ${maxConcurrency} in parallel`);
+
+  try {
+    await Promise.all(Array.from({ length: Math.min(maxConcurrency, queue.length) }, () => worker()));
+  } finally {
+    unsubscribe();
+  }
+
+  return queue;
+}
+
+/**
+ * Identify a job by assignment and the set of students, so saved progress is only reused for the same run
+ */
+export function buildJobKey(assignmentData: AssignmentFormData | null, studentNames: string[]): string {
+  const students = [...studentNames].sort().join('|');
+  let hash = 0;
+  for (let i = 0; i < students.length; i++) {
+    hash = (hash * 31 + students.charCodeAt(i)) | 0;
+  }
+  return `${assignmentData?.assignmentName || 'assignment'}::${studentNames.length}::${hash}`;
+}
+
+/**
+ * Load saved progress for a job, ignoring progress that belongs to a different run
+ */
+export function loadJobProgress(jobKey: string): GradingJobProgress | null {
+  try {
+    const saved = localStorage.getItem(JOB_PROGRESS_KEY);
+    if (!saved) return null;
+
+    const progress: GradingJobProgress = JSON.parse(saved);
+    return progress.jobKey === jobKey ? progress : null;
+  } catch (error) {
+    console.error("Error loading grading job progress:", error);
+    return null;
+  }
+}
+
+export function saveJobProgress(progress: GradingJobProgress): void {
+  try {
+    localStorage.setItem(JOB_PROGRESS_KEY, JSON.stringify(progress));
+  } catch (error) {
+    console.error("Error saving grading job progress:", error);
+  }
+}
+
+export function clearJobProgress(): void {
+  localStorage.removeItem(JOB_PROGRESS_KEY);
+}
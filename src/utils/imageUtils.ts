@@ -1,5 +1,8 @@
 import { createWorker } from 'tesseract.js';
 import { supabase } from "@/integrations/supabase/client";
+import { getActiveProviderSettings, sendChatCompletion, type LLMProviderSettings } from "./llmProviders";
+import { extractTokenUsage, recordFileUsage } from "./usageTracking";
+import { IMAGE_DESCRIPTION_PROMPT, IMAGE_TEXT_EXTRACTION_PROMPT } from "../../supabase/functions/_shared/imageExtraction";
 
 // Cache for storing image text extraction results to avoid duplicate API calls
 const imageExtractionCache = new Map<string, string>();
@@ -88,7 +91,8 @@ export const fileUtils = {
  */
 export async function processImageWithOpenAI(
   file: File, 
-  prompt: string = "Describe this image in detail and extract any visible text"
+  prompt: string = IMAGE_DESCRIPTION_PROMPT,
+  providerSettings: LLMProviderSettings = getActiveProviderSettings()
 ): Promise<string> {
   try {
     // Generate a cache key for this specific file
@@ -131,9 +135,10 @@ export async function processImageWithOpenAI(
     const personalKey = localStorage.getItem("openai_api_key");
     
     // Prepare headers for the request - always prefer server-side key
+    const sessionToken = (await supabase.auth.getSession()).data?.session?.access_token;
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
-      'Authorization': `Bearer ${supabase.auth.getSession()?.data?.session?.access_token || (supabase as any).supabaseKey}`,
+      'Authorization': `Bearer ${sessionToken || (supabase as any).supabaseKey}`,
       'x-use-server-key': 'true'
     };
     
@@ -149,22 +154,20 @@ export async function processImageWithOpenAI(
     
     console.log('Making image processing request to OpenAI using Edge Function');
     
-    // Call OpenAI through our Edge Function
+    // Call the configured provider through our Edge Function
     const requestBody = {
-      model: "gpt-4o-mini",
+      model: providerSettings.model,
       messages: messages,
       temperature: 0.7,
       max_tokens: 1000
     };
     
-    // Make the request through our Edge Function
-    const response = await fetch(
+    // Make the request through our Edge Function (or the local/offline provider)
+    const response = await sendChatCompletion(
       "https://owaqnztggyxahjhbcylj.supabase.co/functions/v1/openai-proxy",
-      {
-        method: 'POST',
-        headers: headers,
-        body: JSON.stringify(requestBody)
-      }
+      requestBody,
+      headers,
+      providerSettings
     );
     
     if (!response.ok) {
@@ -174,6 +177,7 @@ export async function processImageWithOpenAI(
     }
     
     const data = await response.json();
+    recordFileUsage(file, extractTokenUsage(data, providerSettings.model));
     
     if (data.choices && data.choices[0]?.message?.content) {
       const imageDescription = data.choices[0].message.content;
@@ -242,13 +246,7 @@ export async function extractImageText(file: File, useAI: boolean = true): Promi
   try {
     // Try OpenAI first if enabled
     if (useAI) {
-      const prompt = "You are a teaching assistant grading a student's submission. " +
-                    "Please extract all text from this image, preserve formatting where possible, " +
-                    "and describe any diagrams, charts or visual elements that are relevant to academic grading. " +
-                    "If you can't extract meaningful text, please state that this appears to be an image " +
-                    "without substantial text content.";
-      
-      const oaiResult = await processImageWithOpenAI(file, prompt);
+      const oaiResult = await processImageWithOpenAI(file, IMAGE_TEXT_EXTRACTION_PROMPT);
       
       if (oaiResult && !oaiResult.includes("Error processing image")) {
         return oaiResult;
@@ -0,0 +1,342 @@
+/**
+ * LLM provider layer used by grading and image processing.
+ * Requests are always built in the OpenAI chat-completions format; the edge function
+ * translates them for other vendors, and responses come back in the same format.
+ */
+import { fetchWithRetry } from './requestRetry';
+
+export type LLMProviderId = 'openai' | 'anthropic' | 'azure-openai' | 'openai-compatible' | 'fake';
+
+export interface LLMProviderSettings {
+  provider: LLMProviderId;
+  model: string;
+  baseUrl?: string; // Only used by openai-compatible servers (e.g. http://localhost:11434/v1 for Ollama)
+  usageContext?: UsageContext;
+}
+
+/**
+ * The assignment a request belongs to, recorded by the proxy in the usage ledger
+ */
+export interface UsageContext {
+  assignmentProfileId?: string;
+  assignmentName?: string;
+}
+
+export interface LLMProviderInfo {
+  label: string;
+  description: string;
+  defaultModel: string;
+  suggestedModels: string[];
+  supportsVision: boolean;
+}
+
+interface JSONSchema {
+  type?: string;
+  description?: string;
+  enum?: string[];
+  items?: JSONSchema;
+  properties?: Record<string, JSONSchema>;
+}
+
+interface FunctionDefinition {
+  name: string;
+  description?: string;
+  parameters: JSONSchema;
+}
+
+export interface ChatRequestBody {
+  model?: string;
+  messages: unknown[];
+  functions?: FunctionDefinition[];
+  function_call?: { name: string };
+  [key: string]: unknown;
+}
+
+interface ChatCompletionData {
+  choices?: Array<{
+    message?: {
+      tool_calls?: Array<{ function?: { name: string; arguments: unknown } }>;
+      [key: string]: unknown;
+    };
+    [key: string]: unknown;
+  }>;
+  [key: string]: unknown;
+}
+
+export const LLM_PROVIDERS: Record<LLMProviderId, LLMProviderInfo> = {
+  'openai': {
+    label: 'OpenAI',
+    description: 'OpenAI models through the server-side proxy',
+    defaultModel: 'gpt-4o-mini',
+    suggestedModels: ['gpt-4o-mini', 'gpt-4o', 'gpt-4.1-mini', 'gpt-4.1'],
+    supportsVision: true
+  },
+  'anthropic': {
+    label: 'Anthropic',
+    description: 'Claude models through the server-side proxy',
+    defaultModel: 'claude-3-5-haiku-latest',
+    suggestedModels: ['claude-3-5-haiku-latest', 'claude-3-5-sonnet-latest', 'claude-3-7-sonnet-latest'],
+    supportsVision: true
+  },
+  'azure-openai': {
+    label: 'Azure OpenAI',
+    description: 'Your institution\'s Azure OpenAI deployment (model is the deployment name)',
+    defaultModel: 'gpt-4o-mini',
+    suggestedModels: ['gpt-4o-mini', 'gpt-4o'],
+    supportsVision: true
+  },
+  'openai-compatible': {
+    label: 'Local / OpenAI-compatible',
+    description: 'Ollama, llama.cpp or any server exposing /v1/chat/completions',
+    defaultModel: 'llama3.1',
+    suggestedModels: ['llama3.1', 'qwen2.5', 'mistral', 'llava'],
+    supportsVision: false
+  },
+  'fake': {
+    label: 'Offline test provider',
+    description: 'Returns simulated responses without calling any model',
+    defaultModel: 'fake-grader',
+    suggestedModels: ['fake-grader'],
+    supportsVision: true
+  }
+};
+
+export const DEFAULT_PROVIDER_SETTINGS: LLMProviderSettings = {
+  provider: 'openai',
+  model: LLM_PROVIDERS['openai'].defaultModel
+};
+
+/**
+ * Resolve provider settings from assignment data, falling back to the OpenAI defaults
+ */
+export function getProviderSettings(assignmentData?: {
+  llmProvider?: string;
+  llmModel?: string;
+  llmBaseUrl?: string;
+  assignmentProfileId?: string;
+  assignmentName?: string;
+} | null): LLMProviderSettings {
+  const provider = (assignmentData?.llmProvider || DEFAULT_PROVIDER_SETTINGS.provider) as LLMProviderId;
+
+  if (!LLM_PROVIDERS[provider]) {
+    console.warn(`Unknown LLM provider "${provider}", falling back to OpenAI`);
+    return { ...DEFAULT_PROVIDER_SETTINGS };
+  }
+
+  return {
+    provider,
+    model: assignmentData?.llmModel?.trim() || LLM_PROVIDERS[provider].defaultModel,
+    baseUrl: provider === 'openai-compatible' ? assignmentData?.llmBaseUrl?.trim() || undefined : undefined,
+    usageContext: {
+      assignmentProfileId: assignmentData?.assignmentProfileId,
+      assignmentName: assignmentData?.assignmentName
+    }
+  };
+}
+
+/**
+ * Provider settings for the assignment currently being graded (stored when the assignment form is submitted)
+ */
+export function getActiveProviderSettings(): LLMProviderSettings {
+  try {
+    const savedData = localStorage.getItem('moodle_grader_assignment_data');
+    if (savedData) {
+      return getProviderSettings(JSON.parse(savedData));
+    }
+  } catch (error) {
+    console.error("Error reading provider settings from assignment data:", error);
+  }
+  return { ...DEFAULT_PROVIDER_SETTINGS };
+}
+
+const TRUSTED_BASE_URLS_KEY = 'moodle_grader_trusted_llm_urls';
+
+function normalizeBaseUrl(baseUrl: string): string {
+  return baseUrl.trim().replace(/\/+$/, '');
+}
+
+function loadTrustedBaseUrls(): string[] {
+  try {
+    const saved = localStorage.getItem(TRUSTED_BASE_URLS_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.error("Error loading trusted server URLs:", error);
+    return [];
+  }
+}
+
+/**
+ * Whether the user confirmed on this device that submissions may be sent to this server.
+ * Server URLs can arrive in shared or imported profiles, so they are never trusted by default.
+ */
+export function isTrustedBaseUrl(baseUrl: string): boolean {
+  return loadTrustedBaseUrls().includes(normalizeBaseUrl(baseUrl));
+}
+
+export function trustBaseUrl(baseUrl: string): void {
+  const trusted = loadTrustedBaseUrls();
+  const url = normalizeBaseUrl(baseUrl);
+  if (!trusted.includes(url)) {
+    localStorage.setItem(TRUSTED_BASE_URLS_KEY, JSON.stringify([...trusted, url]));
+  }
+}
+
+/**
+ * Send a chat completion request to the configured provider.
+ * Returns a Response whose JSON body is in the OpenAI chat-completions format.
+ * Rate limits, server errors and network errors are retried before the response is returned.
+ */
+export async function sendChatCompletion(
+  proxyUrl: string,
+  requestBody: ChatRequestBody,
+  headers: Record<string, string>,
+  settings: LLMProviderSettings
+): Promise<Response> {
+  const body: ChatRequestBody = { ...requestBody, model: settings.model };
+
+  if (settings.provider === 'fake') {
+    console.log("Using offline test provider - no model will be called");
+    return createFakeResponse(body);
+  }
+
+  // Local servers are called straight from the browser since the edge function can't reach them
+  if (settings.provider === 'openai-compatible' && settings.baseUrl) {
+    if (!isTrustedBaseUrl(settings.baseUrl)) {
+      return jsonResponse({ error: `Submissions weren't sent to ${settings.baseUrl}: confirm this server URL in the assignment settings first` }, 403);
+    }
+
+    const url = `${normalizeBaseUrl(settings.baseUrl)}/chat/completions`;
+    console.log(`Calling OpenAI-compatible server directly: ${url}`);
+
+    const response = await fetchWithRetry(() => fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(toToolsRequest(body))
+    }));
+
+    if (!response.ok) {
+      return response;
+    }
+
+    const data = await response.json();
+    return jsonResponse(fromToolsResponse(data));
+  }
+
+  console.log(`Routing request through proxy to provider: ${settings.provider} (${settings.model})`);
+  return fetchWithRetry(() => fetch(proxyUrl, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ ...body, provider: settings.provider, usage_context: settings.usageContext })
+  }));
+}
+
+/**
+ * Many local servers only understand the newer "tools" format, so convert legacy function calling
+ */
+function toToolsRequest(body: ChatRequestBody): Record<string, unknown> {
+  if (!body.functions) return body;
+
+  const { functions, function_call, ...rest } = body;
+  return {
+    ...rest,
+    tools: functions.map(fn => ({ type: 'function', function: fn })),
+    ...(function_call?.name ? { tool_choice: { type: 'function', function: { name: function_call.name } } } : {})
+  };
+}
+
+/**
+ * Map a "tools" response back to the legacy function_call shape the grading code reads
+ */
+function fromToolsResponse(data: ChatCompletionData): ChatCompletionData {
+  const message = data?.choices?.[0]?.message;
+  const toolCall = message?.tool_calls?.[0];
+
+  if (!toolCall?.function) return data;
+
+  const args = toolCall.function.arguments;
+  return {
+    ...data,
+    choices: [{
+      ...data.choices[0],
+      message: {
+        ...message,
+        function_call: {
+          name: toolCall.function.name,
+          arguments: typeof args === 'string' ? args : JSON.stringify(args)
+        }
+      }
+    }]
+  };
+}
+
+function jsonResponse(data: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+/**
+ * Build a deterministic simulated response from the request's function schema
+ */
+function createFakeResponse(body: ChatRequestBody): Response {
+  const text = JSON.stringify(body.messages || []);
+  // Score between 60% and 95% that depends only on the request content
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = (hash * 31 + text.charCodeAt(i)) % 1000;
+  }
+  const fraction = 0.6 + (hash / 1000) * 0.35;
+
+  const fakeValue = (schema: JSONSchema, name: string): unknown => {
+    if (!schema) return null;
+
+    switch (schema.type) {
+      case 'number':
+      case 'integer': {
+        const maxMatch = String(schema.description || '').match(/out of (\d+(?:\.\d+)?)/i);
+        const max = maxMatch ? parseFloat(maxMatch[1]) : 10;
+        const value = Math.round(max * fraction * 10) / 10;
+        return name.toLowerCase().includes('max') ? Math.min(max, Math.round(max * (fraction + 0.05) * 10) / 10) : value;
+      }
+      case 'string':
+        if (schema.enum) return schema.enum[0];
+        return `Simulated ${name} from the offline test provider.`;
+      case 'array': {
+        const enumProperty = Object.entries(schema.items?.properties || {})
+          .find(([, prop]) => Array.isArray(prop.enum));
+
+        // One entry per enum value (e.g. one score per rubric criterion)
+        if (enumProperty) {
+          const [enumKey, enumSchema] = enumProperty;
+          return enumSchema.enum.map(value => ({
+            ...(fakeValue(schema.items, name) as Record<string, unknown>),
+            [enumKey]: value
+          }));
+        }
+        return [fakeValue(schema.items, name), fakeValue(schema.items, name)];
+      }
+      case 'object': {
+        const result: Record<string, unknown> = {};
+        Object.entries(schema.properties || {}).forEach(([key, prop]) => {
+          result[key] = fakeValue(prop, key);
+        });
+        return result;
+      }
+      default:
+        return null;
+    }
+  };
+
+  const fn = body.functions?.[0];
+  const message = fn
+    ? { role: 'assistant', content: null, function_call: { name: fn.name, arguments: JSON.stringify(fakeValue(fn.parameters, fn.name)) } }
+    : { role: 'assistant', content: 'Simulated response from the offline test provider. No text was extracted.' };
+
+  return jsonResponse({
+    id: `fake-${Date.now()}`,
+    model: body.model,
+    choices: [{ index: 0, message, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 }
+  });
+}
@@ -0,0 +1,70 @@
+/**
+ * Blackboard: Grade Center "Work Offline > Download" and the assignment's "Download Assignment"
+ * zip, whose files are named "Assignment_username_attempt_YYYY-MM-DD-HH-MM-SS[_filename]"
+ */
+import { findHeader, pickAssignmentColumn, toStudentGrade } from './common';
+import type { LmsAdapter } from './types';
+
+// Grade columns carry the points and the column ID, e.g. "Essay 1 [Total Pts: 100 Score] |152340"
+const ASSIGNMENT_COLUMN_PATTERN = /\[Total Pts:|\|\d+\s*$/i;
+// Calculated columns are ignored on upload, so they can't take a grade
+const CALCULATED_COLUMN_PATTERN = /^(weighted )?total\b|^running total\b/i;
+
+const SUBMISSION_FILE_PATTERN = /_([^_]+)_attempt_\d{4}(?:-\d{2}){5}(?:_|\.|$)/;
+
+export const blackboardAdapter: LmsAdapter = {
+  id: 'blackboard',
+  name: 'Blackboard',
+  studentIdLabel: 'Username',
+  gradebookHint: 'Grade Center > Work Offline > Download (one column, with comments)',
+  submissionsHint: 'Grade Center > column menu > Assignment File Download',
+  supportsFeedbackImport: true,
+
+  readGradebook({ headers, data }, assignmentColumn) {
+    const firstNameColumn = findHeader(headers, [/^first name$/i]);
+    const lastNameColumn = findHeader(headers, [/^last name$/i]);
+    const usernameColumn = findHeader(headers, [/^username$/i]);
+    if (!usernameColumn) {
+      throw new Error('No "Username" column found. Download the gradebook from Blackboard Grade Center > Work Offline.');
+    }
+
+    const emailColumn = findHeader(headers, [/^e-?mail/i]);
+    const feedbackColumn = findHeader(headers, [/^feedback to (learner|user)$/i]);
+    const assignmentColumns = headers.filter(header =>
+      ASSIGNMENT_COLUMN_PATTERN.test(header) && !CALCULATED_COLUMN_PATTERN.test(header.trim())
+    );
+    const selectedColumn = pickAssignmentColumn(assignmentColumns, assignmentColumn);
+
+    const grades = data
+      .filter(row => (row[usernameColumn] || '').trim())
+      .map(row => {
+        const firstName = firstNameColumn ? (row[firstNameColumn] || '').trim() : '';
+        const lastName = lastNameColumn ? (row[lastNameColumn] || '').trim() : '';
+        const username = row[usernameColumn].trim();
+
+        return toStudentGrade(row, {
+          identifier: username,
+          fullName: [firstName, lastName].filter(Boolean).join(' ') || username,
+          firstName,
+          lastName,
+          email: emailColumn ? (row[emailColumn] || '').trim() : ''
+        }, selectedColumn, feedbackColumn);
+      });
+
+    return { grades, assignmentColumn: selectedColumn, feedbackColumn, assignmentColumns, preambleRows: [] };
+  },
+
+  parseSubmissionName(name) {
+    const match = name.match(SUBMISSION_FILE_PATTERN);
+    return match ? { studentName: match[1], studentId: match[1] } : null;
+  },
+
+  getStudentId(grade) {
+    return grade.originalRow?.['Username']?.trim() || grade.identifier || null;
+  },
+
+  // Grade Center uploads tab-delimited files as .xls
+  getCSVFileExtension(dialect) {
+    return dialect?.delimiter === '\t' ? 'xls' : 'csv';
+  }
+};
@@ -0,0 +1,76 @@
+/**
+ * Canvas: Grades > Export CSV and the assignment's "Download Submissions" zip,
+ * whose files are named "lastfirst_userid_submissionid_filename" (with "_late" after the name
+ * for late submissions)
+ */
+import { findHeader, pickAssignmentColumn, toStudentGrade } from './common';
+import type { LmsAdapter } from './types';
+import type { StudentGrade } from '@/hooks/use-grading-workflow';
+
+// Assignment columns end with the assignment's Canvas ID, e.g. "Essay 1 (48213)"
+const ASSIGNMENT_COLUMN_PATTERN = /\(\d+\)\s*$/;
+
+const SUBMISSION_FILE_PATTERN = /^([a-z0-9-]+?)(?:_late)?_(\d+)(?:_\d+)?_.+$/i;
+
+export const canvasAdapter: LmsAdapter = {
+  id: 'canvas',
+  name: 'Canvas',
+  studentIdLabel: 'Canvas user ID',
+  gradebookHint: 'Grades > Export > Export Entire Gradebook (CSV)',
+  submissionsHint: 'Assignment page > Download Submissions (submissions.zip)',
+  supportsFeedbackImport: false,
+
+  readGradebook({ headers, data }, assignmentColumn) {
+    const studentColumn = findHeader(headers, [/^student$/i, /^student name$/i]);
+    if (!studentColumn) {
+      throw new Error('No "Student" column found. Export the gradebook from Canvas Grades > Export.');
+    }
+
+    const idColumn = findHeader(headers, [/^id$/i]);
+    const loginColumn = findHeader(headers, [/^sis login id$/i]);
+    const assignmentColumns = headers.filter(header => ASSIGNMENT_COLUMN_PATTERN.test(header));
+    const selectedColumn = pickAssignmentColumn(assignmentColumns, assignmentColumn);
+
+    const grades: StudentGrade[] = [];
+    const preambleRows: Record<string, string>[] = [];
+
+    data.forEach((row, index) => {
+      const student = (row[studentColumn] || '').trim();
+      // "Points Possible" and posting-policy rows sit between the header and the students
+      if (!student || /^points possible$/i.test(student)) {
+        preambleRows.push(row);
+        return;
+      }
+
+      // Canvas writes names as "Last, First"
+      const [lastName, firstName] = student.includes(',')
+        ? [student.slice(0, student.indexOf(',')).trim(), student.slice(student.indexOf(',') + 1).trim()]
+        : [student.split(/\s+/).slice(1).join(' '), student.split(/\s+/)[0]];
+      const login = loginColumn ? (row[loginColumn] || '').trim() : '';
+
+      grades.push(toStudentGrade(row, {
+        identifier: (idColumn && row[idColumn]?.trim()) || `id_${index}`,
+        fullName: [firstName, lastName].filter(Boolean).join(' ') || student,
+        firstName,
+        lastName,
+        email: login.includes('@') ? login : ''
+      }, selectedColumn));
+    });
+
+    return { grades, assignmentColumn: selectedColumn, assignmentColumns, preambleRows };
+  },
+
+  parseSubmissionName(name) {
+    const match = name.match(SUBMISSION_FILE_PATTERN);
+    return match ? { studentName: match[1], studentId: match[2] } : null;
+  },
+
+  getStudentId(grade) {
+    const id = grade.originalRow?.['ID']?.trim() || grade.identifier;
+    return /^\d+$/.test(id) ? id : null;
+  },
+
+  getCSVFileExtension() {
+    return 'csv';
+  }
+};
@@ -0,0 +1,63 @@
+/**
+ * Gradebook row helpers shared by the LMS adapters
+ */
+import type { StudentGrade } from '@/hooks/use-grading-workflow';
+
+export interface GradebookStudent {
+  identifier: string;
+  fullName: string;
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+}
+
+/**
+ * Numeric grade in a cell, accepting decimal commas; 0 when empty or not a number
+ */
+export function parseGradeCell(value: string | undefined): number {
+  const gradeText = (value || '').trim().replace(/^(\d+),(\d+)$/, '$1.$2');
+  return gradeText && !isNaN(Number(gradeText)) ? Number(gradeText) : 0;
+}
+
+/**
+ * Gradebook row as a StudentGrade, keeping the whole row for export
+ */
+export function toStudentGrade(
+  row: Record<string, string>,
+  student: GradebookStudent,
+  assignmentColumn?: string,
+  feedbackColumn?: string
+): StudentGrade {
+  const existingGrade = assignmentColumn ? parseGradeCell(row[assignmentColumn]) : 0;
+
+  return {
+    identifier: student.identifier,
+    fullName: student.fullName,
+    firstName: student.firstName,
+    lastName: student.lastName,
+    email: student.email || '',
+    status: existingGrade > 0 ? 'Already Graded' : 'Needs Grading',
+    grade: existingGrade,
+    feedback: feedbackColumn ? (row[feedbackColumn] || '').trim() : '',
+    edited: existingGrade > 0,
+    originalRow: row
+  };
+}
+
+/**
+ * First header matching any of the patterns
+ */
+export function findHeader(headers: string[], patterns: RegExp[]): string | undefined {
+  for (const pattern of patterns) {
+    const header = headers.find(h => pattern.test(h.trim()));
+    if (header) return header;
+  }
+  return undefined;
+}
+
+/**
+ * The chosen grade column if it is one of the candidates, otherwise the first candidate
+ */
+export function pickAssignmentColumn(candidates: string[], requested?: string): string | undefined {
+  return requested && candidates.includes(requested) ? requested : candidates[0];
+}
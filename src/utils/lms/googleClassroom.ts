@@ -0,0 +1,68 @@
+/**
+ * Google Classroom: the "Download these grades as CSV" export and the assignment's Drive folder,
+ * where copies made for each student are named "Student Name - Assignment title"
+ */
+import { findHeader, pickAssignmentColumn, toStudentGrade } from './common';
+import type { LmsAdapter } from './types';
+import type { StudentGrade } from '@/hooks/use-grading-workflow';
+
+const NON_ASSIGNMENT_COLUMN_PATTERN = /^(last name|first name|email address|overall grade)$/i;
+
+export const googleClassroomAdapter: LmsAdapter = {
+  id: 'google-classroom',
+  name: 'Google Classroom',
+  studentIdLabel: 'Email',
+  gradebookHint: 'Grades > Settings > Download these grades as CSV. Classroom can\'t import grade files, so enter the exported grades by hand.',
+  submissionsHint: 'Assignment > Student work > Open the assignment folder in Drive > Download',
+  supportsFeedbackImport: false,
+
+  readGradebook({ headers, data }, assignmentColumn) {
+    const emailColumn = findHeader(headers, [/^email address$/i, /^e-?mail/i]);
+    if (!emailColumn) {
+      throw new Error('No "Email Address" column found. Download the grades as CSV from Google Classroom.');
+    }
+
+    const firstNameColumn = findHeader(headers, [/^first name$/i]);
+    const lastNameColumn = findHeader(headers, [/^last name$/i]);
+    const assignmentColumns = headers.filter(header => header.trim() && !NON_ASSIGNMENT_COLUMN_PATTERN.test(header.trim()));
+    const selectedColumn = pickAssignmentColumn(assignmentColumns, assignmentColumn);
+
+    const grades: StudentGrade[] = [];
+    const preambleRows: Record<string, string>[] = [];
+
+    data.forEach(row => {
+      const email = (row[emailColumn] || '').trim();
+      // Due date, points and class average rows come before the students
+      if (!email) {
+        preambleRows.push(row);
+        return;
+      }
+
+      const firstName = firstNameColumn ? (row[firstNameColumn] || '').trim() : '';
+      const lastName = lastNameColumn ? (row[lastNameColumn] || '').trim() : '';
+      grades.push(toStudentGrade(row, {
+        identifier: email,
+        fullName: [firstName, lastName].filter(Boolean).join(' ') || email,
+        firstName,
+        lastName,
+        email
+      }, selectedColumn));
+    });
+
+    return { grades, assignmentColumn: selectedColumn, assignmentColumns, preambleRows };
+  },
+
+  // Drive file names carry no ID, so these are matched by name
+  parseSubmissionName(name) {
+    const match = name.match(/^(.+?) - .+$/);
+    return match ? { studentName: match[1].trim(), studentId: null } : null;
+  },
+
+  getStudentId(grade) {
+    return grade.email || null;
+  },
+
+  getCSVFileExtension() {
+    return 'csv';
+  }
+};
@@ -0,0 +1,119 @@
+/**
+ * Learning platform adapters: the platform chosen on the upload step decides how the gradebook
+ * is read and written back and how submission downloads are assigned to students
+ */
+import type { StudentGrade } from '@/hooks/use-grading-workflow';
+import type { CSVDialect } from '../csv/dialect';
+import { isSpreadsheetFormat, type GradebookFileFormat } from '../csv/spreadsheetGradebook';
+import { moodleAdapter } from './moodle';
+import { canvasAdapter } from './canvas';
+import { blackboardAdapter } from './blackboard';
+import { googleClassroomAdapter } from './googleClassroom';
+import type { LmsAdapter, LmsId, SubmissionOwner } from './types';
+
+export type { LmsAdapter, LmsGradebook, LmsId, SubmissionOwner } from './types';
+
+export const LMS_ADAPTERS: LmsAdapter[] = [moodleAdapter, canvasAdapter, blackboardAdapter, googleClassroomAdapter];
+
+const SELECTED_LMS_KEY = 'moodle_grader_lms';
+
+export function loadSelectedLms(): LmsId {
+  const saved = localStorage.getItem(SELECTED_LMS_KEY);
+  return LMS_ADAPTERS.some(adapter => adapter.id === saved) ? saved as LmsId : 'moodle';
+}
+
+export function saveSelectedLms(id: LmsId): void {
+  localStorage.setItem(SELECTED_LMS_KEY, id);
+}
+
+/**
+ * Adapter for a platform, defaulting to the one last chosen on the upload step
+ */
+export function getLmsAdapter(id?: LmsId | null): LmsAdapter {
+  const lmsId = id || loadSelectedLms();
+  return LMS_ADAPTERS.find(adapter => adapter.id === lmsId) || moodleAdapter;
+}
+
+/**
+ * Download name for an exported gradebook, with the extension the platform imports
+ */
+export function getGradebookExportFilename(adapter: LmsAdapter, fileFormat?: GradebookFileFormat, dialect?: CSVDialect): string {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const extension = isSpreadsheetFormat(fileFormat) ? fileFormat : adapter.getCSVFileExtension(dialect);
+  return `${adapter.id.replace(/-/g, '_')}_grades_${timestamp}.${extension}`;
+}
+
+export interface SubmissionGroup {
+  studentName: string;
+  files: File[];
+  folders: string[];
+  studentId: string | null;
+}
+
+/**
+ * Key a submission is grouped under: the student's name with their LMS ID when the name carries
+ * one, so two students with the same name stay apart
+ */
+export function getSubmissionKey(owner: SubmissionOwner): string {
+  return owner.studentId ? `${owner.studentName} (${owner.studentId})` : owner.studentName;
+}
+
+/**
+ * Group submission files by student. A folder named after its student (Moodle) takes all its
+ * files; otherwise each file is assigned by its own name (Canvas, Blackboard, Classroom downloads).
+ */
+export function groupSubmissionsByStudent(
+  folderStructure: { [folder: string]: File[] },
+  adapter: LmsAdapter
+): Record<string, SubmissionGroup> {
+  const groups: Record<string, SubmissionGroup> = {};
+
+  const addFiles = (owner: SubmissionOwner, folder: string, files: File[]) => {
+    const key = getSubmissionKey(owner);
+    if (!groups[key]) {
+      groups[key] = { studentName: owner.studentName, files: [], folders: [], studentId: owner.studentId };
+    }
+    groups[key].files.push(...files);
+    if (!groups[key].folders.includes(folder)) {
+      groups[key].folders.push(folder);
+    }
+  };
+
+  Object.entries(folderStructure).forEach(([folderPath, files]) => {
+    const folderName = folderPath.split('/').filter(Boolean).pop() || folderPath;
+    const folderOwner = folderPath === 'root' ? null : adapter.parseSubmissionName(folderName);
+    if (folderOwner) {
+      addFiles(folderOwner, folderPath, files);
+      console.log(`Mapped folder "${folderPath}" to student "${folderOwner.studentName}" with ${files.length} files`);
+      return;
+    }
+
+    files.forEach(file => {
+      const fileOwner = adapter.parseSubmissionName(file.name);
+      if (fileOwner) {
+        addFiles(fileOwner, folderPath, [file]);
+      } else if (folderPath === 'root') {
+        console.warn(`Could not determine student name for root file: ${file.name}`);
+      }
+    });
+  });
+
+  return groups;
+}
+
+/**
+ * Find a gradebook student by the ID a submission name carries
+ */
+export function findStudentByLmsId<T extends StudentGrade>(
+  studentId: string | null,
+  gradebookStudents: T[],
+  adapter: LmsAdapter
+): T | null {
+  if (!studentId) return null;
+
+  const match = gradebookStudents.find(student => adapter.getStudentId(student) === studentId);
+  if (match) {
+    console.log(`✓ MATCH FOUND [${adapter.studentIdLabel}]: ${studentId} = "${match.fullName}"`);
+  }
+  return match || null;
+}
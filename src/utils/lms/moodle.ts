@@ -0,0 +1,41 @@
+/**
+ * Moodle: grading worksheet CSV and "Download all submissions" folders named
+ * "Jane Doe_123456_assignsubmission_file_"
+ */
+import { extractStudentGrades } from '../csv/parseCSV';
+import { extractParticipantId, parseSubmissionFolderName } from '../nameMatchingUtils';
+import type { LmsAdapter } from './types';
+
+export const moodleAdapter: LmsAdapter = {
+  id: 'moodle',
+  name: 'Moodle',
+  studentIdLabel: 'Participant ID',
+  gradebookHint: 'Assignment > View all submissions > Grading action > Download grading worksheet',
+  submissionsHint: 'Assignment > View all submissions > Grading action > Download all submissions',
+  supportsFeedbackImport: true,
+
+  readGradebook(parsed, assignmentColumn) {
+    const result = extractStudentGrades(parsed, assignmentColumn);
+    return {
+      grades: result.grades,
+      assignmentColumn: result.assignmentColumn,
+      feedbackColumn: result.feedbackColumn,
+      assignmentColumns: [],
+      preambleRows: []
+    };
+  },
+
+  parseSubmissionName(name) {
+    if (!name.includes('_assignsubmission_') && !name.includes('_onlinetext_')) return null;
+    const { studentName, participantId } = parseSubmissionFolderName(name);
+    return studentName ? { studentName, studentId: participantId } : null;
+  },
+
+  getStudentId(grade) {
+    return extractParticipantId(grade.identifier) || extractParticipantId(grade.originalRow?.['Identifier']);
+  },
+
+  getCSVFileExtension() {
+    return 'csv';
+  }
+};
@@ -0,0 +1,46 @@
+import type { StudentGrade } from '@/hooks/use-grading-workflow';
+import type { ParsedCSVResult } from '../csv/parseCSV';
+import type { CSVDialect } from '../csv/dialect';
+
+export type LmsId = 'moodle' | 'canvas' | 'blackboard' | 'google-classroom';
+
+/**
+ * Student a submission folder or file belongs to, as far as its name tells
+ */
+export interface SubmissionOwner {
+  studentName: string;
+  studentId: string | null; // LMS user/participant ID when the name carries one
+}
+
+export interface LmsGradebook {
+  grades: StudentGrade[];
+  assignmentColumn?: string;
+  feedbackColumn?: string;            // Undefined when the LMS can't import feedback from a grade file
+  assignmentColumns: string[];        // Grade columns to choose from when the export has several assignments
+  preambleRows: Record<string, string>[]; // Non-student rows after the header (e.g. "Points Possible"), written back unchanged
+}
+
+/**
+ * Everything that differs between learning platforms: the gradebook export layout,
+ * how submission downloads are named, and how students are identified
+ */
+export interface LmsAdapter {
+  id: LmsId;
+  name: string;
+  studentIdLabel: string;   // What the ID in submission names is called, e.g. "Participant ID"
+  gradebookHint: string;    // Where to find the gradebook export
+  submissionsHint: string;  // Where to download the submissions
+  supportsFeedbackImport: boolean;
+
+  /** Student rows and grade columns of the platform's gradebook export */
+  readGradebook(parsed: ParsedCSVResult, assignmentColumn?: string): LmsGradebook;
+
+  /** Owner of a submission folder or file, or null if the name isn't one of the platform's submissions */
+  parseSubmissionName(name: string): SubmissionOwner | null;
+
+  /** ID of a gradebook student as it appears in submission names */
+  getStudentId(grade: StudentGrade): string | null;
+
+  /** Extension the platform expects for a re-uploaded CSV gradebook */
+  getCSVFileExtension(dialect?: CSVDialect): string;
+}
@@ -0,0 +1,208 @@
+/**
+ * Second-marker moderation: a sample of first-marked scripts is marked again without seeing the
+ * first mark, and marks further apart than the threshold are reconciled with a note.
+ */
+import type { StudentGrade } from '@/hooks/use-grading-workflow';
+
+export type ModerationSampleMethod = 'random' | 'stratified';
+
+export type ModerationStatus = 'awaiting-second-mark' | 'agreed' | 'disagreement' | 'reconciled';
+
+export interface ModerationSettings {
+  method: ModerationSampleMethod;
+  samplePercent: number; // Share of eligible scripts to second-mark
+  minimumSample: number; // Scripts sampled however small the class
+  threshold: number;     // Points two marks may differ by before they must be reconciled
+}
+
+export interface ModerationRecord {
+  scriptNumber: number;  // Label shown to the second marker
+  status: ModerationStatus;
+  threshold: number;
+  firstMark: number;
+  sampledAt: string;
+  secondMark?: number;
+  secondFeedback?: string;
+  secondMarkedAt?: string;
+  finalGrade?: number;
+  resolutionNote?: string;
+  reconciledAt?: string;
+}
+
+export interface ModerationSummary {
+  sampled: number;
+  awaiting: number;
+  agreed: number;
+  disagreements: number;
+  reconciled: number;
+}
+
+const SETTINGS_KEY = 'moodle_grader_moderation_settings';
+
+export function getDefaultModerationSettings(gradingScale: number): ModerationSettings {
+  return {
+    method: 'stratified',
+    samplePercent: 10,
+    minimumSample: 5,
+    threshold: Math.max(1, Math.round(gradingScale * 0.1))
+  };
+}
+
+export function loadModerationSettings(gradingScale: number): ModerationSettings {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    return { ...getDefaultModerationSettings(gradingScale), ...(saved ? JSON.parse(saved) : {}) };
+  } catch (error) {
+    console.error("Error loading moderation settings:", error);
+    return getDefaultModerationSettings(gradingScale);
+  }
+}
+
+export function saveModerationSettings(settings: ModerationSettings): void {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+/**
+ * Scripts with a reviewed first mark can be sampled
+ */
+export function isEligibleForModeration(grade: StudentGrade): boolean {
+  return !!grade.edited && typeof grade.grade === 'number' && grade.status !== 'No Submission' && grade.status !== 'Error';
+}
+
+export function getSampleSize(eligible: number, settings: ModerationSettings): number {
+  const size = Math.max(Math.ceil(eligible * settings.samplePercent / 100), settings.minimumSample);
+  return Math.min(eligible, Math.max(size, 0));
+}
+
+/**
+ * Indexes of the scripts to second-mark. Stratified sampling splits the scripts, ordered by
+ * first mark, into equal bands and takes one from each, so the whole range of marks is covered.
+ */
+export function selectModerationSample(
+  grades: StudentGrade[],
+  settings: ModerationSettings,
+  random: () => number = Math.random
+): number[] {
+  const eligible = grades
+    .map((grade, index) => ({ grade, index }))
+    .filter(({ grade }) => isEligibleForModeration(grade));
+  const size = getSampleSize(eligible.length, settings);
+  if (size === 0) return [];
+
+  if (settings.method === 'stratified') {
+    const ordered = [...eligible].sort((a, b) => a.grade.grade - b.grade.grade);
+    const sample: number[] = [];
+    for (let band = 0; band < size; band++) {
+      const start = Math.floor((band * ordered.length) / size);
+      const end = Math.floor(((band + 1) * ordered.length) / size);
+      sample.push(ordered[start + Math.floor(random() * (end - start))].index);
+    }
+    return sample;
+  }
+
+  // Partial Fisher-Yates shuffle
+  const pool = eligible.map(({ index }) => index);
+  for (let i = 0; i < size; i++) {
+    const j = i + Math.floor(random() * (pool.length - i));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  return pool.slice(0, size);
+}
+
+/**
+ * Mark the sampled scripts for second marking, numbered in a shuffled order so script numbers
+ * don't follow the class list or the first marks
+ */
+export function startModeration(
+  grades: StudentGrade[],
+  sample: number[],
+  settings: ModerationSettings,
+  random: () => number = Math.random
+): StudentGrade[] {
+  const shuffled = [...sample];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+
+  const sampledAt = new Date().toISOString();
+  return grades.map((grade, index) => {
+    const position = shuffled.indexOf(index);
+    const { moderation, ...rest } = grade;
+    if (position === -1) return rest;
+    return {
+      ...rest,
+      moderation: {
+        scriptNumber: position + 1,
+        status: 'awaiting-second-mark',
+        threshold: settings.threshold,
+        firstMark: grade.grade,
+        sampledAt
+      }
+    };
+  });
+}
+
+/**
+ * Record the second mark. Marks within the threshold agree and the first mark stands.
+ */
+export function recordSecondMark(grade: StudentGrade, secondMark: number, secondFeedback: string): StudentGrade {
+  if (!grade.moderation) return grade;
+
+  const agreed = Math.abs(secondMark - grade.moderation.firstMark) <= grade.moderation.threshold;
+  return {
+    ...grade,
+    moderation: {
+      ...grade.moderation,
+      status: agreed ? 'agreed' : 'disagreement',
+      secondMark,
+      secondFeedback,
+      secondMarkedAt: new Date().toISOString(),
+      finalGrade: agreed ? grade.moderation.firstMark : undefined,
+      resolutionNote: undefined,
+      reconciledAt: undefined
+    }
+  };
+}
+
+/**
+ * Settle on a final grade for a script, which replaces the grade that is exported
+ */
+export function reconcileGrade(grade: StudentGrade, finalGrade: number, resolutionNote: string): StudentGrade {
+  if (!grade.moderation) return grade;
+
+  return {
+    ...grade,
+    grade: finalGrade,
+    edited: true,
+    moderation: {
+      ...grade.moderation,
+      status: 'reconciled',
+      finalGrade,
+      resolutionNote: resolutionNote.trim(),
+      reconciledAt: new Date().toISOString()
+    }
+  };
+}
+
+export function clearModeration(grades: StudentGrade[]): StudentGrade[] {
+  return grades.map(({ moderation, ...grade }) => grade);
+}
+
+export function summarizeModeration(grades: StudentGrade[]): ModerationSummary {
+  const records = grades.map(grade => grade.moderation).filter(Boolean);
+  return {
+    sampled: records.length,
+    awaiting: records.filter(record => record.status === 'awaiting-second-mark').length,
+    agreed: records.filter(record => record.status === 'agreed').length,
+    disagreements: records.filter(record => record.status === 'disagreement').length,
+    reconciled: records.filter(record => record.status === 'reconciled').length
+  };
+}
+
+/**
+ * Whether the first mark should stay hidden, so the second marker isn't anchored by it
+ */
+export function isAwaitingSecondMark(grade: StudentGrade): boolean {
+  return grade.moderation?.status === 'awaiting-second-mark';
+}
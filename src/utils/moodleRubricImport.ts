@@ -0,0 +1,178 @@
+/**
+ * Import rubric and marking guide definitions from Moodle's advanced grading, either the
+ * grading.xml of an activity in a Moodle backup or a rubric template export
+ */
+import type { RubricCriterion } from './rubricUtils';
+
+export type MoodleGradingMethod = 'rubric' | 'guide';
+
+export interface MoodleGradingDefinition {
+  name: string;
+  method: MoodleGradingMethod;
+  description?: string;
+  criteria: RubricCriterion[];
+}
+
+/**
+ * The file doesn't contain a definition we can read
+ */
+export class MoodleRubricImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MoodleRubricImportError';
+  }
+}
+
+const childElements = (parent: Element, tagName?: string): Element[] =>
+  Array.from(parent.childNodes).filter((node): node is Element =>
+    node.nodeType === 1 && (!tagName || (node as Element).tagName === tagName)
+  );
+
+const descendants = (parent: Element | Document, tagName: string): Element[] =>
+  Array.from(parent.getElementsByTagName(tagName));
+
+/**
+ * Text of a child element, or of an attribute with the same name.
+ * Moodle stores formatted text as escaped HTML, so tags are stripped.
+ */
+function readText(element: Element, name: string): string {
+  const child = childElements(element, name)[0];
+  const raw = child ? child.textContent || '' : element.getAttribute(name) || '';
+  return htmlToText(raw);
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>|<\/p>|<\/li>/gi, ' ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;/g, "'")
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+const readNumber = (element: Element, name: string): number => {
+  const value = parseFloat(readText(element, name));
+  return isNaN(value) ? 0 : value;
+};
+
+const sortByOrder = (elements: Element[]) =>
+  [...elements].sort((a, b) => readNumber(a, 'sortorder') - readNumber(b, 'sortorder'));
+
+/**
+ * Criterion names have to survive a round trip through the rubric text format,
+ * so separators are dropped and long descriptions are shortened
+ */
+function toCriterionName(text: string, fallback: string): string {
+  const cleaned = text.replace(/[:()[\]|\-–]/g, ' ').replace(/\s+/g, ' ').trim();
+  if (!cleaned) return fallback;
+  if (cleaned.length <= 60) return cleaned.replace(/[.;,]$/, '');
+
+  const firstClause = cleaned.split(/[.;,]\s/)[0];
+  if (firstClause.length <= 60) return firstClause;
+  return `${firstClause.slice(0, 57).replace(/\s+\S*$/, '')}...`;
+}
+
+function parseRubricCriteria(container: Element): RubricCriterion[] {
+  return sortByOrder(descendants(container, 'criterion')).map((criterion, index) => {
+    const description = readText(criterion, 'description');
+    const levels = sortByOrder(descendants(criterion, 'level'))
+      .map(level => ({ points: readNumber(level, 'score'), description: readText(level, 'definition') }))
+      .sort((a, b) => b.points - a.points);
+
+    const name = toCriterionName(description, `Criterion ${index + 1}`);
+    return {
+      name,
+      maxPoints: levels.length > 0 ? levels[0].points : 0,
+      description: name !== description ? description : undefined,
+      levels: levels.map((level, levelIndex) => ({
+        label: `Level ${levels.length - levelIndex}`,
+        points: level.points,
+        description: level.description || `${level.points} points`
+      }))
+    };
+  });
+}
+
+function parseGuideCriteria(container: Element): RubricCriterion[] {
+  return sortByOrder(descendants(container, 'guidecriterion')).map((criterion, index) => {
+    const description = readText(criterion, 'description');
+    const markers = readText(criterion, 'descriptionmarkers');
+    return {
+      name: toCriterionName(readText(criterion, 'shortname'), `Criterion ${index + 1}`),
+      maxPoints: readNumber(criterion, 'maxscore'),
+      description: [description, markers && `Marker guidance: ${markers}`].filter(Boolean).join(' ') || undefined,
+      levels: []
+    };
+  });
+}
+
+function parseDefinition(element: Element, fallbackName: string): MoodleGradingDefinition | null {
+  const isGuide = descendants(element, 'guidecriterion').length > 0;
+  const criteria = (isGuide ? parseGuideCriteria(element) : parseRubricCriteria(element))
+    .filter(criterion => criterion.maxPoints > 0);
+  if (criteria.length === 0) return null;
+
+  return {
+    name: readText(element, 'name') || fallbackName,
+    method: isGuide ? 'guide' : 'rubric',
+    description: readText(element, 'description') || undefined,
+    criteria
+  };
+}
+
+/**
+ * Read all rubric and marking guide definitions from a Moodle XML file
+ */
+export function parseMoodleGradingXml(xml: string): MoodleGradingDefinition[] {
+  let doc: Document;
+  try {
+    doc = new DOMParser().parseFromString(xml, 'application/xml');
+  } catch {
+    throw new MoodleRubricImportError('The file is not valid XML');
+  }
+  if (!doc.documentElement || descendants(doc, 'parsererror').length > 0) {
+    throw new MoodleRubricImportError('The file is not valid XML');
+  }
+
+  // A backup's grading.xml wraps each definition in a <definition> element; a template
+  // export may just be the definition itself
+  const definitionElements = descendants(doc, 'definition')
+    .filter(element => childElements(element, 'method').length > 0 || descendants(element, 'criteria').length > 0
+      || descendants(element, 'guidecriteria').length > 0);
+  const containers = definitionElements.length > 0 ? definitionElements : [doc.documentElement];
+
+  const definitions = containers
+    .map((element, index) => parseDefinition(element, containers.length > 1 ? `Definition ${index + 1}` : 'Imported rubric'))
+    .filter((definition): definition is MoodleGradingDefinition => definition !== null);
+
+  if (definitions.length === 0) {
+    throw new MoodleRubricImportError('No rubric or marking guide criteria were found in this file');
+  }
+
+  console.log(`Found ${definitions.length} Moodle grading definitions`);
+  return definitions;
+}
+
+const formatPoints = (points: number) => String(Math.round(points * 100) / 100);
+
+/**
+ * Write a definition into the rubric field's text format, one criterion per line with its
+ * levels below, so it is read back as the same structured criteria when grading
+ */
+export function formatMoodleDefinitionAsRubric(definition: MoodleGradingDefinition): string {
+  return definition.criteria.map((criterion, index) => {
+    let text = `${index + 1}. ${criterion.name} (${formatPoints(criterion.maxPoints)} points)`;
+    if (criterion.description) {
+      text += `: ${criterion.description}`;
+    }
+    criterion.levels.forEach(level => {
+      text += `\n   - ${level.label} (${formatPoints(level.points ?? 0)} points): ${level.description}`;
+    });
+    return text;
+  }).join('\n');
+}
@@ -0,0 +1,121 @@
+/**
+ * Export grades in the XML format read by Moodle's "XML file" grade import (gradeimport_xml).
+ * Results are keyed by the grade item's ID number and each student's user ID number, so there
+ * are no columns to map and multi-line feedback survives the import unchanged.
+ */
+import type { StudentGrade } from '@/hooks/use-grading-workflow';
+
+export interface MoodleXmlExportOptions {
+  assignmentIdNumber: string; // "ID number" set in the activity's Common module settings
+  studentIdColumn: string;    // Gradebook column holding the user ID number
+}
+
+export interface MoodleXmlExportResult {
+  xml: string;
+  included: number;
+  skipped: string[]; // Names of students left out (no grade or no ID number)
+}
+
+const SETTINGS_KEY = 'moodle_grader_xml_export';
+
+function escapeXml(text: string): string {
+  return text
+    // Control characters are not allowed in XML 1.0
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * The student's user ID number from their gradebook row
+ */
+export function getStudentIdNumber(grade: StudentGrade, studentIdColumn: string): string | null {
+  const value = grade.originalRow?.[studentIdColumn]?.trim();
+  return value ? value : null;
+}
+
+/**
+ * Build the gradeimport_xml document for all graded students
+ */
+export function generateMoodleGradeXML(grades: StudentGrade[], options: MoodleXmlExportOptions): MoodleXmlExportResult {
+  const assignmentIdNumber = options.assignmentIdNumber.trim();
+  if (!assignmentIdNumber) {
+    throw new Error('The assignment ID number is required for XML export');
+  }
+
+  const skipped: string[] = [];
+  const results: string[] = [];
+
+  grades.forEach(grade => {
+    const studentIdNumber = getStudentIdNumber(grade, options.studentIdColumn);
+    if (!studentIdNumber || grade.grade === null || grade.grade === undefined) {
+      skipped.push(grade.fullName);
+      return;
+    }
+
+    results.push([
+      '  <result>',
+      `    <assignment>${escapeXml(assignmentIdNumber)}</assignment>`,
+      `    <student>${escapeXml(studentIdNumber)}</student>`,
+      `    <score>${grade.grade}</score>`,
+      grade.feedback ? `    <feedback>${escapeXml(grade.feedback)}</feedback>` : null,
+      '  </result>'
+    ].filter(Boolean).join('\n'));
+  });
+
+  console.log(`XML Export: ${results.length} results for "${assignmentIdNumber}", ${skipped.length} skipped`);
+  const xml = `<?xml version="1.0" encoding="UTF-8"?>\n<results>\n${results.join('\n')}\n</results>\n`;
+  return { xml, included: results.length, skipped };
+}
+
+/**
+ * Download generated XML content as a file
+ */
+export function downloadXML(xmlContent: string, filename: string): void {
+  const blob = new Blob([xmlContent], { type: 'application/xml;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+
+  link.href = url;
+  link.setAttribute('download', filename);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+interface XmlExportSettings {
+  studentIdColumn?: string;
+  assignmentIdNumbers?: Record<string, string>; // By assignment name
+}
+
+function readSettings(): XmlExportSettings {
+  try {
+    return JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Last used ID numbers for an assignment, so repeat exports don't need them re-entered
+ */
+export function loadXmlExportSettings(assignmentName: string): Partial<MoodleXmlExportOptions> {
+  const settings = readSettings();
+  return {
+    studentIdColumn: settings.studentIdColumn,
+    assignmentIdNumber: settings.assignmentIdNumbers?.[assignmentName]
+  };
+}
+
+export function saveXmlExportSettings(assignmentName: string, options: MoodleXmlExportOptions): void {
+  const settings = readSettings();
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify({
+    studentIdColumn: options.studentIdColumn,
+    assignmentIdNumbers: { ...settings.assignmentIdNumbers, [assignmentName]: options.assignmentIdNumber }
+  }));
+}
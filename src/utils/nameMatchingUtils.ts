@@ -11,6 +11,73 @@ export interface StudentInfo {
   email?: string;
 }
 
+/**
+ * How a submission was joined to its gradebook row
+ */
+export type StudentMatchMethod = 'participant-id' | 'name' | 'manual' | 'unmatched';
+
+/**
+ * A proposed gradebook match with the strategy that found it
+ */
+export interface StudentMatchResult<T extends StudentInfo = StudentInfo> {
+  match: T;
+  matcher: string;     // Human-readable strategy name, e.g. "Exact name"
+  confidence: number;  // 0-1, how much the strategy can be trusted
+}
+
+/**
+ * Extract a Moodle participant ID from an identifier ("Participant 123456") or a bare number
+ */
+export function extractParticipantId(value: string | undefined | null): string | null {
+  if (!value) return null;
+  const match = value.match(/participant\s*(\d+)/i) || value.match(/^\s*(\d+)\s*$/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Split a Moodle submission folder name ("Jane Doe_123456_assignsubmission_file_")
+ * into the student name and participant ID
+ */
+export function parseSubmissionFolderName(folderPath: string): { studentName: string; participantId: string | null } {
+  // Only the last path segment carries the student information
+  const folderName = folderPath.split('/').filter(Boolean).pop() || folderPath;
+  
+  let studentName = folderName;
+  if (folderName.includes('_assignsubmission_')) {
+    studentName = folderName.split('_assignsubmission_')[0];
+  } else if (folderName.includes('_onlinetext_')) {
+    studentName = folderName.split('_onlinetext_')[0];
+  }
+  
+  // "Jane Doe_123456" -> "Jane Doe" + "123456"
+  const idMatch = studentName.match(/^(.+)_(\d+)$/);
+  if (idMatch) {
+    return { studentName: idMatch[1], participantId: idMatch[2] };
+  }
+  
+  return { studentName, participantId: null };
+}
+
+/**
+ * Find a gradebook student by Moodle participant ID (from the "Identifier" column)
+ */
+export function findStudentByParticipantId<T extends StudentInfo & { originalRow?: Record<string, string> }>(
+  participantId: string | null,
+  gradebookStudents: T[]
+): T | null {
+  if (!participantId) return null;
+  
+  const match = gradebookStudents.find(student =>
+    extractParticipantId(student.identifier) === participantId ||
+    extractParticipantId(student.originalRow?.['Identifier']) === participantId
+  );
+  
+  if (match) {
+    console.log(`✓ MATCH FOUND [Participant ID]: ${participantId} = "${match.fullName}"`);
+  }
+  return match || null;
+}
+
 /**
  * Find the best match for a student in the gradebook
  */
@@ -18,6 +85,16 @@ export function findBestStudentMatch(
   studentInfo: StudentInfo, 
   gradebookStudents: StudentInfo[]
 ): StudentInfo | null {
+  return findBestStudentMatchWithDetails(studentInfo, gradebookStudents)?.match || null;
+}
+
+/**
+ * Find the best match for a student in the gradebook, reporting which matcher was used and how confident it is
+ */
+export function findBestStudentMatchWithDetails<T extends StudentInfo>(
+  studentInfo: StudentInfo, 
+  gradebookStudents: T[]
+): StudentMatchResult<T> | null {
   // Log the matching attempt for debugging
   console.log(`Attempting to match student: "${studentInfo.fullName}"`);
   
@@ -45,22 +122,22 @@ export function findBestStudentMatch(
   
   // Try different matching strategies in order of precision
   const matchingStrategies = [
-    exactNameMatcher,
-    firstLastNameMatcher,
-    lastFirstNameMatcher,
-    namePartsMatcher,
-    uniqueFirstNameMatcher,
-    uniqueLastNameMatcher,
-    hyphenatedNameMatcher,
-    uniqueNameMatcher,
-    fuzzyNameMatcher
+    { name: 'Exact name', confidence: 1, matcher: exactNameMatcher },
+    { name: 'First + last name', confidence: 0.95, matcher: firstLastNameMatcher },
+    { name: 'Last, First name', confidence: 0.9, matcher: lastFirstNameMatcher },
+    { name: 'Name parts', confidence: 0.8, matcher: namePartsMatcher },
+    { name: 'Unique first name', confidence: 0.5, matcher: uniqueFirstNameMatcher },
+    { name: 'Unique last name', confidence: 0.6, matcher: uniqueLastNameMatcher },
+    { name: 'Hyphenated name', confidence: 0.75, matcher: hyphenatedNameMatcher },
+    { name: 'Unique name part', confidence: 0.5, matcher: uniqueNameMatcher },
+    { name: 'Fuzzy name', confidence: 0.4, matcher: fuzzyNameMatcher }
   ];
   
   // Try each strategy in sequence until we find a match
   for (const strategy of matchingStrategies) {
-    const match = strategy(studentInfo, gradebookStudents);
+    const match = strategy.matcher(studentInfo, gradebookStudents);
     if (match) {
-      return match;
+      return { match: match as T, matcher: strategy.name, confidence: strategy.confidence };
     }
   }
   
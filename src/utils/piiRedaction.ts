@@ -0,0 +1,192 @@
+/**
+ * Pseudonymization of submissions before they are sent for grading: the student's name, email,
+ * IDs and classmates' names known from the gradebook are replaced with placeholders, which are
+ * put back in the returned feedback. What was replaced is kept in a local audit log.
+ */
+
+export type RedactionKind = 'name' | 'email' | 'id' | 'classmate';
+
+export interface RedactionIdentity {
+  fullName: string;
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+  identifier?: string;
+  originalRow?: Record<string, string>;
+}
+
+export interface RedactionTerm {
+  placeholder: string;
+  value: string;
+  kind: RedactionKind;
+  caseSensitive: boolean; // Single names are only replaced when capitalized, so "will" isn't taken for "Will"
+}
+
+export interface RedactedText {
+  text: string;
+  counts: Record<string, number>; // Replacements per placeholder
+}
+
+export interface RedactionAuditEntry {
+  timestamp: string;
+  student: string;        // Gradebook name, kept on this device only
+  assignmentName: string;
+  redactions: { placeholder: string; kind: RedactionKind; count: number }[];
+  restored: number;       // Placeholders put back in the returned feedback
+  imageSubmission?: boolean; // Images are sent as they are and can't be redacted
+}
+
+const AUDIT_LOG_KEY = 'moodle_grader_redaction_audit';
+const MAX_AUDIT_ENTRIES = 500;
+
+// Gradebook columns holding IDs that could appear on a title page
+const ID_COLUMN_PATTERN = /^(id|identifier)$|id ?number|student ?(id|number)|user ?(id|name)|sis (user|login) id|login|matriculation/i;
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Whole words only, allowing any whitespace (e.g. a line break) between the parts of a name
+function termPattern(term: RedactionTerm): RegExp {
+  const body = escapeRegExp(term.value).replace(/\s+/g, '\\s+');
+  return new RegExp(`(?<![\\p{L}\\p{N}])${body}(?![\\p{L}\\p{N}])`, term.caseSensitive ? 'gu' : 'giu');
+}
+
+// Placeholders are matched with or without their brackets, since models sometimes drop them
+function placeholderPattern(placeholder: string): RegExp {
+  const name = escapeRegExp(placeholder.slice(1, -1));
+  return new RegExp(`\\[?\\b${name}\\b\\]?`, 'g');
+}
+
+/**
+ * Placeholder terms for a student. The first term per placeholder is the value it is restored to.
+ */
+export function buildRedactionTerms(student: RedactionIdentity, classmates: RedactionIdentity[] = []): RedactionTerm[] {
+  const terms: RedactionTerm[] = [];
+
+  const add = (value: string | undefined, placeholder: string, kind: RedactionKind, caseSensitive = false) => {
+    const trimmed = (value || '').trim();
+    const minLength = kind === 'id' ? 3 : 2;
+    if (trimmed.length < minLength) return;
+    if (terms.some(term => term.value.toLowerCase() === trimmed.toLowerCase())) return;
+    terms.push({ placeholder, value: trimmed, kind, caseSensitive });
+  };
+
+  const firstName = student.firstName?.trim();
+  const lastName = student.lastName?.trim();
+  add(student.fullName, '[STUDENT_NAME]', 'name');
+  if (firstName && lastName) {
+    add(`${firstName} ${lastName}`, '[STUDENT_NAME]', 'name');
+    add(`${lastName}, ${firstName}`, '[STUDENT_NAME]', 'name');
+  }
+  add(firstName, '[STUDENT_FIRST_NAME]', 'name', true);
+  add(lastName, '[STUDENT_LAST_NAME]', 'name', true);
+
+  // Addresses made up for unmatched students aren't the student's
+  const email = student.email?.trim();
+  if (email && !email.endsWith('@example.com')) {
+    add(email, '[STUDENT_EMAIL]', 'email');
+    add(email.split('@')[0], '[STUDENT_ID]', 'id');
+  }
+
+  const ids = [student.identifier, student.identifier?.match(/participant\s*(\d+)/i)?.[1]];
+  Object.entries(student.originalRow || {}).forEach(([header, value]) => {
+    if (ID_COLUMN_PATTERN.test(header.trim())) ids.push(value);
+  });
+  ids
+    .filter(id => id && !/^id_\d+$/.test(id))
+    .forEach(id => {
+      const idCount = terms.filter(term => term.kind === 'id').length;
+      add(id, idCount === 0 ? '[STUDENT_ID]' : `[STUDENT_ID_${idCount + 1}]`, 'id');
+    });
+
+  let classmateCount = 0;
+  classmates.forEach(classmate => {
+    const name = classmate.fullName?.trim();
+    if (!name || name.toLowerCase() === student.fullName.trim().toLowerCase()) return;
+    const before = terms.length;
+    add(name, `[CLASSMATE_${classmateCount + 1}]`, 'classmate');
+    if (terms.length > before) classmateCount++;
+  });
+
+  return terms;
+}
+
+/**
+ * Replace every known identifier in the text. Other email addresses are replaced too and
+ * added to the terms, so they can be restored like the rest.
+ */
+export function redactText(text: string, terms: RedactionTerm[]): RedactedText {
+  const counts: Record<string, number> = {};
+  const count = (placeholder: string) => {
+    counts[placeholder] = (counts[placeholder] || 0) + 1;
+    return placeholder;
+  };
+
+  // Longest values first so full names go before their parts
+  let redacted = text;
+  [...terms].sort((a, b) => b.value.length - a.value.length).forEach(term => {
+    redacted = redacted.replace(termPattern(term), () => count(term.placeholder));
+  });
+
+  redacted = redacted.replace(EMAIL_PATTERN, address => {
+    let term = terms.find(existing => existing.kind === 'email' && existing.value.toLowerCase() === address.toLowerCase());
+    if (!term) {
+      const emailCount = terms.filter(existing => existing.placeholder.startsWith('[EMAIL_')).length;
+      term = { placeholder: `[EMAIL_${emailCount + 1}]`, value: address, kind: 'email', caseSensitive: false };
+      terms.push(term);
+    }
+    return count(term.placeholder);
+  });
+
+  return { text: redacted, counts };
+}
+
+/**
+ * Put the original values back in place of the placeholders, using the first value per placeholder
+ */
+export function restoreText(text: string, terms: RedactionTerm[]): { text: string; restored: number } {
+  if (!text) return { text, restored: 0 };
+
+  let restored = 0;
+  let result = text;
+  const seen = new Set<string>();
+  // Longer placeholders first so [STUDENT_ID_2] isn't read as [STUDENT_ID]
+  [...terms]
+    .sort((a, b) => b.placeholder.length - a.placeholder.length)
+    .forEach(term => {
+      if (seen.has(term.placeholder)) return;
+      seen.add(term.placeholder);
+      const original = terms.find(candidate => candidate.placeholder === term.placeholder)!.value;
+      result = result.replace(placeholderPattern(term.placeholder), () => {
+        restored++;
+        return original;
+      });
+    });
+
+  return { text: result, restored };
+}
+
+export function getRedactionAuditLog(): RedactionAuditEntry[] {
+  try {
+    return JSON.parse(localStorage.getItem(AUDIT_LOG_KEY) || '[]');
+  } catch (error) {
+    console.error("Error reading redaction audit log:", error);
+    return [];
+  }
+}
+
+export function logRedaction(entry: RedactionAuditEntry): void {
+  try {
+    const entries = [...getRedactionAuditLog(), entry].slice(-MAX_AUDIT_ENTRIES);
+    localStorage.setItem(AUDIT_LOG_KEY, JSON.stringify(entries));
+  } catch (error) {
+    console.error("Error saving redaction audit log:", error);
+  }
+}
+
+export function clearRedactionAuditLog(): void {
+  localStorage.removeItem(AUDIT_LOG_KEY);
+}
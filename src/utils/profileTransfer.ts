@@ -0,0 +1,254 @@
+/**
+ * Export assignment profiles to a portable JSON file and import them again, e.g. to move profiles
+ * between accounts, out of demo mode, or into version control
+ */
+import { z } from 'zod';
+import { diffAssignmentDetails, stripProfileSource } from './profileVersions';
+
+export const PROFILE_FILE_FORMAT = 'moodle-grader-profiles';
+export const PROFILE_FILE_VERSION = 1;
+
+export type ConflictStrategy = 'skip' | 'rename' | 'overwrite';
+
+export interface TransferableProfile {
+  name: string;
+  assignment_details: Record<string, unknown>;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface ExistingProfile {
+  id: string;
+  name: string;
+  assignment_details: unknown;
+}
+
+export interface ProfileImportItem {
+  name: string;          // Name after conflict handling
+  originalName: string;
+  assignment_details: Record<string, unknown>;
+  action: 'create' | 'update' | 'skip' | 'unchanged';
+  existingId?: string;   // Profile overwritten (update) or matched (skip/unchanged)
+}
+
+export interface ProfileImportResult {
+  created: number;
+  updated: number;
+  skipped: number;
+}
+
+/**
+ * The file couldn't be read as a profile export
+ */
+export class ProfileImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProfileImportError';
+  }
+}
+
+// Known fields are checked; unknown ones are kept so newer exports still import
+const assignmentDetailsSchema = z.object({
+  assignmentName: z.string().optional(),
+  courseName: z.string().optional(),
+  assignmentInstructions: z.string().optional(),
+  rubric: z.string().optional(),
+  academicLevel: z.string().optional(),
+  gradingScale: z.number().positive().optional(),
+  gradingStrictness: z.number().min(1).max(10).optional(),
+  gradingMode: z.string().optional(),
+  feedbackLength: z.number().min(1).max(10).optional(),
+  feedbackFormality: z.number().min(1).max(10).optional(),
+  instructorTone: z.string().optional(),
+  additionalInstructions: z.string().optional(),
+  skipEmptySubmissions: z.boolean().optional(),
+  blindGrading: z.boolean().optional(),
+  useCommentBank: z.boolean().optional(),
+  llmProvider: z.string().optional(),
+  llmModel: z.string().optional(),
+  llmBaseUrl: z.string().optional(),
+  runBudget: z.number().nonnegative().nullable().optional()
+}).passthrough();
+
+const profileFileSchema = z.object({
+  format: z.literal(PROFILE_FILE_FORMAT),
+  version: z.literal(PROFILE_FILE_VERSION),
+  exportedAt: z.string().optional(),
+  profiles: z.array(z.object({
+    name: z.string().trim().min(1, 'Profile name is required').max(200),
+    assignment_details: assignmentDetailsSchema,
+    created_at: z.string().optional(),
+    updated_at: z.string().optional()
+  })).min(1, 'The file contains no profiles')
+});
+
+/**
+ * Serialize profiles to the portable file format
+ */
+export function buildProfileExport(profiles: TransferableProfile[]): string {
+  return JSON.stringify({
+    format: PROFILE_FILE_FORMAT,
+    version: PROFILE_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    profiles: profiles.map(profile => ({
+      name: profile.name,
+      assignment_details: stripProfileSource(profile.assignment_details),
+      created_at: profile.created_at,
+      updated_at: profile.updated_at
+    }))
+  }, null, 2);
+}
+
+function getExportFilename(profiles: TransferableProfile[]): string {
+  if (profiles.length === 1) {
+    const slug = profiles[0].name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'profile';
+    return `${slug}.profile.json`;
+  }
+  return `assignment-profiles-${new Date().toISOString().slice(0, 10)}.json`;
+}
+
+/**
+ * Download profiles as a JSON file
+ */
+export function downloadProfileExport(profiles: TransferableProfile[]): void {
+  const blob = new Blob([buildProfileExport(profiles)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+
+  link.href = url;
+  link.setAttribute('download', getExportFilename(profiles));
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Validate an exported file and return its profiles
+ */
+export function parseProfileFile(text: string): TransferableProfile[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ProfileImportError('The file is not valid JSON');
+  }
+
+  const result = profileFileSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue.path.length > 0 ? ` (at ${issue.path.join('.')})` : '';
+    throw new ProfileImportError(`Not a valid profile export: ${issue.message}${path}`);
+  }
+
+  return result.data.profiles.map(profile => ({
+    name: profile.name,
+    assignment_details: profile.assignment_details,
+    created_at: profile.created_at,
+    updated_at: profile.updated_at
+  }));
+}
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+/**
+ * A name not yet taken, adding " (2)", " (3)"... as needed
+ */
+export function getUniqueProfileName(name: string, takenNames: string[]): string {
+  const taken = new Set(takenNames.map(normalizeName));
+  if (!taken.has(normalizeName(name))) return name;
+
+  for (let suffix = 2; ; suffix++) {
+    const candidate = `${name} (${suffix})`;
+    if (!taken.has(normalizeName(candidate))) return candidate;
+  }
+}
+
+/**
+ * Decide what happens to each imported profile. Profiles conflict when their names match
+ * (ignoring case); identical ones are never imported twice.
+ */
+export function planProfileImport(
+  imported: TransferableProfile[],
+  existing: ExistingProfile[],
+  strategy: ConflictStrategy
+): ProfileImportItem[] {
+  const takenNames = existing.map(profile => profile.name);
+
+  return imported.map(profile => {
+    const details = stripProfileSource(profile.assignment_details);
+    const match = existing.find(e => normalizeName(e.name) === normalizeName(profile.name));
+    const base = { originalName: profile.name, assignment_details: details };
+
+    if (!match) {
+      const name = getUniqueProfileName(profile.name, takenNames);
+      takenNames.push(name);
+      return { ...base, name, action: 'create' as const };
+    }
+
+    if (diffAssignmentDetails(match.assignment_details as Record<string, unknown>, details).length === 0) {
+      return { ...base, name: match.name, action: 'unchanged' as const, existingId: match.id };
+    }
+
+    switch (strategy) {
+      case 'overwrite':
+        return { ...base, name: match.name, action: 'update' as const, existingId: match.id };
+      case 'rename': {
+        const name = getUniqueProfileName(profile.name, takenNames);
+        takenNames.push(name);
+        return { ...base, name, action: 'create' as const };
+      }
+      default:
+        return { ...base, name: match.name, action: 'skip' as const, existingId: match.id };
+    }
+  });
+}
+
+const DEMO_PROFILES_KEY = 'demo_profiles';
+const DEMO_MIGRATED_KEY = 'moodle_grader_demo_profiles_migrated';
+
+/**
+ * Profiles saved in demo mode on this device
+ */
+export function loadDemoProfiles(): TransferableProfile[] {
+  try {
+    const saved = localStorage.getItem(DEMO_PROFILES_KEY);
+    const profiles = saved ? JSON.parse(saved) : [];
+    return Array.isArray(profiles)
+      ? profiles
+        .filter(profile => profile?.name && profile.assignment_details)
+        .map(profile => ({
+          name: profile.name,
+          assignment_details: profile.assignment_details,
+          created_at: profile.created_at,
+          updated_at: profile.updated_at
+        }))
+      : [];
+  } catch (error) {
+    console.error("Error loading demo profiles:", error);
+    return [];
+  }
+}
+
+/**
+ * Whether this account was already offered (and took) the demo profiles
+ */
+export function hasMigratedDemoProfiles(userId: string): boolean {
+  try {
+    const migrated: string[] = JSON.parse(localStorage.getItem(DEMO_MIGRATED_KEY) || '[]');
+    return migrated.includes(userId);
+  } catch {
+    return false;
+  }
+}
+
+export function markDemoProfilesMigrated(userId: string): void {
+  try {
+    const migrated: string[] = JSON.parse(localStorage.getItem(DEMO_MIGRATED_KEY) || '[]');
+    if (!migrated.includes(userId)) {
+      localStorage.setItem(DEMO_MIGRATED_KEY, JSON.stringify([...migrated, userId]));
+    }
+  } catch (error) {
+    console.error("Error saving demo migration state:", error);
+  }
+}
@@ -0,0 +1,211 @@
+/**
+ * Assignment profile version history: every save of a profile's details is kept as a numbered
+ * version so changes can be compared and rolled back, and grades traced to the exact settings used.
+ * Supabase profiles are versioned by a database trigger; demo profiles keep their history in localStorage.
+ */
+
+export interface ProfileVersion {
+  id: string;
+  profile_id: string;
+  version: number;
+  assignment_details: Record<string, unknown>;
+  created_at: string;
+}
+
+export interface LineDiff {
+  type: 'added' | 'removed' | 'unchanged';
+  text: string;
+}
+
+export interface ProfileFieldChange {
+  field: string;
+  label: string;
+  before: string;
+  after: string;
+  lines?: LineDiff[]; // Line-by-line diff for long text fields such as instructions and rubric
+}
+
+const LOCAL_VERSIONS_KEY = 'demo_profile_versions';
+
+// Largest line grid diffed with LCS; bigger texts are shown as fully replaced
+const MAX_DIFF_CELLS = 250000;
+
+// Workflow fields describing where the details came from, not part of the profile itself
+const PROFILE_SOURCE_FIELDS = ['assignmentProfileId', 'assignmentProfileVersion', 'assignmentProfileModified', 'organizationId'];
+
+// Profile fields in form order; text fields get a line diff
+const PROFILE_FIELDS: { field: string; label: string; text?: boolean }[] = [
+  { field: 'assignmentName', label: 'Assignment name' },
+  { field: 'courseName', label: 'Course name' },
+  { field: 'assignmentInstructions', label: 'Instructions', text: true },
+  { field: 'rubric', label: 'Rubric', text: true },
+  { field: 'academicLevel', label: 'Academic level' },
+  { field: 'gradingScale', label: 'Grading scale' },
+  { field: 'gradingMode', label: 'Grading mode' },
+  { field: 'gradingStrictness', label: 'Grading strictness' },
+  { field: 'feedbackLength', label: 'Feedback length' },
+  { field: 'feedbackFormality', label: 'Feedback formality' },
+  { field: 'instructorTone', label: 'Instructor tone', text: true },
+  { field: 'additionalInstructions', label: 'Additional instructions', text: true },
+  { field: 'skipEmptySubmissions', label: 'Skip empty submissions' },
+  { field: 'blindGrading', label: 'Blind grading' },
+  { field: 'useCommentBank', label: 'Use comment bank' },
+  { field: 'llmProvider', label: 'AI provider' },
+  { field: 'llmModel', label: 'Model' },
+  { field: 'llmBaseUrl', label: 'Server URL' },
+  { field: 'runBudget', label: 'Run budget' }
+];
+
+/**
+ * Remove workflow-only fields before details are saved to a profile
+ */
+export function stripProfileSource<T extends object>(details: T): T {
+  const copy = { ...details } as Record<string, unknown>;
+  PROFILE_SOURCE_FIELDS.forEach(field => delete copy[field]);
+  return copy as T;
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '';
+  if (typeof value === 'object') return JSON.stringify(value, null, 2);
+  return String(value);
+}
+
+/**
+ * Line diff of two texts using the longest common subsequence
+ */
+export function diffLines(before: string, after: string): LineDiff[] {
+  const a = before ? before.split('\n') : [];
+  const b = after ? after.split('\n') : [];
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...a.map(text => ({ type: 'removed' as const, text })),
+      ...b.map(text => ({ type: 'added' as const, text }))
+    ];
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const result: LineDiff[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: 'unchanged', text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      result.push({ type: 'removed', text: a[i++] });
+    } else {
+      result.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) result.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) result.push({ type: 'added', text: b[j++] });
+
+  return result;
+}
+
+/**
+ * Fields that differ between two versions of a profile's details
+ */
+export function diffAssignmentDetails(before: object | null | undefined, after: object | null | undefined): ProfileFieldChange[] {
+  const older = stripProfileSource((before || {}) as Record<string, unknown>);
+  const newer = stripProfileSource((after || {}) as Record<string, unknown>);
+
+  const knownFields = PROFILE_FIELDS.map(({ field }) => field);
+  const otherFields = Array.from(new Set([...Object.keys(older), ...Object.keys(newer)]))
+    .filter(field => !knownFields.includes(field))
+    .sort()
+    .map(field => ({ field, label: field, text: false }));
+
+  return [...PROFILE_FIELDS, ...otherFields].reduce<ProfileFieldChange[]>((changes, { field, label, text }) => {
+    const beforeValue = formatValue(older[field]);
+    const afterValue = formatValue(newer[field]);
+    if (beforeValue === afterValue) return changes;
+
+    changes.push({
+      field,
+      label,
+      before: beforeValue,
+      after: afterValue,
+      lines: text ? diffLines(beforeValue, afterValue) : undefined
+    });
+    return changes;
+  }, []);
+}
+
+function loadAllLocalVersions(): ProfileVersion[] {
+  try {
+    const saved = localStorage.getItem(LOCAL_VERSIONS_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.error("Error loading profile versions:", error);
+    return [];
+  }
+}
+
+/**
+ * Versions of a demo profile, newest first
+ */
+export function getLocalProfileVersions(profileId: string): ProfileVersion[] {
+  return loadAllLocalVersions()
+    .filter(version => version.profile_id === profileId)
+    .sort((a, b) => b.version - a.version);
+}
+
+/**
+ * Store a new version of a demo profile's details and return it. Profiles saved before versioning
+ * existed get their previous details recorded first so the change can still be compared.
+ */
+export function recordLocalProfileVersion(
+  profileId: string,
+  details: Record<string, unknown>,
+  previousDetails?: Record<string, unknown>
+): ProfileVersion {
+  const all = loadAllLocalVersions();
+  const existing = all.filter(version => version.profile_id === profileId);
+  const now = new Date().toISOString();
+
+  if (existing.length === 0 && previousDetails) {
+    const baseline: ProfileVersion = {
+      id: `version-${Date.now()}-1`,
+      profile_id: profileId,
+      version: 1,
+      assignment_details: previousDetails,
+      created_at: now
+    };
+    all.push(baseline);
+    existing.push(baseline);
+  }
+
+  const version: ProfileVersion = {
+    id: `version-${Date.now()}-${existing.length + 1}`,
+    profile_id: profileId,
+    version: existing.reduce((max, v) => Math.max(max, v.version), 0) + 1,
+    assignment_details: details,
+    created_at: now
+  };
+
+  try {
+    localStorage.setItem(LOCAL_VERSIONS_KEY, JSON.stringify([...all, version]));
+  } catch (error) {
+    console.error("Error saving profile version:", error);
+  }
+  return version;
+}
+
+export function deleteLocalProfileVersions(profileId: string): void {
+  try {
+    localStorage.setItem(LOCAL_VERSIONS_KEY, JSON.stringify(loadAllLocalVersions().filter(version => version.profile_id !== profileId)));
+  } catch (error) {
+    console.error("Error deleting profile versions:", error);
+  }
+}
@@ -0,0 +1,204 @@
+/**
+ * Retry transient request failures (rate limits, server errors, dropped connections)
+ * with exponential backoff, honoring the provider's Retry-After header
+ */
+
+export interface RetryOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+type RateLimitListener = (retryAfterMs: number | null) => void;
+
+const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  maxAttempts: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 60000
+};
+
+const rateLimitListeners = new Set<RateLimitListener>();
+
+/**
+ * Error for a request that failed with a non-OK status after any retries
+ */
+export class HttpRequestError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpRequestError';
+    this.status = status;
+  }
+}
+
+/**
+ * Error for a request that couldn't be sent (e.g. a dropped connection) after any retries
+ */
+export class NetworkRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NetworkRequestError';
+  }
+}
+
+export type QuotaErrorCode = 'auth_required' | 'quota_exceeded' | 'quota_unavailable';
+
+export interface QuotaInfo {
+  used: number;
+  limit: number;
+  tier: string;
+}
+
+/**
+ * The proxy refused the request because of the user's plan or sign-in state. Retrying won't help,
+ * so grading should stop and show the message.
+ */
+export class QuotaError extends HttpRequestError {
+  code: QuotaErrorCode;
+  quota?: QuotaInfo;
+
+  constructor(status: number, code: QuotaErrorCode, message: string, quota?: QuotaInfo) {
+    super(status, message);
+    this.name = 'QuotaError';
+    this.code = code;
+    this.quota = quota;
+  }
+}
+
+const QUOTA_ERROR_CODES: QuotaErrorCode[] = ['auth_required', 'quota_exceeded', 'quota_unavailable'];
+
+/**
+ * Build the error for a failed proxy response, recognising the proxy's structured quota errors
+ */
+export function toRequestError(status: number, errorText: string): HttpRequestError {
+  try {
+    const body = JSON.parse(errorText);
+    if (body && QUOTA_ERROR_CODES.includes(body.code)) {
+      return new QuotaError(status, body.code, body.error || 'Usage limit reached', body.quota);
+    }
+  } catch {
+    // Not JSON - fall through to a plain HTTP error
+  }
+  return new HttpRequestError(status, `Edge function returned status ${status}: ${errorText}`);
+}
+
+export function isQuotaError(error: unknown): error is QuotaError {
+  return error instanceof QuotaError;
+}
+
+/**
+ * Errors from fetchWithRetry, whose retries are already used up, so resending won't help
+ */
+export function isRetriedRequestError(error: unknown): boolean {
+  return error instanceof HttpRequestError || error instanceof NetworkRequestError;
+}
+
+/**
+ * The proxy's quota errors can use a retryable status (quota_unavailable is a 503) but won't clear on a resend
+ */
+async function isQuotaErrorResponse(response: Response): Promise<boolean> {
+  try {
+    const body = JSON.parse(await response.clone().text());
+    return !!body && QUOTA_ERROR_CODES.includes(body.code);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Rate limits, timeouts and server errors are worth retrying; other 4xx errors will fail the same way again
+ */
+export function isTransientStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return null;
+}
+
+/**
+ * Be notified whenever a request is rate limited, e.g. to lower grading concurrency.
+ * Returns a function that removes the listener.
+ */
+export function onRateLimit(listener: RateLimitListener): () => void {
+  rateLimitListeners.add(listener);
+  return () => {
+    rateLimitListeners.delete(listener);
+  };
+}
+
+function notifyRateLimit(retryAfterMs: number | null): void {
+  rateLimitListeners.forEach(listener => listener(retryAfterMs));
+}
+
+function getBackoffDelay(attempt: number, options: Required<RetryOptions>): number {
+  const exponential = options.baseDelayMs * Math.pow(2, attempt - 1);
+  // Jitter keeps parallel workers from retrying in lockstep
+  const jitter = Math.random() * options.baseDelayMs;
+  return Math.min(options.maxDelayMs, exponential + jitter);
+}
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Run a request, retrying network errors and transient HTTP statuses.
+ * Resolves with the last response (which may still be an error) once retries are used up.
+ */
+export async function fetchWithRetry(
+  request: () => Promise<Response>,
+  options: RetryOptions = {}
+): Promise<Response> {
+  const settings = { ...DEFAULT_RETRY_OPTIONS, ...options };
+
+  for (let attempt = 1; ; attempt++) {
+    let response: Response;
+
+    try {
+      response = await request();
+    } catch (error) {
+      if (attempt >= settings.maxAttempts) {
+        throw new NetworkRequestError(error instanceof Error ? error.message : String(error));
+      }
+
+      const delay = getBackoffDelay(attempt, settings);
+      console.warn(`Request failed (${error instanceof Error ? error.message : error}), retrying in ${Math.round(delay)}ms (attempt ${attempt} of ${settings.maxAttempts})`);
+      await sleep(delay);
+      continue;
+    }
+
+    if (response.ok || !isTransientStatus(response.status) || await isQuotaErrorResponse(response)) {
+      return response;
+    }
+
+    const retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+    if (response.status === 429) {
+      notifyRateLimit(retryAfterMs);
+    }
+
+    if (attempt >= settings.maxAttempts) {
+      return response;
+    }
+
+    const delay = retryAfterMs !== null
+      ? Math.min(settings.maxDelayMs, retryAfterMs)
+      : getBackoffDelay(attempt, settings);
+    console.warn(`Request returned status ${response.status}, retrying in ${Math.round(delay)}ms (attempt ${attempt} of ${settings.maxAttempts})`);
+    await sleep(delay);
+  }
+}
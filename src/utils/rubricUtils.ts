@@ -0,0 +1,188 @@
+/**
+ * Utilities for turning a free-text rubric into structured criteria
+ * and for scoring submissions criterion by criterion.
+ */
+
+export interface RubricLevel {
+  label: string;
+  points?: number;
+  description: string;
+}
+
+export interface RubricCriterion {
+  name: string;
+  maxPoints: number;
+  description?: string;
+  levels: RubricLevel[];
+}
+
+export interface CriterionScore {
+  name: string;
+  score: number;
+  maxPoints: number;
+  justification: string;
+}
+
+// Matches "Thesis (20 points): ...", "1. Thesis - 20 pts", "Thesis: 20/100", "Well-organized paragraphs [20 marks]".
+// The points need an explicit marker (brackets, points/pts/marks or /N), so description lines that
+// merely contain a number aren't taken for criteria.
+const CRITERION_PATTERN = /^(?:\d+[.)]\s*|[A-Z][.)]\s+)?([^\s:()[\]|\-–*•][^:()[\]|]{1,79}?)\s*(?:[-–:]\s*)?(?:[([]\s*(\d+(?:\.\d+)?)\s*(?:\/\s*\d+(?:\.\d+)?\s*)?(?:points?|pts?|marks?|%)?\s*[)\]]|(\d+(?:\.\d+)?)\s*(?:\/\s*\d+(?:\.\d+)?\s*)?(?:points?|pts?|marks?)\b|(\d+(?:\.\d+)?)\s*\/\s*\d+(?:\.\d+)?)\s*(?:[:\-–]\s*(.*))?$/i;
+
+// Matches level descriptors such as "- Excellent (18-20): ..." or "* Good: 15 points - ..."
+const LEVEL_PATTERN = /^[-*•]\s*([^:(]{1,40}?)\s*(?:\(\s*(\d+(?:\.\d+)?)(?:\s*-\s*(\d+(?:\.\d+)?))?\s*(?:points?|pts?|marks?)?\s*\))?\s*[:\-–]\s*(.+)$/i;
+
+/**
+ * Parse a markdown table rubric (| Criterion | Points | Level... |)
+ */
+function parseTableRubric(lines: string[]): RubricCriterion[] {
+  const tableLines = lines.filter(line => line.trim().startsWith('|'));
+  if (tableLines.length < 2) return [];
+
+  const splitRow = (line: string) => line.trim().replace(/^\||\|$/g, '').split('|').map(cell => cell.trim());
+  const headers = splitRow(tableLines[0]);
+  const pointsIndex = headers.findIndex(h => /points?|pts|marks?|weight|score/i.test(h));
+  if (pointsIndex === -1) return [];
+
+  const nameIndex = pointsIndex === 0 ? 1 : 0;
+  const levelIndexes = headers
+    .map((_, i) => i)
+    .filter(i => i !== nameIndex && i !== pointsIndex);
+
+  const criteria: RubricCriterion[] = [];
+  tableLines.slice(1).forEach(line => {
+    // Skip separator rows like |---|---|
+    if (/^\|?\s*:?-{2,}/.test(line.trim())) return;
+
+    const cells = splitRow(line);
+    const maxPoints = parseFloat(cells[pointsIndex]);
+    if (!cells[nameIndex] || isNaN(maxPoints)) return;
+
+    criteria.push({
+      name: cells[nameIndex],
+      maxPoints,
+      levels: levelIndexes
+        .filter(i => cells[i])
+        .map(i => ({ label: headers[i], description: cells[i] }))
+    });
+  });
+
+  return criteria;
+}
+
+/**
+ * Parse a rubric from free text into structured criteria.
+ * Returns an empty array when the rubric has no recognisable point values.
+ */
+export function parseRubric(rubricText: string): RubricCriterion[] {
+  if (!rubricText || !rubricText.trim()) return [];
+
+  const lines = rubricText.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+
+  const tableCriteria = parseTableRubric(lines);
+  if (tableCriteria.length > 0) {
+    console.log(`Parsed ${tableCriteria.length} rubric criteria from table format`);
+    return tableCriteria;
+  }
+
+  const criteria: RubricCriterion[] = [];
+  let current: RubricCriterion | null = null;
+
+  lines.forEach(line => {
+    const levelMatch = current ? line.match(LEVEL_PATTERN) : null;
+    if (current && levelMatch) {
+      const low = levelMatch[2] ? parseFloat(levelMatch[2]) : undefined;
+      const high = levelMatch[3] ? parseFloat(levelMatch[3]) : undefined;
+      current.levels.push({
+        label: levelMatch[1].trim(),
+        points: high ?? low,
+        description: levelMatch[4].trim()
+      });
+      return;
+    }
+
+    const criterionMatch = line.match(CRITERION_PATTERN);
+    if (criterionMatch) {
+      const maxPoints = parseFloat(criterionMatch[2] ?? criterionMatch[3] ?? criterionMatch[4]);
+      if (!isNaN(maxPoints) && maxPoints > 0) {
+        current = {
+          name: criterionMatch[1].trim().replace(/[*_#]+/g, '').trim(),
+          maxPoints,
+          description: criterionMatch[5]?.trim() || undefined,
+          levels: []
+        };
+        criteria.push(current);
+        return;
+      }
+    }
+
+    // Continuation text belongs to the most recent criterion, except a closing "Total: 100"
+    if (current && !/^total\b/i.test(line)) {
+      current.description = current.description ? `${current.description} ${line}` : line;
+    }
+  });
+
+  // Discard a trailing "Total: 100" line picked up as a criterion
+  const filtered = criteria.filter(c => !/^total\b/i.test(c.name));
+
+  console.log(`Parsed ${filtered.length} rubric criteria from text`);
+  return filtered;
+}
+
+/**
+ * Sum of the maximum points for a set of criteria
+ */
+export function getRubricTotal(criteria: RubricCriterion[]): number {
+  return criteria.reduce((sum, c) => sum + c.maxPoints, 0);
+}
+
+/**
+ * Clamp model-returned criterion scores to the rubric and fill in any criteria the model skipped
+ */
+export function normalizeCriteriaScores(
+  rawScores: Array<{ name?: string; score?: number; justification?: string }> | undefined,
+  criteria: RubricCriterion[]
+): CriterionScore[] {
+  const scores = Array.isArray(rawScores) ? rawScores : [];
+
+  return criteria.map((criterion, index) => {
+    const match = scores.find(s => s?.name?.trim().toLowerCase() === criterion.name.toLowerCase()) || scores[index];
+    const rawScore = typeof match?.score === 'number' ? match.score : parseFloat(String(match?.score ?? 0));
+
+    return {
+      name: criterion.name,
+      maxPoints: criterion.maxPoints,
+      score: Math.min(Math.max(0, isNaN(rawScore) ? 0 : rawScore), criterion.maxPoints),
+      justification: typeof match?.justification === 'string' ? match.justification : ''
+    };
+  });
+}
+
+/**
+ * Compute the overall grade from criterion scores, scaled to the grading scale
+ * when the rubric total differs from it
+ */
+export function calculateCriteriaTotal(criteriaScores: CriterionScore[], gradingScale: number): number {
+  const earned = criteriaScores.reduce((sum, c) => sum + c.score, 0);
+  const possible = criteriaScores.reduce((sum, c) => sum + c.maxPoints, 0);
+
+  if (possible <= 0) return 0;
+
+  const total = possible === gradingScale ? earned : (earned / possible) * gradingScale;
+  return Math.round(Math.min(Math.max(0, total), gradingScale) * 100) / 100;
+}
+
+/**
+ * Format the rubric criteria for inclusion in the system prompt
+ */
+export function formatCriteriaForPrompt(criteria: RubricCriterion[]): string {
+  return criteria.map((criterion, index) => {
+    let text = `${index + 1}. ${criterion.name} (${criterion.maxPoints} points)`;
+    if (criterion.description) {
+      text += `: ${criterion.description}`;
+    }
+    criterion.levels.forEach(level => {
+      text += `\n     - ${level.label}${level.points !== undefined ? ` (${level.points} points)` : ''}: ${level.description}`;
+    });
+    return text;
+  }).join('\n  ');
+}
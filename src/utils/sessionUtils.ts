@@ -0,0 +1,251 @@
+/**
+ * Grading session history stored in IndexedDB
+ */
+import { initFileDatabase, SESSIONS_STORE_NAME } from './fileUtils';
+import type { AssignmentFormData } from '@/components/assignment/AssignmentFormTypes';
+import type { StudentGrade } from '@/hooks/use-grading-workflow';
+import type { GradebookFileFormat } from './csv/spreadsheetGradebook';
+import type { CSVDialect } from './csv/dialect';
+import type { LmsId } from './lms';
+
+export interface GradeEdit {
+  identifier: string;
+  fullName: string;
+  timestamp: string;
+  previousGrade: number | null;
+  newGrade: number | null;
+  feedbackChanged: boolean;
+}
+
+export interface SessionGradebook {
+  headers: string[];
+  assignmentColumn?: string;
+  feedbackColumn?: string;
+  fileFormat?: GradebookFileFormat;
+  sheetName?: string;
+  csvDialect?: CSVDialect;
+  lms?: LmsId;
+  preambleRows?: Record<string, string>[];
+}
+
+/**
+ * The saved assignment profile version a run was graded with
+ */
+export interface SessionProfileVersion {
+  profileId: string;
+  version: number;
+  modified: boolean; // The details were edited after loading the version, see assignmentData for what was used
+}
+
+export interface GradingSession {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  assignmentData: AssignmentFormData | null;
+  gradebook: SessionGradebook | null;
+  grades: StudentGrade[];
+  edits: GradeEdit[];
+  duplicatedFrom?: string;
+  profileVersion?: SessionProfileVersion | null;
+}
+
+export interface SessionComparisonRow {
+  key: string;
+  fullName: string;
+  gradeA: number | null;
+  gradeB: number | null;
+  difference: number | null;
+  feedbackChanged: boolean;
+}
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Generate a unique id for a new session
+ */
+export function createSessionId(): string {
+  return `session_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Default display name for a session
+ */
+export function buildSessionName(assignmentData: AssignmentFormData | null): string {
+  const date = new Date().toLocaleDateString();
+  if (!assignmentData?.assignmentName) return `Grading run ${date}`;
+  return assignmentData.courseName
+    ? `${assignmentData.courseName} – ${assignmentData.assignmentName} (${date})`
+    : `${assignmentData.assignmentName} (${date})`;
+}
+
+/**
+ * The profile version recorded in the assignment data when a saved profile was loaded
+ */
+export function getSessionProfileVersion(assignmentData: AssignmentFormData | null): SessionProfileVersion | null {
+  if (!assignmentData?.assignmentProfileId || !assignmentData.assignmentProfileVersion) return null;
+  return {
+    profileId: assignmentData.assignmentProfileId,
+    version: assignmentData.assignmentProfileVersion,
+    modified: !!assignmentData.assignmentProfileModified
+  };
+}
+
+/**
+ * Remove File objects from grades before storing them
+ */
+export function toStorableGrades(grades: StudentGrade[]): StudentGrade[] {
+  return grades.map(({ file, ...grade }) => ({ ...grade }));
+}
+
+/**
+ * Create or replace a session in the history store
+ */
+export async function saveGradingSession(session: GradingSession): Promise<void> {
+  const db = await initFileDatabase();
+  const transaction = db.transaction([SESSIONS_STORE_NAME], 'readwrite');
+  await requestToPromise(transaction.objectStore(SESSIONS_STORE_NAME).put(session));
+  console.log(`Saved grading session ${session.id} (${session.grades.length} grades)`);
+}
+
+/**
+ * Load all saved sessions, most recently updated first
+ */
+export async function getGradingSessions(): Promise<GradingSession[]> {
+  try {
+    const db = await initFileDatabase();
+    const transaction = db.transaction([SESSIONS_STORE_NAME], 'readonly');
+    const sessions = await requestToPromise<GradingSession[]>(transaction.objectStore(SESSIONS_STORE_NAME).getAll());
+    return (sessions || []).sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+  } catch (error) {
+    console.error('Error loading grading sessions:', error);
+    return [];
+  }
+}
+
+/**
+ * Load a single session by id
+ */
+export async function getGradingSession(id: string): Promise<GradingSession | null> {
+  const db = await initFileDatabase();
+  const transaction = db.transaction([SESSIONS_STORE_NAME], 'readonly');
+  const session = await requestToPromise<GradingSession>(transaction.objectStore(SESSIONS_STORE_NAME).get(id));
+  return session || null;
+}
+
+/**
+ * Delete a session from the history store
+ */
+export async function deleteGradingSession(id: string): Promise<void> {
+  const db = await initFileDatabase();
+  const transaction = db.transaction([SESSIONS_STORE_NAME], 'readwrite');
+  await requestToPromise(transaction.objectStore(SESSIONS_STORE_NAME).delete(id));
+  console.log(`Deleted grading session ${id}`);
+}
+
+/**
+ * Copy a session under a new id so it can be re-graded or edited without touching the original
+ */
+export async function duplicateGradingSession(id: string): Promise<GradingSession> {
+  const original = await getGradingSession(id);
+  if (!original) {
+    throw new Error('Session not found');
+  }
+
+  const now = new Date().toISOString();
+  const copy: GradingSession = {
+    ...original,
+    id: createSessionId(),
+    name: `${original.name} (copy)`,
+    createdAt: now,
+    updatedAt: now,
+    edits: [],
+    duplicatedFrom: original.id
+  };
+
+  await saveGradingSession(copy);
+  return copy;
+}
+
+/**
+ * Build an edit record when a grade or its feedback changes during review
+ */
+export function createGradeEdit(previous: StudentGrade, newGrade: number | null, newFeedback: string): GradeEdit | null {
+  const feedbackChanged = previous.feedback !== newFeedback;
+  if (previous.grade === newGrade && !feedbackChanged) return null;
+
+  return {
+    identifier: previous.identifier,
+    fullName: previous.fullName,
+    timestamp: new Date().toISOString(),
+    previousGrade: previous.grade,
+    newGrade,
+    feedbackChanged
+  };
+}
+
+/**
+ * Compare the grades of two sessions student by student
+ */
+export function compareGradingSessions(sessionA: GradingSession, sessionB: GradingSession): SessionComparisonRow[] {
+  const keyFor = (grade: StudentGrade) => grade.identifier || grade.fullName.toLowerCase();
+  const rows = new Map<string, SessionComparisonRow>();
+
+  sessionA.grades.forEach(grade => {
+    rows.set(keyFor(grade), {
+      key: keyFor(grade),
+      fullName: grade.fullName,
+      gradeA: grade.grade,
+      gradeB: null,
+      difference: null,
+      feedbackChanged: false
+    });
+  });
+
+  sessionB.grades.forEach(grade => {
+    const key = keyFor(grade);
+    const row = rows.get(key) || {
+      key,
+      fullName: grade.fullName,
+      gradeA: null,
+      gradeB: null,
+      difference: null,
+      feedbackChanged: false
+    };
+    const gradeInA = sessionA.grades.find(g => keyFor(g) === key);
+
+    row.gradeB = grade.grade;
+    row.difference = row.gradeA !== null && grade.grade !== null ? grade.grade - row.gradeA : null;
+    row.feedbackChanged = !!gradeInA && gradeInA.feedback !== grade.feedback;
+    rows.set(key, row);
+  });
+
+  return Array.from(rows.values()).sort((a, b) => a.fullName.localeCompare(b.fullName));
+}
+
+/**
+ * Write a session into the workflow's localStorage keys so the grading page opens it at the review step
+ */
+export function restoreSessionToWorkflow(session: GradingSession): void {
+  localStorage.setItem('moodle_grader_session_id', session.id);
+  localStorage.setItem('moodle_grader_assignment_data', JSON.stringify(session.assignmentData));
+  localStorage.setItem('moodle_grader_grades', JSON.stringify(session.grades));
+  localStorage.setItem('moodle_grader_current_step', '3');
+  localStorage.setItem('moodle_grader_highest_step', '4');
+
+  if (session.gradebook) {
+    localStorage.setItem('moodle_grader_gradebook', JSON.stringify(session.gradebook));
+  } else {
+    localStorage.removeItem('moodle_grader_gradebook');
+  }
+
+  console.log(`Restored grading session ${session.id} to the workflow`);
+}
@@ -0,0 +1,216 @@
+/**
+ * Submission-to-gradebook mappings: proposals shown on the match resolution screen,
+ * the mappings confirmed for the current run, and mappings remembered per course
+ */
+import type { StudentGrade } from '@/hooks/use-grading-workflow';
+import {
+  findBestStudentMatchWithDetails,
+  type StudentMatchMethod
+} from './nameMatchingUtils';
+import { findStudentByLmsId, getLmsAdapter, groupSubmissionsByStudent, type LmsAdapter } from './lms';
+
+export interface MatchProposal {
+  studentKey: string;            // Submission key (same key the grading step groups files by)
+  studentName: string;           // Student name from the folder or file name
+  folders: string[];
+  participantId: string | null;
+  proposed: StudentGrade | null;
+  matcher: string;
+  confidence: number;
+  method: StudentMatchMethod;
+}
+
+export interface ConfirmedMatch {
+  identifier: string | null;     // Gradebook identifier, or null when the submission is deliberately left unmatched
+  method: StudentMatchMethod;
+}
+
+export type ConfirmedMatches = Record<string, ConfirmedMatch>;
+
+interface RememberedMatch {
+  fullName: string;
+  email?: string;
+}
+
+type CourseMappings = Record<string, RememberedMatch | null>;
+
+const COURSE_MAPPINGS_KEY = 'moodle_grader_course_mappings';
+const CONFIRMED_MATCHES_KEY = 'moodle_grader_confirmed_matches';
+
+function normalizeKey(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+/**
+ * Load all remembered mappings, keyed by course then folder student name
+ */
+function loadAllCourseMappings(): Record<string, CourseMappings> {
+  try {
+    const saved = localStorage.getItem(COURSE_MAPPINGS_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (error) {
+    console.error("Error loading remembered student mappings:", error);
+    return {};
+  }
+}
+
+/**
+ * Remembered mappings for one course
+ */
+export function getCourseMappings(courseName: string): CourseMappings {
+  if (!courseName?.trim()) return {};
+  return loadAllCourseMappings()[normalizeKey(courseName)] || {};
+}
+
+/**
+ * Names of courses that have remembered mappings
+ */
+export function getMappedCourses(): string[] {
+  return Object.keys(loadAllCourseMappings());
+}
+
+/**
+ * Remember confirmed mappings for a course so future assignments reuse them
+ */
+export function saveCourseMappings(courseName: string, proposals: MatchProposal[], confirmed: ConfirmedMatches, gradebookStudents: StudentGrade[]): void {
+  if (!courseName?.trim()) return;
+
+  const all = loadAllCourseMappings();
+  const courseKey = normalizeKey(courseName);
+  const mappings: CourseMappings = { ...(all[courseKey] || {}) };
+
+  proposals.forEach(proposal => {
+    const confirmedMatch = confirmed[proposal.studentKey];
+    if (!confirmedMatch) return;
+
+    const student = confirmedMatch.identifier
+      ? gradebookStudents.find(s => s.identifier === confirmedMatch.identifier)
+      : null;
+    mappings[normalizeKey(proposal.studentName)] = student ? { fullName: student.fullName, email: student.email || undefined } : null;
+  });
+
+  all[courseKey] = mappings;
+  localStorage.setItem(COURSE_MAPPINGS_KEY, JSON.stringify(all));
+  console.log(`Saved ${Object.keys(mappings).length} student mappings for course "${courseName}"`);
+}
+
+/**
+ * Mappings confirmed on the resolution screen for the current run
+ */
+export function loadConfirmedMatches(): ConfirmedMatches {
+  try {
+    const saved = localStorage.getItem(CONFIRMED_MATCHES_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (error) {
+    console.error("Error loading confirmed student matches:", error);
+    return {};
+  }
+}
+
+export function saveConfirmedMatches(matches: ConfirmedMatches): void {
+  localStorage.setItem(CONFIRMED_MATCHES_KEY, JSON.stringify(matches));
+}
+
+export function clearConfirmedMatches(): void {
+  localStorage.removeItem(CONFIRMED_MATCHES_KEY);
+}
+
+/**
+ * Group submissions by student, the same way the grading step groups files
+ */
+export function getSubmissionStudents(
+  folderStructure: { [folder: string]: File[] },
+  adapter: LmsAdapter = getLmsAdapter()
+): Record<string, { studentName: string; folders: string[]; participantId: string | null }> {
+  const students: Record<string, { studentName: string; folders: string[]; participantId: string | null }> = {};
+
+  Object.entries(groupSubmissionsByStudent(folderStructure, adapter)).forEach(([studentKey, group]) => {
+    students[studentKey] = { studentName: group.studentName, folders: group.folders, participantId: group.studentId };
+  });
+
+  return students;
+}
+
+/**
+ * Propose a gradebook row for every submission: LMS ID first, then a remembered
+ * mapping for the course, then name matching
+ */
+export function buildMatchProposals(
+  folderStructure: { [folder: string]: File[] },
+  gradebookStudents: StudentGrade[],
+  courseName: string,
+  adapter: LmsAdapter = getLmsAdapter()
+): MatchProposal[] {
+  const remembered = getCourseMappings(courseName);
+  const students = getSubmissionStudents(folderStructure, adapter);
+
+  return Object.entries(students)
+    .map(([studentKey, { studentName, folders, participantId }]): MatchProposal => {
+      const base = { studentKey, studentName, folders, participantId };
+
+      const byId = findStudentByLmsId(participantId, gradebookStudents, adapter);
+      if (byId) {
+        return { ...base, proposed: byId, matcher: adapter.studentIdLabel, confidence: 1, method: 'participant-id' };
+      }
+
+      // Remembered by name: LMS IDs such as Moodle's participant IDs change between assignments
+      const rememberedKey = normalizeKey(studentName);
+      if (rememberedKey in remembered) {
+        const target = remembered[rememberedKey];
+        if (target === null) {
+          return { ...base, proposed: null, matcher: 'Remembered (unmatched)', confidence: 1, method: 'unmatched' };
+        }
+
+        const student = gradebookStudents.find(s =>
+          (target.email && s.email && normalizeKey(s.email) === normalizeKey(target.email)) ||
+          normalizeKey(s.fullName) === normalizeKey(target.fullName)
+        );
+        if (student) {
+          return { ...base, proposed: student, matcher: 'Remembered', confidence: 1, method: 'manual' };
+        }
+      }
+
+      const nameParts = studentName.split(' ');
+      const result = findBestStudentMatchWithDetails({
+        identifier: '',
+        fullName: studentName,
+        firstName: nameParts.length > 1 ? nameParts[0] : undefined,
+        lastName: nameParts.length > 1 ? nameParts.slice(1).join(' ') : undefined
+      }, gradebookStudents);
+
+      if (result) {
+        return { ...base, proposed: result.match, matcher: result.matcher, confidence: result.confidence, method: 'name' };
+      }
+
+      return { ...base, proposed: null, matcher: 'No match', confidence: 0, method: 'unmatched' };
+    })
+    .sort((a, b) => a.confidence - b.confidence || a.studentKey.localeCompare(b.studentKey));
+}
+
+/**
+ * Find the submission key a graded row came from, e.g. to grade it again
+ */
+export function findSubmissionKeyForGrade(
+  grade: StudentGrade,
+  studentFiles: { [submissionKey: string]: File[] },
+  participantIds: { [submissionKey: string]: string },
+  studentNames: { [submissionKey: string]: string },
+  confirmedMatches: ConfirmedMatches,
+  adapter: LmsAdapter = getLmsAdapter()
+): string | null {
+  const keys = Object.keys(studentFiles).filter(key => studentFiles[key].length > 0);
+
+  const byConfirmed = keys.find(key => confirmedMatches[key]?.identifier === grade.identifier);
+  if (byConfirmed) return byConfirmed;
+
+  const participantId = adapter.getStudentId(grade);
+  const byId = participantId ? keys.find(key => participantIds[key] === participantId) : undefined;
+  if (byId) return byId;
+
+  const byFile = grade.file ? keys.find(key => studentFiles[key].includes(grade.file)) : undefined;
+  if (byFile) return byFile;
+
+  // Only by name when no other submission has the same name
+  const byName = keys.filter(key => normalizeKey(studentNames[key] || key) === normalizeKey(grade.fullName));
+  return byName.length === 1 ? byName[0] : null;
+}
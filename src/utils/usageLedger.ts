@@ -0,0 +1,115 @@
+/**
+ * Server-side usage ledger: one row per AI request made through the proxy with the shared keys,
+ * for reconciling usage against billing
+ */
+import Papa from 'papaparse';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+export type UsageEvent = Database['public']['Tables']['usage_events']['Row'];
+
+export interface MonthlyUsage {
+  month: string; // "YYYY-MM"
+  requests: number;
+  students: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  errors: number;
+  rejected: number;
+}
+
+// Rows per request; PostgREST returns at most 1,000 rows per request by default
+const PAGE_SIZE = 1000;
+
+/**
+ * Load usage events since a date, oldest first: the signed-in user's own, or an organization's
+ * pooled usage when an organization id is given (owners only). Loads every page, so the totals
+ * and the export aren't cut off at the server's row limit.
+ */
+export async function fetchUsageEvents(userId: string, since: Date, organizationId?: string): Promise<UsageEvent[]> {
+  const events: UsageEvent[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const query = supabase
+      .from('usage_events')
+      .select('*')
+      .gte('created_at', since.toISOString());
+
+    const { data, error } = await (organizationId ? query.eq('organization_id', organizationId) : query.eq('user_id', userId))
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw error;
+    }
+
+    events.push(...(data || []).map(event => ({ ...event, cost: Number(event.cost) || 0 })));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return events;
+}
+
+function getMonthKey(timestamp: string): string {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Totals per calendar month, including empty months so charts have no gaps
+ */
+export function summarizeUsageByMonth(events: UsageEvent[], since: Date, until: Date = new Date()): MonthlyUsage[] {
+  const months = new Map<string, MonthlyUsage>();
+
+  for (let date = new Date(since.getFullYear(), since.getMonth(), 1); date <= until; date.setMonth(date.getMonth() + 1)) {
+    const month = getMonthKey(date.toISOString());
+    months.set(month, { month, requests: 0, students: 0, promptTokens: 0, completionTokens: 0, cost: 0, errors: 0, rejected: 0 });
+  }
+
+  events.forEach(event => {
+    const month = getMonthKey(event.created_at);
+    const summary = months.get(month);
+    if (!summary) return;
+
+    summary.requests++;
+    summary.students += event.student_count;
+    summary.promptTokens += event.prompt_tokens;
+    summary.completionTokens += event.completion_tokens;
+    summary.cost += event.cost;
+    if (event.outcome === 'error') summary.errors++;
+    if (event.outcome === 'rejected') summary.rejected++;
+  });
+
+  return Array.from(months.values());
+}
+
+/**
+ * Format a "YYYY-MM" key as e.g. "Oct 2026"
+ */
+export function formatMonth(month: string): string {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(year, monthIndex - 1, 1).toLocaleDateString(undefined, { month: 'short', year: 'numeric' });
+}
+
+/**
+ * One row per event, for reconciling against the provider's invoice. Pooled usage also names
+ * the member who made each request.
+ */
+export function generateUsageEventsCSV(events: UsageEvent[], includeUser: boolean = false): string {
+  return Papa.unparse(events.map(event => ({
+    'Date': event.created_at,
+    ...(includeUser ? { 'User ID': event.user_id } : {}),
+    'Assignment': event.assignment_name || '',
+    'Assignment profile ID': event.assignment_profile_id || '',
+    'Request type': event.request_kind,
+    'Students': event.student_count,
+    'Provider': event.provider,
+    'Model': event.model || '',
+    'Prompt tokens': event.prompt_tokens,
+    'Completion tokens': event.completion_tokens,
+    'Estimated cost (USD)': event.cost.toFixed(6),
+    'Outcome': event.outcome
+  })));
+}
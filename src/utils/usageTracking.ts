@@ -0,0 +1,147 @@
+/**
+ * Token and cost accounting for AI calls: per call, aggregated per student and run,
+ * and a running total per account
+ */
+import type { StudentGrade } from '@/hooks/use-grading-workflow';
+import { estimateCost } from '../../supabase/functions/_shared/modelPrices';
+
+export { estimateCost };
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;   // Estimated cost in USD (0 for models without a known price, e.g. local servers)
+  calls: number;
+  model: string;
+}
+
+export interface AccountUsage {
+  total: TokenUsage;
+  thisMonth: TokenUsage;
+  byMonth: Record<string, TokenUsage>; // Keyed by "YYYY-MM"
+}
+
+const ACCOUNT_USAGE_KEY = 'moodle_grader_account_usage';
+const LOCAL_ACCOUNT = 'local';
+
+// OCR calls happen while files are read, before the student is known, so they are kept per file until claimed
+const fileUsage = new Map<string, TokenUsage>();
+
+export function emptyUsage(model: string = ''): TokenUsage {
+  return { promptTokens: 0, completionTokens: 0, cost: 0, calls: 0, model };
+}
+
+/**
+ * Read the "usage" block of a chat-completions response
+ */
+export function extractTokenUsage(data: unknown, model: string): TokenUsage | null {
+  const usage = (data as { usage?: { prompt_tokens?: number; completion_tokens?: number } })?.usage;
+  if (!usage) return null;
+
+  const promptTokens = usage.prompt_tokens || 0;
+  const completionTokens = usage.completion_tokens || 0;
+  return {
+    promptTokens,
+    completionTokens,
+    cost: estimateCost(model, promptTokens, completionTokens),
+    calls: 1,
+    model
+  };
+}
+
+/**
+ * Combine usage from several calls; either side may be missing
+ */
+export function addUsage(a: TokenUsage | null | undefined, b: TokenUsage | null | undefined): TokenUsage | undefined {
+  if (!a) return b || undefined;
+  if (!b) return a;
+
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    cost: a.cost + b.cost,
+    calls: a.calls + b.calls,
+    model: a.model === b.model || !b.model ? a.model : !a.model ? b.model : 'mixed'
+  };
+}
+
+/**
+ * Total usage of a run from its students' grades
+ */
+export function summarizeUsage(grades: Pick<StudentGrade, 'usage'>[]): TokenUsage {
+  return grades.reduce<TokenUsage>((total, grade) => addUsage(total, grade.usage), emptyUsage());
+}
+
+function getFileKey(file: File): string {
+  return `${file.name}-${file.size}-${file.lastModified}`;
+}
+
+export function recordFileUsage(file: File, usage: TokenUsage | null): void {
+  if (!usage) return;
+  const key = getFileKey(file);
+  fileUsage.set(key, addUsage(fileUsage.get(key), usage));
+}
+
+/**
+ * Collect (and forget) the OCR usage recorded for a student's files
+ */
+export function takeFileUsage(files: File[]): TokenUsage | undefined {
+  return files.reduce<TokenUsage | undefined>((total, file) => {
+    const key = getFileKey(file);
+    const usage = fileUsage.get(key);
+    fileUsage.delete(key);
+    return addUsage(total, usage);
+  }, undefined);
+}
+
+function getMonthKey(date: Date = new Date()): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+function loadAllAccountUsage(): Record<string, Record<string, TokenUsage>> {
+  try {
+    const saved = localStorage.getItem(ACCOUNT_USAGE_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (error) {
+    console.error("Error loading account usage:", error);
+    return {};
+  }
+}
+
+/**
+ * Add usage to the account's monthly totals (signed-out use is kept under a local account)
+ */
+export function recordAccountUsage(userId: string | null | undefined, usage: TokenUsage | null | undefined): void {
+  if (!usage || usage.calls === 0) return;
+
+  try {
+    const all = loadAllAccountUsage();
+    const account = userId || LOCAL_ACCOUNT;
+    const month = getMonthKey();
+    const months = all[account] || {};
+
+    months[month] = addUsage(months[month], usage);
+    all[account] = months;
+    localStorage.setItem(ACCOUNT_USAGE_KEY, JSON.stringify(all));
+  } catch (error) {
+    console.error("Error saving account usage:", error);
+  }
+}
+
+export function getAccountUsage(userId: string | null | undefined): AccountUsage {
+  const byMonth = loadAllAccountUsage()[userId || LOCAL_ACCOUNT] || {};
+  return {
+    total: Object.values(byMonth).reduce<TokenUsage>((total, usage) => addUsage(total, usage), emptyUsage()),
+    thisMonth: byMonth[getMonthKey()] || emptyUsage(),
+    byMonth
+  };
+}
+
+export function formatCost(cost: number): string {
+  if (cost > 0 && cost < 0.01) return '<$0.01';
+  return `$${cost.toFixed(2)}`;
+}
+
+export function formatTokens(tokens: number): string {
+  return tokens.toLocaleString();
+}
@@ -0,0 +1,13 @@
+// Prompts the client sends with an image to extract its text. Shared with src/utils/imageUtils.ts so the
+// proxy can recognise these requests, which don't count as grades.
+
+export const IMAGE_DESCRIPTION_PROMPT = 'Describe this image in detail and extract any visible text'
+
+export const IMAGE_TEXT_EXTRACTION_PROMPT =
+  "You are a teaching assistant grading a student's submission. " +
+  'Please extract all text from this image, preserve formatting where possible, ' +
+  'and describe any diagrams, charts or visual elements that are relevant to academic grading. ' +
+  "If you can't extract meaningful text, please state that this appears to be an image " +
+  'without substantial text content.'
+
+export const IMAGE_EXTRACTION_PROMPTS: readonly string[] = [IMAGE_DESCRIPTION_PROMPT, IMAGE_TEXT_EXTRACTION_PROMPT]
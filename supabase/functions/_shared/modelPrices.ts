@@ -0,0 +1,37 @@
+// Published list prices, shared by the proxy's usage ledger and the client's usage display
+// (src/utils/usageTracking.ts) so both report the same cost
+
+export type ModelPrice = {
+  input: number  // USD per million prompt tokens
+  output: number // USD per million completion tokens
+}
+
+// Models are matched by prefix so dated versions use the same price
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 }
+}
+
+function getModelPrice(model: string): ModelPrice | null {
+  const normalized = (model || '').toLowerCase()
+  const match = Object.keys(MODEL_PRICES)
+    .filter(prefix => normalized.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0]
+  return match ? MODEL_PRICES[match] : null
+}
+
+/**
+ * Estimated cost in USD for a call, or 0 when the model has no known price (e.g. local servers)
+ */
+export function estimateCost(model: string, promptTokens: number, completionTokens: number): number {
+  const price = getModelPrice(model)
+  if (!price) return 0
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000
+}
@@ -0,0 +1,10 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Provided automatically to edge functions
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+// Service-role client for quota reservations and the usage ledger, which users can't write to
+export const admin = SUPABASE_URL && SUPABASE_SERVICE_ROLE_KEY
+  ? createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, { auth: { persistSession: false } })
+  : null
@@ -1,4 +1,7 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { callProvider } from './providers.ts'
+import { reserveQuota, type QuotaReservation } from './quota.ts'
+import { recordUsageEvent, takeUsageContext } from './usage.ts'
 
 // Get the API key from environment
 const OPENAI_API_KEY = Deno.env.get('OPENAI_API_KEY')
@@ -12,9 +15,22 @@ const corsHeaders = {
   'Access-Control-Allow-Origin': '*', // Allowing all origins for now
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-openai-key, x-supabase-auth, x-use-server-key, origin, referer',
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Expose-Headers': 'retry-after', // Lets the client back off as long as the provider asks
   'Access-Control-Max-Age': '86400' // Cache preflight requests for 24 hours
 }
 
+// Structured error for requests rejected by the quota check
+function quotaErrorResponse(reservation: Extract<QuotaReservation, { ok: false }>, origin: string) {
+  return new Response(JSON.stringify(reservation.body), {
+    status: reservation.status,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': origin !== 'unknown' ? origin : '*'
+    }
+  })
+}
+
 serve(async (req) => {
   // Log request origin for debugging
   const origin = req.headers.get('origin') || 'unknown';
@@ -67,6 +83,65 @@ serve(async (req) => {
       console.log('Image content detected in request');
     }
     
+    // Route by provider - requests without one are from older clients and go to OpenAI
+    const provider = requestData.provider || 'openai'
+    delete requestData.provider
+    console.log('Request provider:', provider)
+    
+    // Which assignment the request belongs to, for the usage ledger
+    const usageContext = takeUsageContext(requestData)
+    
+    if (provider !== 'openai') {
+      // Other providers always use server-side keys, so they always count against the user's quota
+      const reservation = await reserveQuota(req, requestData, usageContext.assignmentProfileId)
+      if (!reservation.ok) {
+        await recordUsageEvent({ userId: reservation.userId, request: requestData, provider, context: usageContext, outcome: 'rejected' })
+        return quotaErrorResponse(reservation, origin)
+      }
+      
+      try {
+        const result = await callProvider(provider, requestData)
+        console.log(`${provider} response status:`, result.status)
+        
+        if (result.status >= 400) {
+          await reservation.release()
+        }
+        await recordUsageEvent({
+          userId: reservation.userId,
+          organizationId: reservation.organizationId,
+          request: requestData,
+          provider,
+          context: usageContext,
+          outcome: result.status >= 400 ? 'error' : 'success',
+          responseBody: result.body
+        })
+        
+        return new Response(result.body, {
+          status: result.status,
+          headers: { 
+            ...corsHeaders, 
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': origin !== 'unknown' ? origin : '*',
+            ...(result.retryAfter ? { 'Retry-After': result.retryAfter } : {})
+          }
+        })
+      } catch (providerError) {
+        console.error(`Error calling ${provider}:`, providerError)
+        await reservation.release()
+        await recordUsageEvent({ userId: reservation.userId, organizationId: reservation.organizationId, request: requestData, provider, context: usageContext, outcome: 'error' })
+        
+        return new Response(JSON.stringify({
+          error: `Error calling ${provider} API`,
+          message: providerError.message,
+          timestamp: new Date().toISOString(),
+          isImageRequest: hasImageContent
+        }), {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+    }
+    
     // Check if the client is providing their own API key
     const clientApiKey = req.headers.get('x-openai-key')
     let apiKey = clientApiKey || OPENAI_API_KEY
@@ -129,6 +204,27 @@ serve(async (req) => {
     // Log which API key we're using without revealing full key
     console.log('Using API key:', apiKey ? `${apiKey.substring(0, 3)}...${apiKey.substring(apiKey.length - 4)}` : 'none')
     console.log('Using server key:', apiKey === OPENAI_API_KEY)
+    
+    // Requests paid for by the server key count against the user's quota; a user's own key does not
+    let reservation: QuotaReservation | null = null
+    if (apiKey === OPENAI_API_KEY) {
+      reservation = await reserveQuota(req, requestData, usageContext.assignmentProfileId)
+      if (!reservation.ok) {
+        await recordUsageEvent({ userId: reservation.userId, request: requestData, provider, context: usageContext, outcome: 'rejected' })
+        return quotaErrorResponse(reservation, origin)
+      }
+    }
+    const releaseReservation = async () => {
+      if (reservation?.ok) {
+        await reservation.release()
+      }
+    }
+    // Only server-key requests go in the ledger; a user's own key is billed to them directly
+    const recordUsage = async (outcome: 'success' | 'error', responseBody?: unknown) => {
+      if (reservation?.ok) {
+        await recordUsageEvent({ userId: reservation.userId, organizationId: reservation.organizationId, request: requestData, provider, context: usageContext, outcome, responseBody })
+      }
+    }
 
     let responseData;
     let responseStatus = 200;
@@ -165,7 +261,10 @@ serve(async (req) => {
       // For non-200 responses, provide more detailed error information
       if (!response.ok) {
         const errorText = await response.text();
+        const retryAfter = response.headers.get('retry-after');
         console.error('OpenAI API error response:', errorText);
+        await releaseReservation();
+        await recordUsage('error');
         
         // Return a proper error response with CORS headers
         return new Response(errorText, {
@@ -173,7 +272,8 @@ serve(async (req) => {
           headers: { 
             ...corsHeaders, 
             'Content-Type': 'application/json',
-            'Access-Control-Allow-Origin': origin !== 'unknown' ? origin : '*'
+            'Access-Control-Allow-Origin': origin !== 'unknown' ? origin : '*',
+            ...(retryAfter ? { 'Retry-After': retryAfter } : {})
           }
         });
       }
@@ -187,8 +287,11 @@ serve(async (req) => {
       } else if (hasImageContent) {
         console.log('Successfully processed image-based request');
       }
+      await recordUsage(responseData.error ? 'error' : 'success', responseData);
     } catch (openaiError) {
       console.error('Error calling OpenAI:', openaiError);
+      await releaseReservation();
+      await recordUsage('error');
       
       return new Response(JSON.stringify({
         error: 'Error calling OpenAI API',
@@ -0,0 +1,229 @@
+// Provider adapters for the proxy. Requests arrive in the OpenAI chat-completions
+// format and every adapter returns an OpenAI-shaped response so the client never
+// needs to know which vendor handled the call.
+
+type ChatMessage = {
+  role: string
+  content: string | Array<{ type: string; text?: string; image_url?: { url: string } }>
+}
+
+type FunctionDefinition = {
+  name: string
+  description?: string
+  parameters: Record<string, unknown>
+}
+
+export type ChatRequest = {
+  model: string
+  messages: ChatMessage[]
+  functions?: FunctionDefinition[]
+  function_call?: { name: string }
+  temperature?: number
+  max_tokens?: number
+  [key: string]: unknown
+}
+
+export type ProviderResult = {
+  status: number
+  body: string
+  retryAfter?: string | null // Passed back so the client can wait as long as the provider asks
+}
+
+// Anthropic
+const ANTHROPIC_API_KEY = Deno.env.get('ANTHROPIC_API_KEY')
+const ANTHROPIC_VERSION = '2023-06-01'
+
+// Azure OpenAI - the model name in the request is used as the deployment name
+const AZURE_OPENAI_ENDPOINT = Deno.env.get('AZURE_OPENAI_ENDPOINT')
+const AZURE_OPENAI_API_KEY = Deno.env.get('AZURE_OPENAI_API_KEY')
+const AZURE_OPENAI_API_VERSION = Deno.env.get('AZURE_OPENAI_API_VERSION') || '2024-06-01'
+
+// Institution-hosted OpenAI-compatible server (vLLM, Ollama, llama.cpp, ...)
+const OPENAI_COMPATIBLE_BASE_URL = Deno.env.get('OPENAI_COMPATIBLE_BASE_URL')
+const OPENAI_COMPATIBLE_API_KEY = Deno.env.get('OPENAI_COMPATIBLE_API_KEY')
+
+console.log('Configured providers:', {
+  anthropic: !!ANTHROPIC_API_KEY,
+  azure: !!(AZURE_OPENAI_ENDPOINT && AZURE_OPENAI_API_KEY),
+  openaiCompatible: !!OPENAI_COMPATIBLE_BASE_URL
+})
+
+function errorResult(status: number, message: string): ProviderResult {
+  return { status, body: JSON.stringify({ error: message }) }
+}
+
+/**
+ * Forward a request to a non-OpenAI provider
+ */
+export async function callProvider(provider: string, request: ChatRequest): Promise<ProviderResult> {
+  switch (provider) {
+    case 'anthropic':
+      return await callAnthropic(request)
+    case 'azure-openai':
+      return await callAzureOpenAI(request)
+    case 'openai-compatible':
+      return await callOpenAICompatible(request)
+    default:
+      return errorResult(400, `Unsupported provider: ${provider}`)
+  }
+}
+
+async function callAzureOpenAI(request: ChatRequest): Promise<ProviderResult> {
+  if (!AZURE_OPENAI_ENDPOINT || !AZURE_OPENAI_API_KEY) {
+    return errorResult(400, 'Azure OpenAI is not configured on the server (AZURE_OPENAI_ENDPOINT / AZURE_OPENAI_API_KEY).')
+  }
+
+  const { model, ...body } = request
+  const url = `${AZURE_OPENAI_ENDPOINT.replace(/\/+$/, '')}/openai/deployments/${encodeURIComponent(model)}/chat/completions?api-version=${AZURE_OPENAI_API_VERSION}`
+  console.log(`Forwarding to Azure OpenAI deployment: ${model}`)
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'api-key': AZURE_OPENAI_API_KEY,
+    },
+    body: JSON.stringify(body),
+  })
+
+  return { status: response.status, body: await response.text(), retryAfter: response.headers.get('retry-after') }
+}
+
+async function callOpenAICompatible(request: ChatRequest): Promise<ProviderResult> {
+  if (!OPENAI_COMPATIBLE_BASE_URL) {
+    return errorResult(400, 'No OpenAI-compatible server is configured on the server (OPENAI_COMPATIBLE_BASE_URL). Set a server URL in the assignment settings to call a local server directly.')
+  }
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+  if (OPENAI_COMPATIBLE_API_KEY) {
+    headers['Authorization'] = `Bearer ${OPENAI_COMPATIBLE_API_KEY}`
+  }
+
+  // Most compatible servers only implement the newer tools format
+  const { functions, function_call, ...rest } = request
+  const body = functions ? {
+    ...rest,
+    tools: functions.map(fn => ({ type: 'function', function: fn })),
+    ...(function_call ? { tool_choice: { type: 'function', function: { name: function_call.name } } } : {})
+  } : rest
+
+  console.log(`Forwarding to OpenAI-compatible server: ${OPENAI_COMPATIBLE_BASE_URL}`)
+  const response = await fetch(`${OPENAI_COMPATIBLE_BASE_URL.replace(/\/+$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(body),
+  })
+
+  const text = await response.text()
+  if (!response.ok || !functions) {
+    return { status: response.status, body: text, retryAfter: response.headers.get('retry-after') }
+  }
+
+  // Map tool_calls back to function_call for the client
+  const data = JSON.parse(text)
+  const message = data.choices?.[0]?.message
+  const toolCall = message?.tool_calls?.[0]
+  if (toolCall?.function) {
+    const args = toolCall.function.arguments
+    message.function_call = {
+      name: toolCall.function.name,
+      arguments: typeof args === 'string' ? args : JSON.stringify(args),
+    }
+  }
+
+  return { status: response.status, body: JSON.stringify(data) }
+}
+
+async function callAnthropic(request: ChatRequest): Promise<ProviderResult> {
+  if (!ANTHROPIC_API_KEY) {
+    return errorResult(400, 'Anthropic is not configured on the server (ANTHROPIC_API_KEY).')
+  }
+
+  // Anthropic takes the system prompt separately from the conversation
+  const system = request.messages
+    .filter(msg => msg.role === 'system')
+    .map(msg => typeof msg.content === 'string' ? msg.content : '')
+    .join('\n\n')
+
+  const messages = request.messages
+    .filter(msg => msg.role !== 'system')
+    .map(msg => ({
+      role: msg.role === 'assistant' ? 'assistant' : 'user',
+      content: typeof msg.content === 'string'
+        ? msg.content
+        : msg.content.map(part => {
+            if (part.type === 'image_url' && part.image_url) {
+              // data:image/png;base64,.... -> Anthropic base64 image block
+              const match = part.image_url.url.match(/^data:([^;]+);base64,(.*)$/)
+              if (match) {
+                return { type: 'image', source: { type: 'base64', media_type: match[1], data: match[2] } }
+              }
+              return { type: 'image', source: { type: 'url', url: part.image_url.url } }
+            }
+            return { type: 'text', text: part.text || '' }
+          }),
+    }))
+
+  const body: Record<string, unknown> = {
+    model: request.model,
+    max_tokens: request.max_tokens || 4096,
+    messages,
+    ...(system ? { system } : {}),
+    ...(request.temperature !== undefined ? { temperature: Math.min(request.temperature, 1) } : {}),
+  }
+
+  if (request.functions) {
+    body.tools = request.functions.map(fn => ({
+      name: fn.name,
+      description: fn.description,
+      input_schema: fn.parameters,
+    }))
+    if (request.function_call) {
+      body.tool_choice = { type: 'tool', name: request.function_call.name }
+    }
+  }
+
+  console.log(`Forwarding to Anthropic model: ${request.model}`)
+  const response = await fetch('https://api.anthropic.com/v1/messages', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': ANTHROPIC_API_KEY,
+      'anthropic-version': ANTHROPIC_VERSION,
+    },
+    body: JSON.stringify(body),
+  })
+
+  const text = await response.text()
+  if (!response.ok) {
+    return { status: response.status, body: text, retryAfter: response.headers.get('retry-after') }
+  }
+
+  // Convert the Messages API response into the chat-completions shape
+  const data = JSON.parse(text)
+  const blocks: Array<{ type: string; text?: string; name?: string; input?: unknown }> = data.content || []
+  const toolUse = blocks.find(block => block.type === 'tool_use')
+  const content = blocks.filter(block => block.type === 'text').map(block => block.text).join('\n')
+
+  const converted = {
+    id: data.id,
+    object: 'chat.completion',
+    model: data.model,
+    choices: [{
+      index: 0,
+      message: {
+        role: 'assistant',
+        content: toolUse ? null : content,
+        ...(toolUse ? { function_call: { name: toolUse.name, arguments: JSON.stringify(toolUse.input) } } : {}),
+      },
+      finish_reason: toolUse ? 'function_call' : data.stop_reason === 'max_tokens' ? 'length' : 'stop',
+    }],
+    usage: {
+      prompt_tokens: data.usage?.input_tokens || 0,
+      completion_tokens: data.usage?.output_tokens || 0,
+      total_tokens: (data.usage?.input_tokens || 0) + (data.usage?.output_tokens || 0),
+    },
+  }
+
+  return { status: 200, body: JSON.stringify(converted) }
+}
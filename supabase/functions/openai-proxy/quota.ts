@@ -0,0 +1,156 @@
+import { admin } from './admin.ts'
+import { IMAGE_EXTRACTION_PROMPTS } from '../_shared/imageExtraction.ts'
+import type { ChatRequest } from './providers.ts'
+
+// Image text extraction doesn't count as a grade, so cap its size to keep the proxy from
+// being used as a general chat endpoint
+const MAX_UNCOUNTED_TOKENS = 1000
+
+const IMAGE_EXTRACTION_PROMPT_SET = new Set(IMAGE_EXTRACTION_PROMPTS)
+
+export const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export type QuotaErrorCode = 'auth_required' | 'quota_exceeded' | 'quota_unavailable'
+
+export type QuotaErrorBody = {
+  error: string
+  code: QuotaErrorCode
+  quota?: { used: number; limit: number; tier: string }
+}
+
+export type QuotaReservation =
+  | { ok: true; userId: string; organizationId: string | null; amount: number; release: () => Promise<void> }
+  | { ok: false; status: number; body: QuotaErrorBody; userId?: string }
+
+type ReservationRow = {
+  allowed: boolean
+  used_count: number
+  limit_count: number
+  tier: string | null
+}
+
+function denied(status: number, code: QuotaErrorCode, error: string, quota?: QuotaErrorBody['quota'], userId?: string): QuotaReservation {
+  return { ok: false, status, body: { error, code, ...(quota ? { quota } : {}) }, userId }
+}
+
+/**
+ * An image extraction request is a single user message with one image and one of the fixed
+ * extraction prompts, and no function calling
+ */
+export function isImageExtractionRequest(request: ChatRequest): boolean {
+  if (request.functions || request.function_call) return false
+  if (!Array.isArray(request.messages) || request.messages.length !== 1) return false
+
+  const [message] = request.messages
+  if (message.role !== 'user' || !Array.isArray(message.content) || message.content.length !== 2) return false
+
+  const texts = message.content.filter(part => part.type === 'text')
+  const images = message.content.filter(part => part.type === 'image_url')
+  return texts.length === 1 && images.length === 1 && IMAGE_EXTRACTION_PROMPT_SET.has(texts[0].text || '')
+}
+
+/**
+ * Every request that isn't an image extraction counts as a grade, whether or not it asks for a
+ * structured grade: a plain-text reply can be turned into a grade just as well
+ */
+export function isGradingRequest(request: ChatRequest): boolean {
+  return !isImageExtractionRequest(request)
+}
+
+/**
+ * Organization whose pool pays for grading with an assignment profile: the one the profile is
+ * shared with, looked up here rather than taken from the client. Undefined when the lookup fails.
+ */
+async function getProfileOrganization(assignmentProfileId?: string): Promise<string | null | undefined> {
+  if (!admin || !assignmentProfileId || !UUID_PATTERN.test(assignmentProfileId)) return null
+
+  const { data, error } = await admin
+    .from('assignment_profiles')
+    .select('organization_id')
+    .eq('id', assignmentProfileId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error looking up the assignment profile\'s organization:', error)
+    return undefined
+  }
+  return (data?.organization_id as string | null) || null
+}
+
+/**
+ * Verify the caller's Supabase JWT and reserve quota for the request before it is forwarded.
+ * Every request except image extraction reserves one grade, from the organization's pool when the assignment profile
+ * is shared with one; call release() if the provider call fails.
+ */
+export async function reserveQuota(req: Request, request: ChatRequest, assignmentProfileId?: string): Promise<QuotaReservation> {
+  if (!admin) {
+    console.error('Quota check unavailable: SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY are not set')
+    return denied(503, 'quota_unavailable', 'Usage limits could not be checked. Please try again later.')
+  }
+
+  const token = (req.headers.get('authorization') || '').replace(/^Bearer\s+/i, '')
+  const { data: { user }, error: authError } = token
+    ? await admin.auth.getUser(token)
+    : { data: { user: null }, error: null }
+
+  if (authError || !user) {
+    return denied(401, 'auth_required', 'Sign in to grade with the shared AI service, or choose a local or offline provider in the assignment settings.')
+  }
+
+  const amount = isGradingRequest(request) ? 1 : 0
+  if (amount === 0) {
+    request.max_tokens = Math.min(request.max_tokens || MAX_UNCOUNTED_TOKENS, MAX_UNCOUNTED_TOKENS)
+  }
+
+  const poolId = await getProfileOrganization(assignmentProfileId)
+  if (poolId === undefined) {
+    return denied(503, 'quota_unavailable', 'Usage limits could not be checked. Please try again later.', undefined, user.id)
+  }
+
+  const { data, error } = await admin.rpc('reserve_grading_quota', { p_user_id: user.id, p_amount: amount, p_organization_id: poolId })
+  const reservation = (Array.isArray(data) ? data[0] : data) as ReservationRow | null
+
+  if (error || !reservation) {
+    console.error('Error reserving quota:', error)
+    return denied(503, 'quota_unavailable', 'Usage limits could not be checked. Please try again later.', undefined, user.id)
+  }
+
+  if (!reservation.allowed && poolId && !reservation.tier) {
+    return denied(403, 'auth_required', 'You are not a member of the team this assignment profile is shared with.', undefined, user.id)
+  }
+
+  if (!reservation.allowed && poolId && reservation.tier === 'none') {
+    return denied(403, 'quota_exceeded', "Your team doesn't have a plan yet, so it has no pooled grades. Ask a team owner to choose a plan.", { used: reservation.used_count, limit: reservation.limit_count, tier: reservation.tier }, user.id)
+  }
+
+  if (!reservation.allowed) {
+    console.log(`Quota exceeded for ${poolId ? `organization ${poolId}` : `user ${user.id}`}: ${reservation.used_count}/${reservation.limit_count}`)
+    return denied(
+      403,
+      'quota_exceeded',
+      poolId
+        ? `Your team has used ${reservation.used_count} of ${reservation.limit_count} pooled grades on the ${reservation.tier} plan. Ask a team owner to upgrade to keep grading.`
+        : `You've used ${reservation.used_count} of ${reservation.limit_count} grades on the ${reservation.tier || 'free'} plan. Upgrade your plan to keep grading.`,
+      { used: reservation.used_count, limit: reservation.limit_count, tier: reservation.tier || 'free' },
+      user.id
+    )
+  }
+
+  console.log(`Reserved ${amount} grade(s) for user ${user.id}${poolId ? ` from organization ${poolId}` : ''}: ${reservation.used_count}/${reservation.limit_count}`)
+
+  return {
+    ok: true,
+    userId: user.id,
+    organizationId: poolId,
+    amount,
+    release: async () => {
+      if (amount === 0) return
+      const { error: releaseError } = await admin.rpc('release_grading_quota', { p_user_id: user.id, p_amount: amount, p_organization_id: poolId })
+      if (releaseError) {
+        console.error('Error releasing quota reservation:', releaseError)
+      } else {
+        console.log(`Released ${amount} grade(s) for user ${user.id} after a failed request`)
+      }
+    }
+  }
+}
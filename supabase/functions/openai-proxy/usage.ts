@@ -0,0 +1,66 @@
+import { admin } from './admin.ts'
+import { estimateCost } from '../_shared/modelPrices.ts'
+import { isGradingRequest, UUID_PATTERN } from './quota.ts'
+import type { ChatRequest } from './providers.ts'
+
+// Sent by the client in the request body and removed before forwarding
+export type UsageContext = {
+  assignmentProfileId?: string
+  assignmentName?: string
+}
+
+export type UsageOutcome = 'success' | 'error' | 'rejected'
+
+/**
+ * Take the usage context out of the request so it isn't forwarded to the provider
+ */
+export function takeUsageContext(request: ChatRequest): UsageContext {
+  const context = (request.usage_context || {}) as UsageContext
+  delete request.usage_context
+  return { assignmentProfileId: context.assignmentProfileId, assignmentName: context.assignmentName }
+}
+
+/**
+ * Write one row to the usage ledger. Failures are logged but never fail the request.
+ */
+export async function recordUsageEvent(event: {
+  userId?: string
+  organizationId?: string | null // The pool the request was charged to
+  request: ChatRequest
+  provider: string
+  context: UsageContext
+  outcome: UsageOutcome
+  responseBody?: unknown
+}): Promise<void> {
+  if (!admin || !event.userId) return
+
+  try {
+    const body = typeof event.responseBody === 'string' ? JSON.parse(event.responseBody) : event.responseBody
+    const usage = (body as { usage?: { prompt_tokens?: number; completion_tokens?: number } } | undefined)?.usage
+    const promptTokens = usage?.prompt_tokens || 0
+    const completionTokens = usage?.completion_tokens || 0
+    const isGrading = isGradingRequest(event.request)
+    const profileId = event.context.assignmentProfileId
+
+    const { error } = await admin.from('usage_events').insert({
+      user_id: event.userId,
+      organization_id: event.organizationId || null,
+      assignment_profile_id: profileId && UUID_PATTERN.test(profileId) ? profileId : null,
+      assignment_name: event.context.assignmentName?.slice(0, 200) || null,
+      request_kind: isGrading ? 'grading' : 'extraction',
+      student_count: isGrading && event.outcome === 'success' ? 1 : 0,
+      provider: event.provider,
+      model: event.request.model || null,
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      cost: estimateCost(event.request.model, promptTokens, completionTokens),
+      outcome: event.outcome
+    })
+
+    if (error) {
+      console.error('Error recording usage event:', error)
+    }
+  } catch (error) {
+    console.error('Error recording usage event:', error)
+  }
+}
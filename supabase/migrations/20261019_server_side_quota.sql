@@ -0,0 +1,96 @@
+-- Server-side grading quota
+-- The openai-proxy edge function reserves quota here before forwarding a request,
+-- so limits hold even when the proxy is called directly
+
+-- Grade limits per account tier (kept in sync with TIER_LIMITS in the client)
+CREATE TABLE IF NOT EXISTS public.tier_limits (
+  tier TEXT PRIMARY KEY CHECK (tier IN ('free', 'basic', 'premium')),
+  grades_limit INTEGER NOT NULL
+);
+
+INSERT INTO public.tier_limits (tier, grades_limit) VALUES
+  ('free', 50),
+  ('basic', 500),
+  ('premium', 2000)
+ON CONFLICT (tier) DO UPDATE SET grades_limit = EXCLUDED.grades_limit;
+
+ALTER TABLE public.tier_limits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view tier limits" ON public.tier_limits
+  FOR SELECT USING (true);
+
+-- Atomically reserve grades for a user. Requests that don't count as a grade (p_amount = 0)
+-- are still only allowed while the user has at least one grade left.
+CREATE OR REPLACE FUNCTION public.reserve_grading_quota(p_user_id UUID, p_amount INTEGER)
+RETURNS TABLE (allowed BOOLEAN, used_count INTEGER, limit_count INTEGER, tier TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_limit INTEGER;
+BEGIN
+  -- Lock the user's row so concurrent requests can't both take the last grade
+  SELECT COALESCE(t.grades_limit, u.grades_limit) INTO v_limit
+  FROM public.users u
+  LEFT JOIN public.tier_limits t ON t.tier = u.account_tier
+  WHERE u.id = p_user_id
+  FOR UPDATE OF u;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT false, 0, 0, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  UPDATE public.users u
+  SET grades_used = u.grades_used + p_amount,
+      grades_limit = v_limit
+  WHERE u.id = p_user_id
+    AND u.grades_used + GREATEST(p_amount, 1) <= v_limit
+  RETURNING true, u.grades_used, u.grades_limit, u.account_tier;
+
+  IF NOT FOUND THEN
+    RETURN QUERY
+    SELECT false, u.grades_used, v_limit, u.account_tier
+    FROM public.users u
+    WHERE u.id = p_user_id;
+  END IF;
+END;
+$$;
+
+-- Give back a reservation when the provider call failed
+CREATE OR REPLACE FUNCTION public.release_grading_quota(p_user_id UUID, p_amount INTEGER)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.users
+  SET grades_used = GREATEST(0, grades_used - p_amount)
+  WHERE id = p_user_id;
+$$;
+
+-- Only the edge function (service role) may reserve or release quota
+REVOKE EXECUTE ON FUNCTION public.reserve_grading_quota(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_grading_quota(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reserve_grading_quota(UUID, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.release_grading_quota(UUID, INTEGER) TO service_role;
+
+-- Users may still update their own row, but not their usage, limit or plan
+CREATE OR REPLACE FUNCTION public.protect_quota_columns()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    NEW.grades_used = OLD.grades_used;
+    NEW.grades_limit = OLD.grades_limit;
+    NEW.account_tier = OLD.account_tier;
+    NEW.subscription_status = OLD.subscription_status;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER protect_users_quota_columns
+BEFORE UPDATE ON public.users
+FOR EACH ROW EXECUTE FUNCTION public.protect_quota_columns();
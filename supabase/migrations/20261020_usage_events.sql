@@ -0,0 +1,26 @@
+-- Usage ledger written by the openai-proxy edge function, one row per proxied AI request,
+-- so instructors and department admins can reconcile usage against billing
+
+CREATE TABLE IF NOT EXISTS public.usage_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  assignment_profile_id UUID REFERENCES public.assignment_profiles(id) ON DELETE SET NULL,
+  assignment_name TEXT,
+  request_kind TEXT NOT NULL CHECK (request_kind IN ('grading', 'extraction')),
+  student_count INTEGER DEFAULT 0 NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT,
+  prompt_tokens INTEGER DEFAULT 0 NOT NULL,
+  completion_tokens INTEGER DEFAULT 0 NOT NULL,
+  cost NUMERIC(12, 6) DEFAULT 0 NOT NULL, -- Estimated USD at list prices
+  outcome TEXT NOT NULL CHECK (outcome IN ('success', 'error', 'rejected'))
+);
+
+ALTER TABLE public.usage_events ENABLE ROW LEVEL SECURITY;
+
+-- Users can read their own ledger; only the edge function (service role) writes to it
+CREATE POLICY "Users can view own usage events" ON public.usage_events
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_usage_events_user_created ON public.usage_events(user_id, created_at);
@@ -0,0 +1,328 @@
+-- Team and department accounts
+-- Organizations have members with roles, assignment profiles can be shared with an organization,
+-- and grading under a shared profile draws from the organization's pooled grade quota.
+--
+-- Roles: owner (manages members and the organization), instructor (creates and edits shared
+-- profiles), ta (uses shared profiles to grade)
+
+CREATE TABLE IF NOT EXISTS public.organizations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  account_tier TEXT DEFAULT 'none' NOT NULL CHECK (account_tier IN ('none', 'free', 'basic', 'premium')),
+  grades_used INTEGER DEFAULT 0 NOT NULL,
+  grades_limit INTEGER DEFAULT 0 NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.organization_members (
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'instructor', 'ta')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  PRIMARY KEY (organization_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_organization_members_user_id ON public.organization_members(user_id);
+
+-- Profiles shared with an organization; unshared (personal) when the organization is deleted
+ALTER TABLE public.assignment_profiles
+  ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES public.organizations(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_assignment_profiles_organization_id ON public.assignment_profiles(organization_id);
+
+-- Which pool a ledger row was charged to (NULL for the user's own quota)
+ALTER TABLE public.usage_events
+  ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES public.organizations(id) ON DELETE SET NULL;
+
+CREATE TRIGGER update_organizations_modtime
+BEFORE UPDATE ON public.organizations
+FOR EACH ROW EXECUTE FUNCTION update_modified_column();
+
+-- The caller's role in an organization, or NULL if they aren't a member.
+-- SECURITY DEFINER so policies on organization_members can use it without recursing.
+CREATE OR REPLACE FUNCTION public.organization_role(p_organization_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM public.organization_members
+  WHERE organization_id = p_organization_id AND user_id = auth.uid();
+$$;
+
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_members ENABLE ROW LEVEL SECURITY;
+
+-- Organizations policies (created through create_organization so the creator becomes owner)
+CREATE POLICY "Members can view their organizations" ON public.organizations
+  FOR SELECT USING (public.organization_role(id) IS NOT NULL);
+
+CREATE POLICY "Owners can update their organizations" ON public.organizations
+  FOR UPDATE USING (public.organization_role(id) = 'owner');
+
+CREATE POLICY "Owners can delete their organizations" ON public.organizations
+  FOR DELETE USING (public.organization_role(id) = 'owner');
+
+-- Membership policies (members are added through add_organization_member, which looks up the email)
+CREATE POLICY "Members can view memberships of their organizations" ON public.organization_members
+  FOR SELECT USING (public.organization_role(organization_id) IS NOT NULL);
+
+CREATE POLICY "Owners can change member roles" ON public.organization_members
+  FOR UPDATE USING (public.organization_role(organization_id) = 'owner');
+
+CREATE POLICY "Owners can remove members and members can leave" ON public.organization_members
+  FOR DELETE USING (public.organization_role(organization_id) = 'owner' OR auth.uid() = user_id);
+
+-- Profiles policies: personal profiles stay private, shared ones are visible to every member
+-- and editable by owners and instructors
+DROP POLICY IF EXISTS "Users can view own profiles" ON public.assignment_profiles;
+DROP POLICY IF EXISTS "Users can insert own profiles" ON public.assignment_profiles;
+DROP POLICY IF EXISTS "Users can update own profiles" ON public.assignment_profiles;
+DROP POLICY IF EXISTS "Users can delete own profiles" ON public.assignment_profiles;
+
+CREATE POLICY "Users can view own and shared profiles" ON public.assignment_profiles
+  FOR SELECT USING (
+    auth.uid() = user_id
+    OR (organization_id IS NOT NULL AND public.organization_role(organization_id) IS NOT NULL)
+  );
+
+CREATE POLICY "Users can insert own and shared profiles" ON public.assignment_profiles
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND (organization_id IS NULL OR public.organization_role(organization_id) IN ('owner', 'instructor'))
+  );
+
+CREATE POLICY "Users can update own and shared profiles" ON public.assignment_profiles
+  FOR UPDATE USING (
+    auth.uid() = user_id
+    OR public.organization_role(organization_id) IN ('owner', 'instructor')
+  )
+  WITH CHECK (
+    (auth.uid() = user_id OR public.organization_role(organization_id) IN ('owner', 'instructor'))
+    AND (organization_id IS NULL OR public.organization_role(organization_id) IN ('owner', 'instructor'))
+  );
+
+CREATE POLICY "Users can delete own profiles and owners shared ones" ON public.assignment_profiles
+  FOR DELETE USING (
+    auth.uid() = user_id
+    OR public.organization_role(organization_id) = 'owner'
+  );
+
+-- Organization owners can see the pooled usage of their members
+CREATE POLICY "Owners can view organization usage events" ON public.usage_events
+  FOR SELECT USING (organization_id IS NOT NULL AND public.organization_role(organization_id) = 'owner');
+
+-- Create an organization with the caller as its owner; it has no plan and no pooled grades yet
+CREATE OR REPLACE FUNCTION public.create_organization(p_name TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_organization_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  INSERT INTO public.organizations (name, created_by, account_tier, grades_limit)
+  VALUES (trim(p_name), auth.uid(), 'none', 0)
+  RETURNING id INTO v_organization_id;
+
+  INSERT INTO public.organization_members (organization_id, user_id, role)
+  VALUES (v_organization_id, auth.uid(), 'owner');
+
+  RETURN v_organization_id;
+END;
+$$;
+
+-- Add a registered user to an organization by email, or change their role if already a member
+CREATE OR REPLACE FUNCTION public.add_organization_member(p_organization_id UUID, p_email TEXT, p_role TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  IF public.organization_role(p_organization_id) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only organization owners can add members';
+  END IF;
+
+  -- Same error whether or not the email has an account, so owners can't probe which emails are registered
+  SELECT id INTO v_user_id FROM public.users WHERE lower(email) = lower(trim(p_email));
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Could not add member';
+  END IF;
+
+  INSERT INTO public.organization_members (organization_id, user_id, role)
+  VALUES (p_organization_id, v_user_id, p_role)
+  ON CONFLICT (organization_id, user_id) DO UPDATE SET role = EXCLUDED.role;
+END;
+$$;
+
+-- Members with their emails (users can otherwise only read their own row)
+CREATE OR REPLACE FUNCTION public.get_organization_members(p_organization_id UUID)
+RETURNS TABLE (user_id UUID, email TEXT, role TEXT, created_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.organization_role(p_organization_id) IS NULL THEN
+    RAISE EXCEPTION 'Not a member of this organization';
+  END IF;
+
+  RETURN QUERY
+  SELECT m.user_id, u.email, m.role, m.created_at
+  FROM public.organization_members m
+  JOIN public.users u ON u.id = m.user_id
+  WHERE m.organization_id = p_organization_id
+  ORDER BY m.created_at;
+END;
+$$;
+
+-- An organization must always keep at least one owner
+CREATE OR REPLACE FUNCTION public.keep_organization_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.role = 'owner'
+    AND (TG_OP = 'DELETE' OR NEW.role <> 'owner')
+    AND EXISTS (SELECT 1 FROM public.organizations WHERE id = OLD.organization_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.organization_members
+      WHERE organization_id = OLD.organization_id AND role = 'owner' AND user_id <> OLD.user_id
+    ) THEN
+    RAISE EXCEPTION 'An organization needs at least one owner';
+  END IF;
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER keep_organization_members_owner
+BEFORE UPDATE OR DELETE ON public.organization_members
+FOR EACH ROW EXECUTE FUNCTION public.keep_organization_owner();
+
+-- Owners may rename their organization, but not change its usage, limit or plan
+CREATE OR REPLACE FUNCTION public.protect_organization_quota_columns()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    NEW.grades_used = OLD.grades_used;
+    NEW.grades_limit = OLD.grades_limit;
+    NEW.account_tier = OLD.account_tier;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER protect_organizations_quota_columns
+BEFORE UPDATE ON public.organizations
+FOR EACH ROW EXECUTE FUNCTION public.protect_organization_quota_columns();
+
+-- Quota reservations can now draw from an organization's pool. The user must be a member;
+-- a non-member gets a row with a NULL tier.
+DROP FUNCTION IF EXISTS public.reserve_grading_quota(UUID, INTEGER);
+DROP FUNCTION IF EXISTS public.release_grading_quota(UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.reserve_grading_quota(p_user_id UUID, p_amount INTEGER, p_organization_id UUID DEFAULT NULL)
+RETURNS TABLE (allowed BOOLEAN, used_count INTEGER, limit_count INTEGER, tier TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_limit INTEGER;
+BEGIN
+  IF p_organization_id IS NULL THEN
+    -- Lock the user's row so concurrent requests can't both take the last grade
+    SELECT COALESCE(t.grades_limit, u.grades_limit) INTO v_limit
+    FROM public.users u
+    LEFT JOIN public.tier_limits t ON t.tier = u.account_tier
+    WHERE u.id = p_user_id
+    FOR UPDATE OF u;
+
+    IF NOT FOUND THEN
+      RETURN QUERY SELECT false, 0, 0, NULL::TEXT;
+      RETURN;
+    END IF;
+
+    RETURN QUERY
+    UPDATE public.users u
+    SET grades_used = u.grades_used + p_amount,
+        grades_limit = v_limit
+    WHERE u.id = p_user_id
+      AND u.grades_used + GREATEST(p_amount, 1) <= v_limit
+    RETURNING true, u.grades_used, u.grades_limit, u.account_tier;
+
+    IF NOT FOUND THEN
+      RETURN QUERY
+      SELECT false, u.grades_used, v_limit, u.account_tier
+      FROM public.users u
+      WHERE u.id = p_user_id;
+    END IF;
+    RETURN;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.organization_members m
+    WHERE m.organization_id = p_organization_id AND m.user_id = p_user_id
+  ) THEN
+    RETURN QUERY SELECT false, 0, 0, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  -- Lock the organization's row; every member grading draws from the same pool
+  SELECT COALESCE(t.grades_limit, o.grades_limit) INTO v_limit
+  FROM public.organizations o
+  LEFT JOIN public.tier_limits t ON t.tier = o.account_tier
+  WHERE o.id = p_organization_id
+  FOR UPDATE OF o;
+
+  RETURN QUERY
+  UPDATE public.organizations o
+  SET grades_used = o.grades_used + p_amount,
+      grades_limit = v_limit
+  WHERE o.id = p_organization_id
+    AND o.grades_used + GREATEST(p_amount, 1) <= v_limit
+  RETURNING true, o.grades_used, o.grades_limit, o.account_tier;
+
+  IF NOT FOUND THEN
+    RETURN QUERY
+    SELECT false, o.grades_used, v_limit, o.account_tier
+    FROM public.organizations o
+    WHERE o.id = p_organization_id;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.release_grading_quota(p_user_id UUID, p_amount INTEGER, p_organization_id UUID DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_organization_id IS NULL THEN
+    UPDATE public.users
+    SET grades_used = GREATEST(0, grades_used - p_amount)
+    WHERE id = p_user_id;
+  ELSE
+    UPDATE public.organizations
+    SET grades_used = GREATEST(0, grades_used - p_amount)
+    WHERE id = p_organization_id;
+  END IF;
+END;
+$$;
+
+-- Only the edge function (service role) may reserve or release quota
+REVOKE EXECUTE ON FUNCTION public.reserve_grading_quota(UUID, INTEGER, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_grading_quota(UUID, INTEGER, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reserve_grading_quota(UUID, INTEGER, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.release_grading_quota(UUID, INTEGER, UUID) TO service_role;
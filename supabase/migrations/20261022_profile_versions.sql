@@ -0,0 +1,74 @@
+-- Assignment profile version history
+-- Every insert or change of a profile's assignment_details is kept as a numbered version, so
+-- instructors can compare and restore earlier settings and grading sessions can record the
+-- exact version they used. Restoring writes the old details back, which creates a new version.
+
+ALTER TABLE public.assignment_profiles
+  ADD COLUMN IF NOT EXISTS current_version INTEGER DEFAULT 1 NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.assignment_profile_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id UUID NOT NULL REFERENCES public.assignment_profiles(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  assignment_details JSONB NOT NULL,
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (profile_id, version)
+);
+
+ALTER TABLE public.assignment_profile_versions ENABLE ROW LEVEL SECURITY;
+
+-- Versions are visible to whoever can see the profile (the profile's own policies apply in the subquery).
+-- They are only written by the trigger below.
+CREATE POLICY "Users can view versions of visible profiles" ON public.assignment_profile_versions
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.assignment_profiles p WHERE p.id = profile_id)
+  );
+
+-- Number the new version before the row is written
+CREATE OR REPLACE FUNCTION public.number_assignment_profile_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.current_version = 1;
+  ELSIF NEW.assignment_details IS DISTINCT FROM OLD.assignment_details THEN
+    NEW.current_version = OLD.current_version + 1;
+  ELSE
+    NEW.current_version = OLD.current_version;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- Copy the details into the history once the profile row exists
+CREATE OR REPLACE FUNCTION public.record_assignment_profile_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.current_version <> OLD.current_version THEN
+    INSERT INTO public.assignment_profile_versions (profile_id, version, assignment_details, created_by)
+    VALUES (NEW.id, NEW.current_version, NEW.assignment_details, COALESCE(auth.uid(), NEW.user_id))
+    ON CONFLICT (profile_id, version) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER number_assignment_profile_version
+BEFORE INSERT OR UPDATE ON public.assignment_profiles
+FOR EACH ROW EXECUTE FUNCTION public.number_assignment_profile_version();
+
+CREATE TRIGGER record_assignment_profile_version
+AFTER INSERT OR UPDATE ON public.assignment_profiles
+FOR EACH ROW EXECUTE FUNCTION public.record_assignment_profile_version();
+
+-- Existing profiles start their history at version 1
+INSERT INTO public.assignment_profile_versions (profile_id, version, assignment_details, created_by, created_at)
+SELECT id, 1, assignment_details, user_id, updated_at
+FROM public.assignment_profiles
+ON CONFLICT (profile_id, version) DO NOTHING;
+
+CREATE INDEX IF NOT EXISTS idx_assignment_profile_versions_profile_id ON public.assignment_profile_versions(profile_id);